@@ -0,0 +1,293 @@
+// Alert rules decide a video's alert level from its recent rates.
+//
+// A rule maps a condition to a level:
+//   { level: "warning" | "emergency", match: "all" | "any", conditions: [...] }
+//
+// Conditions are one of:
+//   { type: "rate", min, samples }      rate >= min for the last N samples
+//   { type: "growth", percent, minutes } rate grew by percent over minutes
+//   { type: "anomaly", sigma }          rate >= baseline mean + sigma stddev
+//   { match: "all" | "any", conditions } nested group
+//
+// Threshold and anomaly mode videos get implicit rules built from their
+// settings, so every mode goes through the same evaluation.
+
+// Anomaly conditions need this many rate samples in the baseline window
+export const MIN_BASELINE_SAMPLES = 10;
+
+// Floor for the standard deviation, so a perfectly flat baseline does not
+// turn a handful of extra views into an alert
+const MIN_STDDEV = 1;
+
+export const ALERT_MODES = ["threshold", "anomaly", "rules"];
+
+const ALERT_LEVELS = ["warning", "emergency"];
+const MAX_RULES = 10;
+const MAX_DEPTH = 3;
+const MAX_SAMPLES = 30;
+const MAX_GROWTH_MINUTES = 120;
+
+export function getAnomalyThreshold(baseline, sigma) {
+  if (!baseline || baseline.count < MIN_BASELINE_SAMPLES) {
+    return null;
+  }
+
+  // Only upward deviations alert: a drop in traffic is not an incident here
+  return Math.round(
+    baseline.mean + sigma * Math.max(baseline.stddev, MIN_STDDEV)
+  );
+}
+
+// Rules for the video's alert mode, strongest level first
+export function getEffectiveRules(video) {
+  if (video.alert_mode === "rules") {
+    return video.alert_rules || [];
+  }
+
+  if (video.alert_mode === "anomaly") {
+    return [
+      {
+        level: "emergency",
+        match: "all",
+        conditions: [
+          { type: "anomaly", sigma: Number(video.anomaly_emergency_sigma) },
+        ],
+      },
+      {
+        level: "warning",
+        match: "all",
+        conditions: [
+          { type: "anomaly", sigma: Number(video.anomaly_warning_sigma) },
+        ],
+      },
+    ];
+  }
+
+  return [
+    {
+      level: "emergency",
+      match: "all",
+      conditions: [
+        { type: "rate", min: video.emergency_threshold, samples: 1 },
+      ],
+    },
+    {
+      level: "warning",
+      match: "all",
+      conditions: [{ type: "rate", min: video.warning_threshold, samples: 1 }],
+    },
+  ];
+}
+
+function walkConditions(conditions, visit) {
+  for (const condition of conditions) {
+    if (condition.conditions) {
+      walkConditions(condition.conditions, visit);
+    } else {
+      visit(condition);
+    }
+  }
+}
+
+export function rulesUseBaseline(rules) {
+  let usesBaseline = false;
+  walkConditions(rules, (condition) => {
+    if (condition.type === "anomaly") usesBaseline = true;
+  });
+  return usesBaseline;
+}
+
+// How far back samples must be loaded to evaluate the rules, allowing for
+// samples arriving up to two intervals apart
+export function getHistoryWindowMs(rules, intervalMs) {
+  let windowMs = 2 * intervalMs * 2;
+
+  walkConditions(rules, (condition) => {
+    if (condition.type === "rate") {
+      windowMs = Math.max(windowMs, (condition.samples + 1) * intervalMs * 2);
+    } else if (condition.type === "growth") {
+      windowMs = Math.max(
+        windowMs,
+        condition.minutes * 60 * 1000 + 2 * intervalMs * 2
+      );
+    }
+  });
+
+  return windowMs;
+}
+
+function isPositiveNumber(value) {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function validateCondition(condition, depth) {
+  if (!condition || typeof condition !== "object") {
+    return "Each condition must be an object";
+  }
+
+  if (condition.conditions) {
+    if (depth >= MAX_DEPTH) {
+      return `Conditions can be nested at most ${MAX_DEPTH} levels deep`;
+    }
+    return validateGroup(condition, depth + 1);
+  }
+
+  switch (condition.type) {
+    case "rate":
+      if (!isPositiveNumber(condition.min)) {
+        return "Rate conditions need a positive min rate";
+      }
+      if (
+        !Number.isInteger(condition.samples) ||
+        condition.samples < 1 ||
+        condition.samples > MAX_SAMPLES
+      ) {
+        return `Rate conditions need between 1 and ${MAX_SAMPLES} samples`;
+      }
+      return null;
+    case "growth":
+      if (!isPositiveNumber(condition.percent)) {
+        return "Growth conditions need a positive percent";
+      }
+      if (
+        !isPositiveNumber(condition.minutes) ||
+        condition.minutes > MAX_GROWTH_MINUTES
+      ) {
+        return `Growth conditions need between 1 and ${MAX_GROWTH_MINUTES} minutes`;
+      }
+      return null;
+    case "anomaly":
+      if (!isPositiveNumber(condition.sigma)) {
+        return "Anomaly conditions need a positive sigma";
+      }
+      return null;
+    default:
+      return `Invalid condition type: ${condition.type}`;
+  }
+}
+
+function validateGroup(group, depth) {
+  if (!["all", "any"].includes(group.match)) {
+    return 'Condition groups must match "all" or "any"';
+  }
+
+  if (!Array.isArray(group.conditions) || group.conditions.length === 0) {
+    return "Condition groups need at least one condition";
+  }
+
+  for (const condition of group.conditions) {
+    const error = validateCondition(condition, depth);
+    if (error) return error;
+  }
+
+  return null;
+}
+
+// Returns an error message, or null when the rules are valid
+export function validateRules(rules) {
+  if (!Array.isArray(rules) || rules.length === 0) {
+    return "At least one alert rule is required";
+  }
+
+  if (rules.length > MAX_RULES) {
+    return `At most ${MAX_RULES} alert rules are allowed`;
+  }
+
+  for (const rule of rules) {
+    if (!ALERT_LEVELS.includes(rule.level)) {
+      return `Invalid alert level: ${rule.level}`;
+    }
+
+    const error = validateGroup(rule, 1);
+    if (error) return error;
+  }
+
+  return null;
+}
+
+// Each condition evaluates to { matched, threshold }, where threshold is the
+// rate the current rate was compared against
+function evaluateCondition(condition, context) {
+  if (condition.conditions) {
+    return evaluateGroup(condition, context);
+  }
+
+  const { rates, baseline } = context;
+  const [latest] = rates;
+
+  if (!latest) return { matched: false, threshold: null };
+
+  switch (condition.type) {
+    case "rate": {
+      const recent = rates.slice(0, condition.samples);
+      const matched =
+        recent.length === condition.samples &&
+        recent.every(
+          (rate) => !rate.gap && rate.viewsPerMinute >= condition.min
+        );
+      return { matched, threshold: condition.min };
+    }
+    case "growth": {
+      const cutoff =
+        new Date(latest.timestamp).getTime() - condition.minutes * 60 * 1000;
+      const past = rates.find(
+        (rate) => new Date(rate.timestamp).getTime() <= cutoff
+      );
+
+      if (!past || past.viewsPerMinute <= 0) {
+        return { matched: false, threshold: null };
+      }
+
+      const threshold = Math.round(
+        past.viewsPerMinute * (1 + condition.percent / 100)
+      );
+      return { matched: latest.viewsPerMinute >= threshold, threshold };
+    }
+    case "anomaly": {
+      const threshold = getAnomalyThreshold(baseline, condition.sigma);
+      return {
+        matched: threshold !== null && latest.viewsPerMinute >= threshold,
+        threshold,
+      };
+    }
+    default:
+      return { matched: false, threshold: null };
+  }
+}
+
+function evaluateGroup(group, context) {
+  const results = group.conditions.map((condition) =>
+    evaluateCondition(condition, context)
+  );
+
+  if (group.match === "any") {
+    const hit = results.find((result) => result.matched);
+    return hit || { matched: false, threshold: null };
+  }
+
+  const matched = results.every((result) => result.matched);
+  const first = results.find((result) => result.threshold !== null);
+  return { matched, threshold: first ? first.threshold : null };
+}
+
+// Highest level whose rule matches, with the threshold that was crossed.
+// rates are the recent rate points, newest first.
+export function evaluateRules(rules, { rates, baseline }) {
+  let result = { level: "normal", threshold: null };
+
+  for (const rule of rules) {
+    const { matched, threshold } = evaluateGroup(rule, { rates, baseline });
+
+    if (!matched) continue;
+
+    if (rule.level === "emergency") {
+      return { level: "emergency", threshold };
+    }
+
+    if (result.level === "normal") {
+      result = { level: rule.level, threshold };
+    }
+  }
+
+  return result;
+}
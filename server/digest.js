@@ -0,0 +1,255 @@
+// Daily and weekly digest reports. Digests go out at a whole local hour in
+// the user's time zone, and cover the day or week before that time.
+
+export const DIGEST_FREQUENCIES = ["off", "daily", "weekly"];
+
+const PERIOD_DAYS = { daily: 1, weekly: 7 };
+// Sparkline bars: hourly for a day, six-hourly for a week
+export const DIGEST_BUCKETS = { daily: 24, weekly: 28 };
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const STEP_MS = 15 * 60 * 1000;
+const SPARK_CHARACTERS = "▁▂▃▄▅▆▇█";
+
+function getLocalParts(timeZone, time) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(time);
+
+  const value = (type) => parts.find((part) => part.type === type).value;
+
+  return {
+    weekday: WEEKDAYS.indexOf(value("weekday")),
+    hour: Number(value("hour")),
+    minute: Number(value("minute")),
+  };
+}
+
+// First time after `after` when a digest is due, or null when digests are
+// off. Steps in quarter hours so zones with half-hour offsets work; an hour
+// skipped by a DST change moves the digest to the next day.
+export function getNextDigestAt(settings, after = new Date()) {
+  if (settings.frequency === "off") return null;
+
+  let time = Math.floor(after.getTime() / STEP_MS) * STEP_MS + STEP_MS;
+  const end = time + 8 * 24 * 60 * 60 * 1000;
+
+  for (; time < end; time += STEP_MS) {
+    const local = getLocalParts(settings.time_zone, new Date(time));
+
+    if (
+      local.minute === 0 &&
+      local.hour === settings.send_hour &&
+      (settings.frequency === "daily" ||
+        local.weekday === settings.weekly_day)
+    ) {
+      return new Date(time);
+    }
+  }
+
+  return null;
+}
+
+export function getDigestPeriod(frequency, until) {
+  const days = PERIOD_DAYS[frequency] || PERIOD_DAYS.daily;
+
+  return {
+    since: new Date(until.getTime() - days * 24 * 60 * 60 * 1000),
+    until,
+  };
+}
+
+// Totals of one video from its buckets (video_digest_buckets rows)
+export function summarizeBuckets(buckets, bucketCount) {
+  const gained = new Array(bucketCount).fill(0);
+  let peak = null;
+
+  for (const bucket of buckets) {
+    gained[bucket.bucket] = Number(bucket.views_gained) || 0;
+
+    if (
+      bucket.peak_views_per_minute !== null &&
+      (!peak || bucket.peak_views_per_minute > peak.viewsPerMinute)
+    ) {
+      peak = {
+        viewsPerMinute: Math.round(bucket.peak_views_per_minute),
+        timestamp: bucket.peak_at,
+      };
+    }
+  }
+
+  return {
+    viewsGained: gained.reduce((total, views) => total + views, 0),
+    peak,
+    sparkline: gained,
+  };
+}
+
+// One alert goes out to every recipient, and is logged once per recipient.
+// Count each dispatch once.
+export function countAlerts(notifications) {
+  const counts = new Map();
+  const seen = new Set();
+
+  for (const row of notifications) {
+    const key = [
+      row.video_id,
+      row.alert_level,
+      row.incident_id,
+      row.escalation_step,
+      row.views_per_minute,
+      row.threshold,
+    ].join("|");
+
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const count = counts.get(row.video_id) || { warning: 0, emergency: 0 };
+    count[row.alert_level] += 1;
+    counts.set(row.video_id, count);
+  }
+
+  return counts;
+}
+
+function escapeHtml(text) {
+  return String(text)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function textSparkline(values) {
+  const max = Math.max(...values);
+  if (max <= 0) return SPARK_CHARACTERS[0].repeat(values.length);
+
+  return values
+    .map(
+      (value) =>
+        SPARK_CHARACTERS[
+          Math.round((Math.max(value, 0) / max) * (SPARK_CHARACTERS.length - 1))
+        ]
+    )
+    .join("");
+}
+
+// Bars as table cells rather than an image or SVG, which most mail clients
+// block or strip
+function htmlSparkline(values) {
+  const max = Math.max(...values);
+  const cells = values
+    .map((value) => {
+      const height = max > 0 ? Math.max(1, Math.round((value / max) * 24)) : 1;
+      return `<td style="vertical-align:bottom;padding:0 1px 0 0"><div style="width:4px;height:${height}px;background:#3b82f6;font-size:0;line-height:0">&nbsp;</div></td>`;
+    })
+    .join("");
+
+  return `<table cellpadding="0" cellspacing="0" style="height:24px;border-collapse:collapse"><tr>${cells}</tr></table>`;
+}
+
+function describeStatus(video) {
+  const status = video.status === "active" ? "Tracking" : "Paused";
+
+  return video.incident
+    ? `${status}, ${video.incident.level} incident ${video.incident.status}`
+    : status;
+}
+
+function formatTime(time, timeZone) {
+  return new Date(time).toLocaleString("en-US", {
+    timeZone,
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+// Subject, text and HTML of a digest. Each video has its summary, alert
+// counts and current status.
+export function renderDigest({
+  frequency,
+  period,
+  timeZone,
+  videos,
+  dashboardUrl,
+}) {
+  const label = frequency === "weekly" ? "Weekly" : "Daily";
+  const range = `${formatTime(period.since, timeZone)} - ${formatTime(
+    period.until,
+    timeZone
+  )}`;
+  const subject = `${label} view report: ${videos.length} videos`;
+
+  const text = [
+    `${label} view report, ${range} (${timeZone})`,
+    "",
+    ...videos.map((video) =>
+      [
+        video.title,
+        `  ${textSparkline(video.sparkline)}`,
+        `  Views gained: ${video.viewsGained.toLocaleString("en-US")}`,
+        `  Peak: ${
+          video.peak
+            ? `${video.peak.viewsPerMinute} views/minute at ${formatTime(
+                video.peak.timestamp,
+                timeZone
+              )}`
+            : "no data"
+        }`,
+        `  Alerts: ${video.alerts.warning} warning, ${video.alerts.emergency} emergency`,
+        `  Status: ${describeStatus(video)}`,
+        `  ${dashboardUrl}/video/${video.id}`,
+      ].join("\n")
+    ),
+  ].join("\n");
+
+  const rows = videos
+    .map(
+      (video) => `<tr>
+  <td style="padding:8px;border-top:1px solid #e5e7eb"><a href="${escapeHtml(
+    `${dashboardUrl}/video/${video.id}`
+  )}">${escapeHtml(video.title)}</a></td>
+  <td style="padding:8px;border-top:1px solid #e5e7eb">${htmlSparkline(
+    video.sparkline
+  )}</td>
+  <td style="padding:8px;border-top:1px solid #e5e7eb;text-align:right">${video.viewsGained.toLocaleString(
+    "en-US"
+  )}</td>
+  <td style="padding:8px;border-top:1px solid #e5e7eb">${
+    video.peak
+      ? `${video.peak.viewsPerMinute}/min<br><small>${escapeHtml(
+          formatTime(video.peak.timestamp, timeZone)
+        )}</small>`
+      : "-"
+  }</td>
+  <td style="padding:8px;border-top:1px solid #e5e7eb">${
+    video.alerts.warning
+  } warning<br>${video.alerts.emergency} emergency</td>
+  <td style="padding:8px;border-top:1px solid #e5e7eb">${escapeHtml(
+    describeStatus(video)
+  )}</td>
+</tr>`
+    )
+    .join("\n");
+
+  const html = `<h1>${label} view report</h1>
+<p>${escapeHtml(range)} (${escapeHtml(timeZone)})</p>
+<table cellpadding="0" cellspacing="0" style="border-collapse:collapse;font-family:sans-serif;font-size:14px">
+<tr>
+  <th style="padding:8px;text-align:left">Video</th>
+  <th style="padding:8px;text-align:left">Views</th>
+  <th style="padding:8px;text-align:right">Gained</th>
+  <th style="padding:8px;text-align:left">Peak</th>
+  <th style="padding:8px;text-align:left">Alerts</th>
+  <th style="padding:8px;text-align:left">Status</th>
+</tr>
+${rows}
+</table>
+<p>See the <a href="${escapeHtml(dashboardUrl)}">dashboard</a> for more details.</p>`;
+
+  return { subject, text, html };
+}
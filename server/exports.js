@@ -0,0 +1,72 @@
+// CSV and JSON exports, streamed page by page so large ranges are never held
+// in memory.
+
+import { once } from "node:events";
+
+export const EXPORT_FORMATS = ["csv", "json"];
+
+const CONTENT_TYPES = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+// Spreadsheets run cells starting with these as formulas, so such text
+// (e.g. a video title) is prefixed with a quote
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export function toCsvValue(value) {
+  if (value === null || value === undefined) return "";
+  if (typeof value !== "string") return String(value);
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function write(res, chunk) {
+  if (!res.write(chunk)) {
+    await Promise.race([once(res, "drain"), once(res, "close")]);
+  }
+}
+
+// Stream the rows of `pages`, an async iterable of arrays of rows, as CSV
+// with one column per entry of `columns` or as a JSON array of objects keyed
+// by the columns' keys. Stops early when the client goes away.
+export async function streamExport(res, { format, filename, columns, pages }) {
+  res.setHeader("Content-Type", CONTENT_TYPES[format]);
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${filename}.${format}"`
+  );
+
+  if (format === "csv") {
+    await write(res, `${columns.map((column) => column.key).join(",")}\r\n`);
+  } else {
+    await write(res, "[");
+  }
+
+  let first = true;
+  for await (const rows of pages) {
+    if (res.destroyed) return;
+
+    const chunk = rows
+      .map((row) => {
+        if (format === "csv") {
+          return `${columns
+            .map((column) => toCsvValue(column.value(row)))
+            .join(",")}\r\n`;
+        }
+
+        const object = Object.fromEntries(
+          columns.map((column) => [column.key, column.value(row) ?? null])
+        );
+        const json = `${first ? "" : ","}\n${JSON.stringify(object)}`;
+        first = false;
+        return json;
+      })
+      .join("");
+
+    if (chunk) await write(res, chunk);
+  }
+
+  res.end(format === "csv" ? "" : "\n]\n");
+}
@@ -2,9 +2,68 @@ import express from "express";
 import cors from "cors";
 import dotenv from "dotenv";
 import schedule from "node-schedule";
-import { google } from "googleapis";
-import nodemailer from "nodemailer";
+import os from "node:os";
+import crypto from "node:crypto";
 import { createClient } from "@supabase/supabase-js";
+import { createViewSource } from "./viewSources/index.js";
+import {
+  allowsLocalWebhooks,
+  createNotificationChannels,
+  isAllowedWebhookUrl,
+} from "./notificationChannels/index.js";
+import {
+  buildViewHistory,
+  getCurrentRate,
+  getMaxSampleGapMs,
+  getViewsPerMinute,
+  isGap,
+  isStaleSample,
+} from "./viewRates.js";
+import {
+  ALERT_MODES,
+  evaluateRules,
+  getAnomalyThreshold,
+  getEffectiveRules,
+  getHistoryWindowMs,
+  rulesUseBaseline,
+  validateRules,
+} from "./alertRules.js";
+import {
+  describeQuietHours,
+  isQuietTime,
+  isValidTime,
+  isValidTimeZone,
+} from "./quietHours.js";
+import {
+  DEFAULT_TEMPLATES,
+  TEMPLATE_CHANNELS,
+  TEMPLATE_LANGUAGES,
+  TEMPLATE_VARIABLES,
+  addUnsubscribeFooter,
+  checkSmsLength,
+  findUnknownVariables,
+  getTemplateVariables,
+  renderTemplate,
+  renderVerificationMessage,
+} from "./templates.js";
+import {
+  DIGEST_BUCKETS,
+  DIGEST_FREQUENCIES,
+  countAlerts,
+  getDigestPeriod,
+  getNextDigestAt,
+  renderDigest,
+  summarizeBuckets,
+} from "./digest.js";
+import {
+  DEFAULT_RETENTION_SETTINGS,
+  ROLLUP_CHUNK_MS,
+  getRetentionCutoffs,
+  startOfDay,
+  startOfHour,
+  validateRetentionSettings,
+} from "./retention.js";
+import { EXPORT_FORMATS, streamExport } from "./exports.js";
 
 // Load environment variables
 dotenv.config();
@@ -12,6 +71,11 @@ dotenv.config();
 // Initialize Express app
 const app = express();
 const PORT = process.env.PORT || 3000;
+// Public base URL of this API, used for links in alerts
+const PUBLIC_API_URL =
+  process.env.PUBLIC_API_URL || `http://localhost:${PORT}/api`;
+// Base URL of the dashboard, used for video links in alerts
+const DASHBOARD_URL = process.env.DASHBOARD_URL || "http://localhost:5173";
 
 // Middleware
 app.use(cors());
@@ -22,10 +86,257 @@ const supabaseUrl = process.env.SUPABASE_URL;
 const supabaseKey = process.env.SUPABASE_ANON_KEY;
 const supabase = createClient(supabaseUrl, supabaseKey);
 
-const youtube = google.youtube({
-  version: "v3",
-  auth: process.env.YOUTUBE_API_KEY,
-});
+// Identifies this server process when several instances share the database
+const INSTANCE_ID =
+  process.env.INSTANCE_ID ||
+  `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString("hex")}`;
+
+// Source of view counts and video metadata (YouTube, or a fake for local runs)
+const viewSource = await createViewSource();
+
+// Providers alerts are delivered through, per channel type
+const notificationChannels = createNotificationChannels();
+
+// Polling intervals a video can be tracked at. Thresholds stay per minute.
+const POLL_INTERVALS_SECONDS = [30, 60, 300, 900];
+const DEFAULT_POLL_INTERVAL_SECONDS = 60;
+
+// Alerts of the same level for a video are held back for the cooldown. While
+// an incident stays open, recipients are re-notified never, every N minutes,
+// or when the rate has risen by a set percentage since the last alert.
+const DEFAULT_ALERT_COOLDOWN_MINUTES = 5;
+const MAX_ALERT_COOLDOWN_MINUTES = 24 * 60;
+const RENOTIFY_MODES = ["none", "interval", "rate_increase"];
+
+function validateRenotifySettings({
+  alertCooldownMinutes,
+  renotifyMode,
+  renotifyIntervalMinutes,
+  renotifyRateIncreasePercent,
+}) {
+  if (
+    !Number.isInteger(alertCooldownMinutes) ||
+    alertCooldownMinutes < 0 ||
+    alertCooldownMinutes > MAX_ALERT_COOLDOWN_MINUTES
+  ) {
+    return `Alert cooldown must be 0-${MAX_ALERT_COOLDOWN_MINUTES} minutes`;
+  }
+
+  if (!RENOTIFY_MODES.includes(renotifyMode)) {
+    return `Invalid re-notify mode. Must be one of ${RENOTIFY_MODES.join(
+      ", "
+    )}`;
+  }
+
+  if (
+    !Number.isInteger(renotifyIntervalMinutes) ||
+    renotifyIntervalMinutes < 1 ||
+    renotifyIntervalMinutes > MAX_ALERT_COOLDOWN_MINUTES
+  ) {
+    return `Re-notify interval must be 1-${MAX_ALERT_COOLDOWN_MINUTES} minutes`;
+  }
+
+  if (!(renotifyRateIncreasePercent > 0)) {
+    return "Re-notify rate increase must be above 0%";
+  }
+
+  return null;
+}
+
+// Rolling baseline of a video's views-per-minute rate for anomaly rules,
+// from samples after the window start (or the last resume) and before until.
+// intervalMs is the polling interval, stretched by any quota slowdown.
+async function loadBaseline(video, until, intervalMs) {
+  const windowStart = new Date(
+    until.getTime() - video.anomaly_window_hours * 60 * 60 * 1000
+  );
+  const since =
+    video.resumed_at && new Date(video.resumed_at) > windowStart
+      ? new Date(video.resumed_at)
+      : windowStart;
+
+  const { data, error } = await supabase.rpc("video_rate_baseline", {
+    p_video_id: video.id,
+    p_since: since.toISOString(),
+    p_until: until.toISOString(),
+    p_max_gap_seconds: Math.round(getMaxSampleGapMs(intervalMs) / 1000),
+  });
+
+  if (error) throw error;
+
+  const [row] = data;
+  return row
+    ? { mean: row.mean, stddev: row.stddev, count: Number(row.count) }
+    : null;
+}
+
+// Samples since the last resume that fall in the window ending at until,
+// newest first
+async function loadRecentSamples(video, until, windowMs) {
+  const windowStart = new Date(until.getTime() - windowMs);
+  const since =
+    video.resumed_at && new Date(video.resumed_at) > windowStart
+      ? new Date(video.resumed_at)
+      : windowStart;
+
+  const { data, error } = await supabase
+    .from("video_views")
+    .select("views, timestamp, interval_seconds")
+    .eq("video_id", video.id)
+    .gte("timestamp", since.toISOString())
+    .lte("timestamp", until.toISOString())
+    .order("timestamp", { ascending: false });
+
+  if (error) throw error;
+
+  return data;
+}
+
+// Evaluate the video's alert rules against its samples up to until, the
+// timestamp of its latest sample. The baseline excludes that sample.
+// slowdown stretches the polling interval while quota is tight, so samples
+// taken further apart are not mistaken for gaps.
+async function evaluateAlert(video, until, slowdown = getCurrentSlowdown()) {
+  const rules = getEffectiveRules(video);
+  const intervalMs = getPollInterval(video) * 1000 * slowdown;
+
+  const samples = await loadRecentSamples(
+    video,
+    until,
+    getHistoryWindowMs(rules, intervalMs)
+  );
+
+  // Drop the oldest entry, which has no previous sample to give it a rate
+  const rates = buildViewHistory(samples, {
+    resumedAt: video.resumed_at,
+    intervalMs,
+  })
+    .slice(1)
+    .reverse();
+
+  const baseline = rulesUseBaseline(rules)
+    ? await loadBaseline(video, until, intervalMs)
+    : null;
+
+  return { ...evaluateRules(rules, { rates, baseline }), baseline };
+}
+
+// YouTube Data API quota accounting
+const YOUTUBE_DAILY_QUOTA = Number.parseInt(
+  process.env.YOUTUBE_DAILY_QUOTA || "10000",
+  10
+);
+const YOUTUBE_QUOTA_BUDGET = Number.parseInt(
+  process.env.YOUTUBE_QUOTA_BUDGET || String(YOUTUBE_DAILY_QUOTA),
+  10
+);
+// videos.list costs 1 unit per call regardless of the parts requested
+const VIDEOS_LIST_COST = 1;
+// YouTube resets the daily quota at midnight Pacific time
+const QUOTA_TIME_ZONE = "America/Los_Angeles";
+
+// Latest polling decision, reported by /api/quota
+const pollingState = {
+  slowdown: 1,
+  projected: 0,
+};
+
+// The slowdown polling runs at, or none while polling is paused
+function getCurrentSlowdown() {
+  return Number.isFinite(pollingState.slowdown) ? pollingState.slowdown : 1;
+}
+
+function getQuotaClock(date = new Date()) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone: QUOTA_TIME_ZONE,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value])
+  );
+
+  const minutesElapsed = Number(parts.hour) * 60 + Number(parts.minute);
+
+  return {
+    day: `${parts.year}-${parts.month}-${parts.day}`,
+    minutesRemaining: 24 * 60 - minutesElapsed,
+  };
+}
+
+// Quota is charged even when the request fails, so record before calling
+async function recordQuotaUsage(endpoint, entries) {
+  const { day } = getQuotaClock();
+  const timestamp = new Date().toISOString();
+
+  const { error } = await supabase.from("youtube_quota_usage").insert(
+    entries.map(({ userId, units }) => ({
+      day,
+      endpoint,
+      user_id: userId || null,
+      units,
+      timestamp,
+    }))
+  );
+
+  if (error) {
+    console.error("Error recording YouTube quota usage:", error);
+  }
+}
+
+// Units spent on a quota day, one row per endpoint and user
+async function getQuotaUsage(day) {
+  const { data, error } = await supabase.rpc("youtube_quota_usage_totals", {
+    p_day: day,
+  });
+
+  if (error) throw error;
+
+  return data.map((row) => ({ ...row, units: Number(row.units) }));
+}
+
+function sumUnits(rows) {
+  return rows.reduce((total, row) => total + row.units, 0);
+}
+
+async function isQuotaExhausted() {
+  const { day } = getQuotaClock();
+  const used = sumUnits(await getQuotaUsage(day));
+  return used >= YOUTUBE_DAILY_QUOTA;
+}
+
+// Work out how much the polling intervals must be stretched to stay within
+// the budget for the rest of the day. Returns slowdown = N to poll every
+// video N times less often, or Infinity to pause polling.
+async function getPollingBackoff(videos) {
+  const { day, minutesRemaining } = getQuotaClock();
+  const used = sumUnits(await getQuotaUsage(day));
+  const remainingBudget = YOUTUBE_QUOTA_BUDGET - used;
+
+  if (remainingBudget <= 0) {
+    return { slowdown: Infinity, projected: used };
+  }
+
+  // Polls are batched, but every tick with at least one due video still
+  // costs a call, so small sets are bounded by the tick rate instead
+  const pollsPerMinute = videos.reduce(
+    (total, video) => total + 60 / getPollInterval(video),
+    0
+  );
+  const callsPerMinute = Math.max(
+    Math.ceil(pollsPerMinute / YOUTUBE_BATCH_SIZE),
+    Math.min(SCHEDULER_TICKS_PER_MINUTE, pollsPerMinute)
+  );
+  const projectedSpend = callsPerMinute * VIDEOS_LIST_COST * minutesRemaining;
+  const slowdown = Math.max(1, Math.ceil(projectedSpend / remainingBudget));
+
+  return { slowdown, projected: used + projectedSpend / slowdown };
+}
 
 // Authentication middleware
 const authenticateToken = async (req, res, next) => {
@@ -51,6 +362,27 @@ const authenticateToken = async (req, res, next) => {
   }
 };
 
+// Users allowed to change settings that apply to every user, by email
+const ADMIN_EMAILS = (process.env.ADMIN_EMAILS || "")
+  .split(",")
+  .map((email) => email.trim().toLowerCase())
+  .filter(Boolean);
+
+function isAdmin(user) {
+  return (
+    Boolean(user.email) && ADMIN_EMAILS.includes(user.email.toLowerCase())
+  );
+}
+
+// Use after authenticateToken
+const requireAdmin = (req, res, next) => {
+  if (!isAdmin(req.user)) {
+    return res.status(403).json({ error: "Forbidden: Admins only" });
+  }
+
+  next();
+};
+
 // Auth endpoints
 app.post("/api/auth/login", async (req, res) => {
   try {
@@ -150,20 +482,12 @@ app.get("/api/videos", authenticateToken, async (req, res) => {
         if (viewsError) throw viewsError;
 
         const latestView = viewsData[0];
-        const previousView = viewsData[1];
-
-        let viewsPerMinute = 0;
-        if (latestView && previousView) {
-          viewsPerMinute = latestView.views - previousView.views;
-        }
+        const viewsPerMinute = getCurrentRate(viewsData, video.resumed_at);
 
         // Determine alert level
-        let alertLevel = "normal";
-        if (viewsPerMinute >= video.emergency_threshold) {
-          alertLevel = "emergency";
-        } else if (viewsPerMinute >= video.warning_threshold) {
-          alertLevel = "warning";
-        }
+        const { level: alertLevel } = latestView
+          ? await evaluateAlert(video, new Date(latestView.timestamp))
+          : { level: "normal" };
 
         return {
           id: video.id,
@@ -175,6 +499,8 @@ app.get("/api/videos", authenticateToken, async (req, res) => {
           viewsPerMinute,
           warningThreshold: video.warning_threshold,
           emergencyThreshold: video.emergency_threshold,
+          pollIntervalSeconds: video.poll_interval_seconds,
+          alertMode: video.alert_mode,
         };
       })
     );
@@ -194,28 +520,136 @@ app.get("/api/videos/preview", authenticateToken, async (req, res) => {
       return res.status(400).json({ error: "Video ID is required" });
     }
 
-    const response = await youtube.videos.list({
-      part: "snippet",
-      id,
-    });
+    if (await isQuotaExhausted()) {
+      return res
+        .status(429)
+        .json({ error: "YouTube API quota exhausted for today" });
+    }
 
-    const video = response.data.items[0];
+    await recordQuotaUsage("videos.preview", [
+      { userId: req.user.id, units: VIDEOS_LIST_COST },
+    ]);
+
+    const video = await viewSource.getSnippet(id);
 
     if (!video) {
       return res.status(404).json({ error: "Video not found" });
     }
 
-    res.json({
-      id: video.id,
-      title: video.snippet.title,
-      thumbnail: video.snippet.thumbnails.high.url,
-    });
+    res.json(video);
   } catch (error) {
     console.error("Error fetching video preview:", error);
     res.status(500).json({ error: "Failed to fetch video preview" });
   }
 });
 
+// Tracking settings of a video as the API names them, with their columns
+const VIDEO_SETTINGS = {
+  warningThreshold: "warning_threshold",
+  emergencyThreshold: "emergency_threshold",
+  pollIntervalSeconds: "poll_interval_seconds",
+  alertMode: "alert_mode",
+  anomalyWindowHours: "anomaly_window_hours",
+  anomalyWarningSigma: "anomaly_warning_sigma",
+  anomalyEmergencySigma: "anomaly_emergency_sigma",
+  alertRules: "alert_rules",
+  escalationPolicyId: "escalation_policy_id",
+  alertCooldownMinutes: "alert_cooldown_minutes",
+  renotifyMode: "renotify_mode",
+  renotifyIntervalMinutes: "renotify_interval_minutes",
+  renotifyRateIncreasePercent: "renotify_rate_increase_percent",
+  notifications: "notifications",
+};
+
+function getVideoSettings(video) {
+  const settings = Object.fromEntries(
+    Object.entries(VIDEO_SETTINGS).map(([key, column]) => [key, video[column]])
+  );
+
+  return {
+    ...settings,
+    anomalyWarningSigma: Number(settings.anomalyWarningSigma),
+    anomalyEmergencySigma: Number(settings.anomalyEmergencySigma),
+    renotifyRateIncreasePercent: Number(settings.renotifyRateIncreasePercent),
+    alertRules: settings.alertRules || [],
+    notifications: settings.notifications || {},
+  };
+}
+
+// Checks all the settings of a video together, as added or as they would be
+// after an update
+async function validateVideoSettings(settings, userId) {
+  const {
+    warningThreshold,
+    emergencyThreshold,
+    pollIntervalSeconds,
+    alertMode,
+    anomalyWindowHours,
+    anomalyWarningSigma,
+    anomalyEmergencySigma,
+    alertRules,
+    escalationPolicyId,
+    notifications,
+  } = settings;
+
+  if (!ALERT_MODES.includes(alertMode)) {
+    return `Invalid alert mode. Must be one of ${ALERT_MODES.join(", ")}`;
+  }
+
+  if (
+    !(Number.isInteger(warningThreshold) && warningThreshold >= 1) ||
+    !(Number.isInteger(emergencyThreshold) && emergencyThreshold >= 1)
+  ) {
+    return "Thresholds must be whole numbers of at least 1 view per minute";
+  }
+
+  if (emergencyThreshold < warningThreshold) {
+    return "Emergency threshold must be at least the warning threshold";
+  }
+
+  if (alertMode === "rules") {
+    const rulesError = validateRules(alertRules);
+    if (rulesError) return rulesError;
+  }
+
+  if (
+    alertMode === "anomaly" &&
+    !(
+      anomalyWindowHours >= 1 &&
+      anomalyWindowHours <= 168 &&
+      anomalyWarningSigma > 0 &&
+      anomalyEmergencySigma > anomalyWarningSigma
+    )
+  ) {
+    return "Invalid anomaly settings. Window must be 1-168 hours and emergency sensitivity above warning";
+  }
+
+  if (!POLL_INTERVALS_SECONDS.includes(pollIntervalSeconds)) {
+    return `Invalid polling interval. Must be one of ${POLL_INTERVALS_SECONDS.join(
+      ", "
+    )} seconds`;
+  }
+
+  const notificationsError = validateNotifications(notifications);
+  if (notificationsError) return notificationsError;
+
+  const renotifyError = validateRenotifySettings(settings);
+  if (renotifyError) return renotifyError;
+
+  if (
+    escalationPolicyId &&
+    !(await findEscalationPolicy(escalationPolicyId, userId))
+  ) {
+    return "Escalation policy not found";
+  }
+
+  if (!(await ownsContacts(notifications, userId))) {
+    return "Contact or group not found";
+  }
+
+  return null;
+}
+
 app.post("/api/videos", authenticateToken, async (req, res) => {
   try {
     const {
@@ -225,8 +659,42 @@ app.post("/api/videos", authenticateToken, async (req, res) => {
       warningThreshold,
       emergencyThreshold,
       notifications,
+      pollIntervalSeconds = DEFAULT_POLL_INTERVAL_SECONDS,
+      alertMode = "threshold",
+      anomalyWindowHours = 6,
+      anomalyWarningSigma = 3,
+      anomalyEmergencySigma = 5,
+      alertRules = [],
+      escalationPolicyId = null,
+      alertCooldownMinutes = DEFAULT_ALERT_COOLDOWN_MINUTES,
+      renotifyMode = "interval",
+      renotifyIntervalMinutes = 5,
+      renotifyRateIncreasePercent = 50,
     } = req.body;
 
+    const settingsError = await validateVideoSettings(
+      {
+        warningThreshold,
+        emergencyThreshold,
+        pollIntervalSeconds,
+        alertMode,
+        anomalyWindowHours,
+        anomalyWarningSigma,
+        anomalyEmergencySigma,
+        alertRules,
+        escalationPolicyId,
+        alertCooldownMinutes,
+        renotifyMode,
+        renotifyIntervalMinutes,
+        renotifyRateIncreasePercent,
+        notifications,
+      },
+      req.user.id
+    );
+    if (settingsError) {
+      return res.status(400).json({ error: settingsError });
+    }
+
     const { data, error } = await supabase
       .from("videos")
       .insert({
@@ -235,6 +703,17 @@ app.post("/api/videos", authenticateToken, async (req, res) => {
         thumbnail,
         warning_threshold: warningThreshold,
         emergency_threshold: emergencyThreshold,
+        poll_interval_seconds: pollIntervalSeconds,
+        alert_mode: alertMode,
+        anomaly_window_hours: anomalyWindowHours,
+        anomaly_warning_sigma: anomalyWarningSigma,
+        anomaly_emergency_sigma: anomalyEmergencySigma,
+        alert_rules: alertMode === "rules" ? alertRules : null,
+        escalation_policy_id: escalationPolicyId,
+        alert_cooldown_minutes: alertCooldownMinutes,
+        renotify_mode: renotifyMode,
+        renotify_interval_minutes: renotifyIntervalMinutes,
+        renotify_rate_increase_percent: renotifyRateIncreasePercent,
         status: "active",
         notifications,
         user_id: req.user.id, // Add user_id to associate video with user
@@ -243,21 +722,22 @@ app.post("/api/videos", authenticateToken, async (req, res) => {
 
     if (error) throw error;
 
-    const response = await youtube.videos.list({
-      part: "statistics",
-      id: videoId,
-    });
+    await requestVerifications(req.user.id, await getVideoRecipients(data[0]));
 
-    const viewCount = Number.parseInt(
-      response.data.items[0].statistics.viewCount,
-      10
-    );
+    await recordQuotaUsage("videos.create", [
+      { userId: req.user.id, units: VIDEOS_LIST_COST },
+    ]);
 
-    await supabase.from("video_views").insert({
-      video_id: videoId,
-      views: viewCount,
-      timestamp: new Date().toISOString(),
-    });
+    const statistics = await viewSource.getStatistics([videoId]);
+    const videoStats = statistics.get(videoId);
+
+    if (videoStats) {
+      await supabase.from("video_views").insert({
+        video_id: videoId,
+        views: videoStats.viewCount,
+        timestamp: new Date().toISOString(),
+      });
+    }
 
     res.status(201).json(data[0]);
   } catch (error) {
@@ -292,40 +772,24 @@ app.get("/api/videos/:id", authenticateToken, async (req, res) => {
 
     if (viewsError) throw viewsError;
 
-    const viewHistory = [];
-    for (let i = 0; i < viewsData.length - 1; i++) {
-      const current = viewsData[i];
-      const previous = viewsData[i + 1];
-
-      viewHistory.push({
-        timestamp: current.timestamp,
-        views: current.views,
-        viewsPerMinute: current.views - previous.views,
-      });
-    }
-
-    if (viewsData.length > 0) {
-      const oldest = viewsData[viewsData.length - 1];
-      viewHistory.push({
-        timestamp: oldest.timestamp,
-        views: oldest.views,
-        viewsPerMinute: 0,
-      });
-    }
+    const viewHistory = buildViewHistory(viewsData, {
+      resumedAt: videoData.resumed_at,
+      intervalMs: videoData.poll_interval_seconds * 1000,
+    });
 
     let currentViews = 0;
     let viewsPerMinute = 0;
     let alertLevel = "normal";
 
+    const { level, baseline } =
+      viewsData.length > 0
+        ? await evaluateAlert(videoData, new Date(viewsData[0].timestamp))
+        : { level: "normal", baseline: null };
+
     if (viewsData.length >= 2) {
       currentViews = viewsData[0].views;
-      viewsPerMinute = viewsData[0].views - viewsData[1].views;
-
-      if (viewsPerMinute >= videoData.emergency_threshold) {
-        alertLevel = "emergency";
-      } else if (viewsPerMinute >= videoData.warning_threshold) {
-        alertLevel = "warning";
-      }
+      viewsPerMinute = getCurrentRate(viewsData, videoData.resumed_at);
+      alertLevel = level;
     }
 
     res.json({
@@ -338,7 +802,33 @@ app.get("/api/videos/:id", authenticateToken, async (req, res) => {
       viewsPerMinute,
       warningThreshold: videoData.warning_threshold,
       emergencyThreshold: videoData.emergency_threshold,
-      viewHistory: viewHistory.reverse(),
+      pollIntervalSeconds: videoData.poll_interval_seconds,
+      alertMode: videoData.alert_mode,
+      anomalyWindowHours: videoData.anomaly_window_hours,
+      anomalyWarningSigma: Number(videoData.anomaly_warning_sigma),
+      anomalyEmergencySigma: Number(videoData.anomaly_emergency_sigma),
+      alertRules: getEffectiveRules(videoData),
+      escalationPolicyId: videoData.escalation_policy_id,
+      alertCooldownMinutes: videoData.alert_cooldown_minutes,
+      renotifyMode: videoData.renotify_mode,
+      renotifyIntervalMinutes: videoData.renotify_interval_minutes,
+      renotifyRateIncreasePercent: Number(
+        videoData.renotify_rate_increase_percent
+      ),
+      baseline: baseline && {
+        mean: Math.round(baseline.mean),
+        stddev: Math.round(baseline.stddev),
+        samples: baseline.count,
+        warning: getAnomalyThreshold(
+          baseline,
+          Number(videoData.anomaly_warning_sigma)
+        ),
+        emergency: getAnomalyThreshold(
+          baseline,
+          Number(videoData.anomaly_emergency_sigma)
+        ),
+      },
+      viewHistory,
       notifications: videoData.notifications,
     });
   } catch (error) {
@@ -347,52 +837,76 @@ app.get("/api/videos/:id", authenticateToken, async (req, res) => {
   }
 });
 
-app.patch("/api/videos/:id/status", authenticateToken, async (req, res) => {
-  try {
-    const { id } = req.params;
-    const { status } = req.body;
+// Bucket sizes the view history can be aggregated by, in seconds
+const HISTORY_BUCKETS = { "1m": 60, "5m": 300, "1h": 3600, "1d": 86400 };
+// Supabase returns at most 1000 rows from a function call
+const MAX_HISTORY_BUCKETS = 1000;
+const DEFAULT_HISTORY_RANGE_MS = 60 * 60 * 1000;
 
-    if (!["active", "paused"].includes(status)) {
-      return res
-        .status(400)
-        .json({ error: 'Invalid status. Must be "active" or "paused"' });
-    }
+// The smallest bucket that keeps the range within MAX_HISTORY_BUCKETS
+function getDefaultHistoryBucket(rangeMs) {
+  return (
+    Object.keys(HISTORY_BUCKETS).find(
+      (bucket) =>
+        rangeMs / (HISTORY_BUCKETS[bucket] * 1000) <= MAX_HISTORY_BUCKETS
+    ) || "1d"
+  );
+}
 
-    // Check if the video belongs to the user
-    const { data: videoData, error: videoError } = await supabase
-      .from("videos")
-      .select("id")
-      .eq("id", id)
-      .eq("user_id", req.user.id)
-      .single();
+// Parse and check the from and to query parameters, by default the last
+// hour. Returns the range, or an error message.
+function parseTimeRange(query) {
+  const to = query.to ? new Date(query.to) : new Date();
+  const from = query.from
+    ? new Date(query.from)
+    : new Date(to.getTime() - DEFAULT_HISTORY_RANGE_MS);
 
-    if (videoError || !videoData) {
-      return res
-        .status(404)
-        .json({ error: "Video not found or you do not have permission" });
-    }
+  if (isNaN(from) || isNaN(to)) {
+    return { error: "from and to must be ISO 8601 dates" };
+  }
 
-    const { data, error } = await supabase
-      .from("videos")
-      .update({ status })
-      .eq("id", id)
-      .eq("user_id", req.user.id) // Only update videos owned by the user
-      .select();
+  if (from >= to) {
+    return { error: "from must be before to" };
+  }
 
-    if (error) throw error;
+  return { from, to };
+}
 
-    res.json(data[0]);
-  } catch (error) {
-    console.error("Error updating video status:", error);
-    res.status(500).json({ error: "Failed to update video status" });
+// Parse and check the from, to and bucket query parameters. Returns the
+// range, or an error message.
+function parseHistoryRange(query) {
+  const timeRange = parseTimeRange(query);
+  if (timeRange.error) return timeRange;
+
+  const { from, to } = timeRange;
+  const bucket = query.bucket || getDefaultHistoryBucket(to - from);
+
+  if (!HISTORY_BUCKETS[bucket]) {
+    return {
+      error: `Invalid bucket. Must be one of ${Object.keys(
+        HISTORY_BUCKETS
+      ).join(", ")}`,
+    };
   }
-});
 
-app.delete("/api/videos/:id", authenticateToken, async (req, res) => {
+  if ((to - from) / (HISTORY_BUCKETS[bucket] * 1000) > MAX_HISTORY_BUCKETS) {
+    return {
+      error: `Range too long for ${bucket} buckets. At most ${MAX_HISTORY_BUCKETS} buckets can be returned`,
+    };
+  }
+
+  return { from, to, bucket };
+}
+
+app.get("/api/videos/:id/history", authenticateToken, async (req, res) => {
   try {
     const { id } = req.params;
 
-    // Check if the video belongs to the user
+    const range = parseHistoryRange(req.query);
+    if (range.error) {
+      return res.status(400).json({ error: range.error });
+    }
+
     const { data: videoData, error: videoError } = await supabase
       .from("videos")
       .select("id")
@@ -406,471 +920,5278 @@ app.delete("/api/videos/:id", authenticateToken, async (req, res) => {
         .json({ error: "Video not found or you do not have permission" });
     }
 
-    await supabase.from("video_views").delete().eq("video_id", id);
+    // Older samples only survive as hourly or daily rollups, so ranges
+    // reaching back to them are bucketed at least that coarsely, and start at
+    // the beginning of the rollup's hour or day (UTC) so its rows fall into
+    // the buckets they cover and the one containing `from` is included
+    const { rawSince, hourlySince } = getRetentionCutoffs(
+      await getRetentionSettings()
+    );
+    if (range.from < hourlySince) {
+      range.bucket = "1d";
+      range.from = startOfDay(range.from);
+    } else if (range.from < rawSince) {
+      if (HISTORY_BUCKETS[range.bucket] < 3600) range.bucket = "1h";
+      range.from = startOfHour(range.from);
+    }
 
-    const { error } = await supabase
-      .from("videos")
-      .delete()
-      .eq("id", id)
-      .eq("user_id", req.user.id); // Only delete videos owned by the user
+    const bucketMs = HISTORY_BUCKETS[range.bucket] * 1000;
+    const bucketCount = Math.ceil((range.to - range.from) / bucketMs);
+
+    const { data: rows, error } = await supabase.rpc("video_view_history", {
+      p_video_id: id,
+      p_from: range.from.toISOString(),
+      p_to: range.to.toISOString(),
+      p_bucket_seconds: HISTORY_BUCKETS[range.bucket],
+      p_raw_since: rawSince.toISOString(),
+      p_hourly_since: hourlySince.toISOString(),
+    });
 
     if (error) throw error;
 
-    res.status(204).end();
-  } catch (error) {
-    console.error("Error deleting video:", error);
-    res.status(500).json({ error: "Failed to delete video" });
-  }
-});
+    // Changes made after the range still tell which thresholds applied in it
+    const { data: thresholdChanges, error: thresholdChangesError } =
+      await supabase
+        .from("threshold_changes")
+        .select("*")
+        .eq("video_id", id)
+        .gt("changed_at", range.from.toISOString())
+        .order("changed_at", { ascending: true });
 
-app.get("/api/notifications/history", authenticateToken, async (req, res) => {
-  try {
-    // Join with videos table to get only notifications for videos owned by the user
-    const { data, error } = await supabase
-      .from("notifications_log")
-      .select(
-        `
-        *,
-        videos!inner(user_id)
-      `
-      )
-      .eq("videos.user_id", req.user.id)
-      .order("timestamp", { ascending: false });
+    if (thresholdChangesError) throw thresholdChangesError;
 
-    if (error) throw error;
+    const rowsByStart = new Map(
+      rows.map((row) => [new Date(row.bucket_start).getTime(), row])
+    );
 
-    // Remove the videos object from the response
-    const cleanedData = data.map((item) => {
-      const { videos, ...rest } = item;
-      return rest;
-    });
+    // Every bucket in the range is returned, with nulls where nothing was
+    // sampled, so charts show the gap instead of joining across it
+    const buckets = [];
+    for (let i = 0; i < bucketCount; i++) {
+      const start = range.from.getTime() + i * bucketMs;
+      const row = rowsByStart.get(start);
+
+      buckets.push({
+        start: new Date(start).toISOString(),
+        views: row ? Number(row.views) : null,
+        viewsGained: row ? Number(row.views_gained) : null,
+        avgViewsPerMinute:
+          row && row.avg_views_per_minute !== null
+            ? Math.round(row.avg_views_per_minute)
+            : null,
+        peakViewsPerMinute:
+          row && row.peak_views_per_minute !== null
+            ? Math.round(row.peak_views_per_minute)
+            : null,
+        samples: row ? Number(row.samples) : 0,
+      });
+    }
 
-    res.json(cleanedData);
+    res.json({
+      from: range.from.toISOString(),
+      to: range.to.toISOString(),
+      bucket: range.bucket,
+      buckets,
+      thresholdChanges: thresholdChanges.map((change) => ({
+        changedAt: change.changed_at,
+        previousWarningThreshold: change.previous_warning_threshold,
+        previousEmergencyThreshold: change.previous_emergency_threshold,
+        warningThreshold: change.warning_threshold,
+        emergencyThreshold: change.emergency_threshold,
+      })),
+    });
   } catch (error) {
-    console.error("Error fetching notification history:", error);
-    res.status(500).json({ error: "Failed to fetch notification history" });
+    console.error("Error fetching view history:", error);
+    res.status(500).json({ error: "Failed to fetch view history" });
   }
 });
 
-app.post("/api/notifications/test", authenticateToken, async (req, res) => {
+// Rows of a query a page at a time, for exports. `buildQuery` is called per
+// page, as Supabase queries can only be run once.
+const EXPORT_PAGE_SIZE = 1000;
+
+async function* pageQuery(buildQuery) {
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    const { data, error } = await buildQuery().range(
+      from,
+      from + EXPORT_PAGE_SIZE - 1
+    );
+
+    if (error) throw error;
+    if (data.length > 0) yield data;
+    if (data.length < EXPORT_PAGE_SIZE) return;
+  }
+}
+
+// Send an export, or an error response if it fails before anything was sent.
+// A failure part way through can only cut the download short.
+async function sendExport(res, options, description) {
   try {
-    const { type, recipients, videoInfo } = req.body;
+    await streamExport(res, options);
+  } catch (error) {
+    console.error(`Error exporting ${description}:`, error);
 
-    if (!type || !recipients || recipients.length === 0 || !videoInfo) {
-      return res.status(400).json({ error: "Missing required parameters" });
+    if (res.headersSent) {
+      res.destroy(error);
+    } else {
+      res.status(500).json({ error: `Failed to export ${description}` });
     }
+  }
+}
 
-    // Check if the video belongs to the user
-    const { data: videoData, error: videoError } = await supabase
-      .from("videos")
-      .select("id")
-      .eq("id", videoInfo.id)
-      .eq("user_id", req.user.id)
-      .single();
+function parseExportFormat(format = "csv") {
+  return EXPORT_FORMATS.includes(format) ? format : null;
+}
 
-    // if (videoError || !videoData) {
-    //   return res
-    //     .status(404)
-    //     .json({ error: "Video not found or you do not have permission" });
-    // }
+const VIEW_EXPORT_COLUMNS = [
+  { key: "timestamp", value: (row) => row.timestamp },
+  { key: "bucket", value: (row) => row.bucket },
+  { key: "views", value: (row) => row.views },
+  { key: "viewsPerMinute", value: (row) => row.viewsPerMinute },
+  { key: "gap", value: (row) => row.gap },
+];
 
-    for (const recipient of recipients) {
-      switch (type) {
-        case "email":
-          await sendEmailNotification({
-            to: recipient,
-            videoInfo,
-            alertLevel: "warning",
-            isTest: true,
-            userId: req.user.id,
-          });
-          break;
-        case "zalo":
-          await sendZaloNotification({
-            to: recipient,
-            videoInfo,
-            alertLevel: "warning",
-            isTest: true,
-            userId: req.user.id,
-          });
-          break;
-        case "sms":
-          await sendSmsNotification({
-            to: recipient,
-            videoInfo,
-            alertLevel: "warning",
-            isTest: true,
-            userId: req.user.id,
-          });
-          break;
-        default:
-          throw new Error(`Invalid notification type: ${type}`);
-      }
+// Export rows of an hourly or daily rollup table, one per bucket starting
+// in [since, until), with the bucket's average rate. A bucket is a gap when
+// none of its samples gave a rate.
+async function* getRollupExportRows(videoId, table, bucket, since, until) {
+  if (since >= until) return;
 
-      await supabase.from("notifications_log").insert({
-        video_id: videoInfo.id,
-        video_title: videoInfo.title,
-        type,
-        recipient,
-        alert_level: "warning",
-        message: `Test ${type} notification for ${videoInfo.title}`,
-        status: "delivered",
-        timestamp: new Date().toISOString(),
-        views_per_minute: videoInfo.viewsPerMinute || 0,
-        threshold: 100,
-        user_id: req.user.id, // Add user_id to associate notification with user
-      });
-    }
+  const rollups = pageQuery(() =>
+    supabase
+      .from(table)
+      .select("bucket_start, views, rate_views, rate_seconds")
+      .eq("video_id", videoId)
+      .gte("bucket_start", since.toISOString())
+      .lt("bucket_start", until.toISOString())
+      .order("bucket_start", { ascending: true })
+  );
 
-    res.status(200).json({ message: "Test notification sent successfully" });
-  } catch (error) {
-    console.error("Error sending test notification:", error);
-    res.status(500).json({ error: "Failed to send test notification" });
+  for await (const rows of rollups) {
+    yield rows.map((row) => ({
+      timestamp: row.bucket_start,
+      bucket,
+      views: row.views,
+      viewsPerMinute:
+        row.rate_seconds > 0
+          ? Math.round(row.rate_views / (row.rate_seconds / 60))
+          : null,
+      gap: !(row.rate_seconds > 0),
+    }));
   }
-});
+}
 
-async function sendEmailNotification({
-  to,
-  videoInfo,
-  alertLevel,
+app.get(
+  "/api/videos/:id/views/export",
+  authenticateToken,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const format = parseExportFormat(req.query.format);
+      if (!format) {
+        return res.status(400).json({
+          error: `Invalid format. Must be one of ${EXPORT_FORMATS.join(", ")}`,
+        });
+      }
+
+      const range = parseTimeRange(req.query);
+      if (range.error) {
+        return res.status(400).json({ error: range.error });
+      }
+
+      const { data: videoData, error: videoError } = await supabase
+        .from("videos")
+        .select("id, poll_interval_seconds, resumed_at")
+        .eq("id", id)
+        .eq("user_id", req.user.id)
+        .single();
+
+      if (videoError || !videoData) {
+        return res
+          .status(404)
+          .json({ error: "Video not found or you do not have permission" });
+      }
+
+      // Older samples only survive as rollups, so the part of the range
+      // before the raw samples is exported per hour or per day, from the
+      // start of the hour or day containing `from`, like the history chart
+      const { rawSince, hourlySince } = getRetentionCutoffs(
+        await getRetentionSettings()
+      );
+      const rawFrom = new Date(Math.max(range.from, rawSince));
+
+      const samples = pageQuery(() =>
+        supabase
+          .from("video_views")
+          .select("timestamp, views, interval_seconds")
+          .eq("video_id", id)
+          .gte("timestamp", rawFrom.toISOString())
+          .lt("timestamp", range.to.toISOString())
+          .order("timestamp", { ascending: true })
+      );
+
+      // Rates and gaps as buildViewHistory gives them, with no rate for the
+      // first sample or across a resume of tracking
+      const intervalMs = videoData.poll_interval_seconds * 1000;
+
+      async function* withRates() {
+        let previous = null;
+
+        for await (const rows of samples) {
+          yield rows.map((sample) => {
+            const stale =
+              previous &&
+              isStaleSample(previous, videoData.resumed_at) &&
+              !isStaleSample(sample, videoData.resumed_at);
+            const row = {
+              ...sample,
+              bucket: null,
+              viewsPerMinute:
+                previous && !stale ? getViewsPerMinute(sample, previous) : null,
+              gap: Boolean(
+                previous && (stale || isGap(sample, previous, intervalMs))
+              ),
+            };
+
+            previous = sample;
+            return row;
+          });
+        }
+      }
+
+      async function* allRows() {
+        yield* getRollupExportRows(
+          id,
+          "video_views_daily",
+          "1d",
+          startOfDay(range.from),
+          new Date(Math.min(range.to, hourlySince))
+        );
+        yield* getRollupExportRows(
+          id,
+          "video_views_hourly",
+          "1h",
+          new Date(Math.max(startOfHour(range.from), hourlySince)),
+          new Date(Math.min(range.to, rawSince))
+        );
+        yield* withRates();
+      }
+
+      await sendExport(
+        res,
+        {
+          format,
+          filename: `${id}-views-${range.from
+            .toISOString()
+            .slice(0, 10)}-${range.to.toISOString().slice(0, 10)}`,
+          columns: VIEW_EXPORT_COLUMNS,
+          pages: allRows(),
+        },
+        "view history"
+      );
+    } catch (error) {
+      console.error("Error exporting view history:", error);
+      res.status(500).json({ error: "Failed to export view history" });
+    }
+  }
+);
+
+app.patch("/api/videos/:id", authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const { data: videoData, error: videoError } = await supabase
+      .from("videos")
+      .select("*")
+      .eq("id", id)
+      .eq("user_id", req.user.id)
+      .single();
+
+    if (videoError || !videoData) {
+      return res
+        .status(404)
+        .json({ error: "Video not found or you do not have permission" });
+    }
+
+    // Settings left out of the body keep their current values, and the
+    // result is validated as a whole so e.g. a lower emergency threshold is
+    // checked against the warning threshold already saved
+    const changes = Object.fromEntries(
+      Object.keys(VIDEO_SETTINGS)
+        .filter((key) => req.body[key] !== undefined)
+        .map((key) => [key, req.body[key]])
+    );
+    const settings = { ...getVideoSettings(videoData), ...changes };
+
+    const settingsError = await validateVideoSettings(settings, req.user.id);
+    if (settingsError) {
+      return res.status(400).json({ error: settingsError });
+    }
+
+    const update = Object.fromEntries(
+      Object.keys(changes).map((key) => [VIDEO_SETTINGS[key], settings[key]])
+    );
+    update.alert_rules =
+      settings.alertMode === "rules" ? settings.alertRules : null;
+
+    const { data, error } = await supabase
+      .from("videos")
+      .update(update)
+      .eq("id", id)
+      .eq("user_id", req.user.id) // Only update videos owned by the user
+      .select();
+
+    if (error) throw error;
+
+    // Kept so the chart can show which thresholds applied to older samples
+    if (
+      settings.warningThreshold !== videoData.warning_threshold ||
+      settings.emergencyThreshold !== videoData.emergency_threshold
+    ) {
+      const { error: historyError } = await supabase
+        .from("threshold_changes")
+        .insert({
+          video_id: id,
+          user_id: req.user.id,
+          previous_warning_threshold: videoData.warning_threshold,
+          previous_emergency_threshold: videoData.emergency_threshold,
+          warning_threshold: settings.warningThreshold,
+          emergency_threshold: settings.emergencyThreshold,
+        });
+
+      if (historyError) {
+        console.error("Error recording threshold change:", historyError);
+      }
+    }
+
+    if (changes.notifications) {
+      await requestVerifications(
+        req.user.id,
+        await getVideoRecipients(data[0])
+      );
+    }
+
+    res.json(data[0]);
+  } catch (error) {
+    console.error("Error updating video settings:", error);
+    res.status(500).json({ error: "Failed to update video settings" });
+  }
+});
+
+app.patch("/api/videos/:id/status", authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { status } = req.body;
+
+    if (!["active", "paused"].includes(status)) {
+      return res
+        .status(400)
+        .json({ error: 'Invalid status. Must be "active" or "paused"' });
+    }
+
+    // Check if the video belongs to the user
+    const { data: videoData, error: videoError } = await supabase
+      .from("videos")
+      .select("id")
+      .eq("id", id)
+      .eq("user_id", req.user.id)
+      .single();
+
+    if (videoError || !videoData) {
+      return res
+        .status(404)
+        .json({ error: "Video not found or you do not have permission" });
+    }
+
+    // Samples from before a pause must not be compared with new ones
+    const update =
+      status === "active"
+        ? { status, resumed_at: new Date().toISOString() }
+        : { status };
+
+    const { data, error } = await supabase
+      .from("videos")
+      .update(update)
+      .eq("id", id)
+      .eq("user_id", req.user.id) // Only update videos owned by the user
+      .select();
+
+    if (error) throw error;
+
+    res.json(data[0]);
+  } catch (error) {
+    console.error("Error updating video status:", error);
+    res.status(500).json({ error: "Failed to update video status" });
+  }
+});
+
+app.patch("/api/videos/:id/interval", authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { pollIntervalSeconds } = req.body;
+
+    if (!POLL_INTERVALS_SECONDS.includes(pollIntervalSeconds)) {
+      return res.status(400).json({
+        error: `Invalid polling interval. Must be one of ${POLL_INTERVALS_SECONDS.join(
+          ", "
+        )} seconds`,
+      });
+    }
+
+    // Check if the video belongs to the user
+    const { data: videoData, error: videoError } = await supabase
+      .from("videos")
+      .select("id")
+      .eq("id", id)
+      .eq("user_id", req.user.id)
+      .single();
+
+    if (videoError || !videoData) {
+      return res
+        .status(404)
+        .json({ error: "Video not found or you do not have permission" });
+    }
+
+    const { data, error } = await supabase
+      .from("videos")
+      .update({ poll_interval_seconds: pollIntervalSeconds })
+      .eq("id", id)
+      .eq("user_id", req.user.id) // Only update videos owned by the user
+      .select();
+
+    if (error) throw error;
+
+    res.json(data[0]);
+  } catch (error) {
+    console.error("Error updating polling interval:", error);
+    res.status(500).json({ error: "Failed to update polling interval" });
+  }
+});
+
+app.patch(
+  "/api/videos/:id/escalation-policy",
+  authenticateToken,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { escalationPolicyId = null } = req.body;
+
+      if (
+        escalationPolicyId &&
+        !(await findEscalationPolicy(escalationPolicyId, req.user.id))
+      ) {
+        return res.status(400).json({ error: "Escalation policy not found" });
+      }
+
+      const { data, error } = await supabase
+        .from("videos")
+        .update({ escalation_policy_id: escalationPolicyId })
+        .eq("id", id)
+        .eq("user_id", req.user.id) // Only update videos owned by the user
+        .select();
+
+      if (error) throw error;
+
+      if (data.length === 0) {
+        return res
+          .status(404)
+          .json({ error: "Video not found or you do not have permission" });
+      }
+
+      res.json(data[0]);
+    } catch (error) {
+      console.error("Error updating escalation policy:", error);
+      res.status(500).json({ error: "Failed to update escalation policy" });
+    }
+  }
+);
+
+app.delete("/api/videos/:id", authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Check if the video belongs to the user
+    const { data: videoData, error: videoError } = await supabase
+      .from("videos")
+      .select("id")
+      .eq("id", id)
+      .eq("user_id", req.user.id)
+      .single();
+
+    if (videoError || !videoData) {
+      return res
+        .status(404)
+        .json({ error: "Video not found or you do not have permission" });
+    }
+
+    await supabase.from("video_views").delete().eq("video_id", id);
+
+    const { error } = await supabase
+      .from("videos")
+      .delete()
+      .eq("id", id)
+      .eq("user_id", req.user.id); // Only delete videos owned by the user
+
+    if (error) throw error;
+
+    res.status(204).end();
+  } catch (error) {
+    console.error("Error deleting video:", error);
+    res.status(500).json({ error: "Failed to delete video" });
+  }
+});
+
+app.get("/api/scheduler/runs", authenticateToken, async (req, res) => {
+  try {
+    const { data, error } = await supabase
+      .from("scheduler_runs")
+      .select("*")
+      .order("started_at", { ascending: false })
+      .limit(50);
+
+    if (error) throw error;
+
+    res.json(
+      data.map((run) => ({
+        id: run.id,
+        instanceId: run.instance_id,
+        startedAt: run.started_at,
+        durationMs: run.duration_ms,
+        videosPolled: run.videos_polled,
+        failures: run.failures,
+        skippedTicks: run.skipped_ticks,
+      }))
+    );
+  } catch (error) {
+    console.error("Error fetching scheduler runs:", error);
+    res.status(500).json({ error: "Failed to fetch scheduler runs" });
+  }
+});
+
+app.get("/api/quota", authenticateToken, async (req, res) => {
+  try {
+    const { day } = getQuotaClock();
+    const rows = await getQuotaUsage(day);
+    const used = sumUnits(rows);
+
+    const byEndpoint = {};
+    for (const row of rows) {
+      byEndpoint[row.endpoint] = (byEndpoint[row.endpoint] || 0) + row.units;
+    }
+
+    res.json({
+      day,
+      dailyQuota: YOUTUBE_DAILY_QUOTA,
+      budget: YOUTUBE_QUOTA_BUDGET,
+      used,
+      remaining: Math.max(0, YOUTUBE_QUOTA_BUDGET - used),
+      userUsed: sumUnits(rows.filter((row) => row.user_id === req.user.id)),
+      byEndpoint,
+      projected: pollingState.projected,
+      pollingPaused: pollingState.slowdown === Infinity,
+      pollingSlowdown:
+        pollingState.slowdown === Infinity ? null : pollingState.slowdown,
+    });
+  } catch (error) {
+    console.error("Error fetching quota usage:", error);
+    res.status(500).json({ error: "Failed to fetch quota usage" });
+  }
+});
+
+function formatIncident(incident) {
+  return {
+    id: incident.id,
+    videoId: incident.video_id,
+    videoTitle: incident.video_title,
+    level: incident.level,
+    status: incident.status,
+    threshold: incident.threshold,
+    peakViewsPerMinute: incident.peak_views_per_minute,
+    escalationStep: incident.escalation_step,
+    lastViewsPerMinute: incident.last_views_per_minute,
+    openedAt: incident.opened_at,
+    escalatedAt: incident.escalated_at,
+    acknowledgedAt: incident.acknowledged_at,
+    acknowledgedBy: incident.acknowledged_by,
+    resolvedAt: incident.resolved_at,
+  };
+}
+
+async function acknowledgeIncident(incident, acknowledgedBy) {
+  if (incident.status !== "open") return incident;
+
+  return updateIncident(incident.id, {
+    status: "acknowledged",
+    acknowledged_at: new Date().toISOString(),
+    acknowledged_by: acknowledgedBy,
+  });
+}
+
+app.get("/api/incidents", authenticateToken, async (req, res) => {
+  try {
+    const { status = "active" } = req.query;
+
+    let query = supabase
+      .from("incidents")
+      .select("*")
+      .eq("user_id", req.user.id)
+      .order("opened_at", { ascending: false })
+      .limit(100);
+
+    if (status === "active") {
+      query = query.neq("status", "resolved");
+    } else if (status !== "all") {
+      query = query.eq("status", status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    res.json(data.map(formatIncident));
+  } catch (error) {
+    console.error("Error fetching incidents:", error);
+    res.status(500).json({ error: "Failed to fetch incidents" });
+  }
+});
+
+app.post(
+  "/api/incidents/:id/acknowledge",
+  authenticateToken,
+  async (req, res) => {
+    try {
+      const { data: incident, error } = await supabase
+        .from("incidents")
+        .select("*")
+        .eq("id", req.params.id)
+        .eq("user_id", req.user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (!incident) {
+        return res
+          .status(404)
+          .json({ error: "Incident not found or you do not have permission" });
+      }
+
+      const acknowledged = await acknowledgeIncident(incident, req.user.email);
+
+      res.json(formatIncident(acknowledged));
+    } catch (error) {
+      console.error("Error acknowledging incident:", error);
+      res.status(500).json({ error: "Failed to acknowledge incident" });
+    }
+  }
+);
+
+function escapeHtml(text) {
+  return String(text)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Acknowledge link included in alerts. The per-incident token stands in for
+// a login, so recipients can acknowledge from their phone. Opening the link
+// only shows a button, so link scanners in mail and chat apps don't
+// acknowledge on the recipient's behalf.
+const ACK_LINK_TTL_MS = 3 * 24 * 60 * 60 * 1000;
+
+// The token is a signature of the incident id, so nothing a signed-in user
+// can read from the database gives it away. Without a fixed secret, links
+// only work on the instance that sent them, until it restarts.
+const ACK_LINK_SECRET =
+  process.env.ACK_LINK_SECRET || crypto.randomBytes(32).toString("hex");
+
+if (!process.env.ACK_LINK_SECRET) {
+  console.warn(
+    "ACK_LINK_SECRET is not set; acknowledge links stop working when the server restarts"
+  );
+}
+
+function getAckToken(incidentId) {
+  return crypto
+    .createHmac("sha256", ACK_LINK_SECRET)
+    .update(`acknowledge.${incidentId}`)
+    .digest("base64url");
+}
+
+// The token works until a while after the latest alert that carried it
+async function findIncidentByAckToken(id, token) {
+  if (!token) return null;
+
+  const expected = Buffer.from(getAckToken(id));
+  const actual = Buffer.from(String(token));
+
+  if (
+    actual.length !== expected.length ||
+    !crypto.timingSafeEqual(actual, expected)
+  ) {
+    return null;
+  }
+
+  const { data: incident, error } = await supabase
+    .from("incidents")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!incident) return null;
+
+  const issuedAt = new Date(
+    incident.last_notified_at || incident.escalated_at || incident.opened_at
+  );
+  if (Date.now() - issuedAt.getTime() > ACK_LINK_TTL_MS) return null;
+
+  return incident;
+}
+
+app.get("/api/incidents/:id/acknowledge", async (req, res) => {
+  try {
+    const incident = await findIncidentByAckToken(
+      req.params.id,
+      req.query.token
+    );
+
+    if (!incident) {
+      return res.status(404).send("<p>Incident not found or link expired.</p>");
+    }
+
+    if (incident.status !== "open") {
+      return res.send(
+        `<p>Incident for <strong>${escapeHtml(
+          incident.video_title
+        )}</strong> is ${incident.status}.</p>`
+      );
+    }
+
+    res.send(
+      `<p>Acknowledge the ${escapeHtml(
+        incident.level
+      )} incident for <strong>${escapeHtml(incident.video_title)}</strong>?</p>
+<form method="post" action="${PUBLIC_API_URL}/incidents/${
+        incident.id
+      }/acknowledge/confirm?token=${encodeURIComponent(req.query.token)}">
+<button type="submit">Acknowledge</button></form>`
+    );
+  } catch (error) {
+    console.error("Error loading acknowledge link:", error);
+    res.status(500).send("<p>Failed to load incident.</p>");
+  }
+});
+
+app.post("/api/incidents/:id/acknowledge/confirm", async (req, res) => {
+  try {
+    const incident = await findIncidentByAckToken(
+      req.params.id,
+      req.query.token
+    );
+
+    if (!incident) {
+      return res.status(404).send("<p>Incident not found or link expired.</p>");
+    }
+
+    const acknowledged = await acknowledgeIncident(incident, "alert link");
+
+    res.send(
+      `<p>Incident for <strong>${escapeHtml(
+        acknowledged.video_title
+      )}</strong> is ${acknowledged.status}.</p>`
+    );
+  } catch (error) {
+    console.error("Error acknowledging incident:", error);
+    res.status(500).send("<p>Failed to acknowledge incident.</p>");
+  }
+});
+
+// Escalation policy endpoints
+function formatEscalationPolicy(policy) {
+  return {
+    id: policy.id,
+    name: policy.name,
+    steps: policy.steps,
+    createdAt: policy.created_at,
+  };
+}
+
+async function findEscalationPolicy(id, userId) {
+  const { data, error } = await supabase
+    .from("escalation_policies")
+    .select("*")
+    .eq("id", id)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
+
+// Extra contacts of escalation steps have to confirm like any recipient
+async function requestStepVerifications(userId, steps) {
+  for (const step of steps) {
+    await requestVerifications(userId, step.extraRecipients || {});
+  }
+}
+
+app.get("/api/escalation-policies", authenticateToken, async (req, res) => {
+  try {
+    const { data, error } = await supabase
+      .from("escalation_policies")
+      .select("*")
+      .eq("user_id", req.user.id)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+
+    res.json(data.map(formatEscalationPolicy));
+  } catch (error) {
+    console.error("Error fetching escalation policies:", error);
+    res.status(500).json({ error: "Failed to fetch escalation policies" });
+  }
+});
+
+app.post("/api/escalation-policies", authenticateToken, async (req, res) => {
+  try {
+    const { name, steps } = req.body;
+
+    if (!name || !name.trim()) {
+      return res.status(400).json({ error: "Policy name is required" });
+    }
+
+    const stepsError = validateEscalationSteps(steps);
+    if (stepsError) {
+      return res.status(400).json({ error: stepsError });
+    }
+
+    const { data, error } = await supabase
+      .from("escalation_policies")
+      .insert({ name: name.trim(), steps, user_id: req.user.id })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await requestStepVerifications(req.user.id, steps);
+
+    res.status(201).json(formatEscalationPolicy(data));
+  } catch (error) {
+    console.error("Error creating escalation policy:", error);
+    res.status(500).json({ error: "Failed to create escalation policy" });
+  }
+});
+
+app.put(
+  "/api/escalation-policies/:id",
+  authenticateToken,
+  async (req, res) => {
+    try {
+      const { name, steps } = req.body;
+
+      if (!name || !name.trim()) {
+        return res.status(400).json({ error: "Policy name is required" });
+      }
+
+      const stepsError = validateEscalationSteps(steps);
+      if (stepsError) {
+        return res.status(400).json({ error: stepsError });
+      }
+
+      const { data, error } = await supabase
+        .from("escalation_policies")
+        .update({ name: name.trim(), steps })
+        .eq("id", req.params.id)
+        .eq("user_id", req.user.id)
+        .select();
+
+      if (error) throw error;
+
+      if (data.length === 0) {
+        return res
+          .status(404)
+          .json({ error: "Policy not found or you do not have permission" });
+      }
+
+      await requestStepVerifications(req.user.id, steps);
+
+      res.json(formatEscalationPolicy(data[0]));
+    } catch (error) {
+      console.error("Error updating escalation policy:", error);
+      res.status(500).json({ error: "Failed to update escalation policy" });
+    }
+  }
+);
+
+app.delete(
+  "/api/escalation-policies/:id",
+  authenticateToken,
+  async (req, res) => {
+    try {
+      // Videos using the policy fall back to alerting everyone at once
+      const { data, error } = await supabase
+        .from("escalation_policies")
+        .delete()
+        .eq("id", req.params.id)
+        .eq("user_id", req.user.id)
+        .select();
+
+      if (error) throw error;
+
+      if (data.length === 0) {
+        return res
+          .status(404)
+          .json({ error: "Policy not found or you do not have permission" });
+      }
+
+      res.json({ message: "Escalation policy deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting escalation policy:", error);
+      res.status(500).json({ error: "Failed to delete escalation policy" });
+    }
+  }
+);
+
+// Contact directory endpoints. Videos reference contacts and groups by id,
+// and their handles are looked up when an alert goes out.
+
+// Contact handles: API field and column
+const CONTACT_FIELDS = {
+  email: "email",
+  phone: "phone",
+  zaloId: "zalo_id",
+  slackWebhook: "slack_webhook",
+  discordWebhook: "discord_webhook",
+  telegramChatId: "telegram_chat_id",
+  webhookUrl: "webhook_url",
+};
+
+const MAX_CONTACT_NAME_LENGTH = 100;
+
+function formatContact(contact) {
+  const formatted = { id: contact.id, name: contact.name };
+
+  for (const [field, column] of Object.entries(CONTACT_FIELDS)) {
+    formatted[field] = contact[column] || null;
+  }
+
+  formatted.createdAt = contact.created_at;
+  return formatted;
+}
+
+function formatContactGroup(group) {
+  return {
+    id: group.id,
+    name: group.name,
+    contactIds: (group.contact_group_members || []).map(
+      (member) => member.contact_id
+    ),
+    createdAt: group.created_at,
+  };
+}
+
+// A contact's handles as video recipients
+function getContactRecipients(contact) {
+  return Object.fromEntries(
+    ALERT_CHANNELS.map((channel) => [
+      channel.recipientsKey,
+      contact[channel.contactField] ? [contact[channel.contactField]] : [],
+    ])
+  );
+}
+
+// Contact row from a request body, or an error message
+function parseContact(body) {
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+
+  if (!name || name.length > MAX_CONTACT_NAME_LENGTH) {
+    return {
+      error: `Contact name is required, up to ${MAX_CONTACT_NAME_LENGTH} characters`,
+    };
+  }
+
+  const row = { name };
+
+  for (const [field, column] of Object.entries(CONTACT_FIELDS)) {
+    const value = body[field];
+
+    if (value !== undefined && value !== null && typeof value !== "string") {
+      return { error: `Invalid ${field}` };
+    }
+
+    row[column] = value && value.trim() ? value.trim() : null;
+  }
+
+  if (!Object.values(CONTACT_FIELDS).some((column) => row[column])) {
+    return { error: "A contact needs at least one way to reach them" };
+  }
+
+  if (row.email && !EMAIL_PATTERN.test(row.email)) {
+    return { error: "Invalid email address" };
+  }
+
+  for (const channel of ALERT_CHANNELS) {
+    const value = row[channel.contactField];
+    if (channel.url && value && !isWebhookUrl(value)) {
+      return { error: `${channel.type} handle must be a public HTTPS URL` };
+    }
+  }
+
+  return { row };
+}
+
+// Ids from the list that do not belong to the user's rows in the table
+async function findUnknownIds(table, ids, userId) {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from(table)
+    .select("id")
+    .in("id", ids)
+    .eq("user_id", userId);
+
+  if (error) throw error;
+
+  const known = new Set(data.map((row) => row.id));
+  return ids.filter((id) => !known.has(id));
+}
+
+// Whether every contact and group in a video's notifications is the user's
+async function ownsContacts(notifications = {}, userId) {
+  const { contactIds = [], groupIds = [] } = notifications;
+  const unknown = [
+    ...(await findUnknownIds("contacts", contactIds, userId)),
+    ...(await findUnknownIds("contact_groups", groupIds, userId)),
+  ];
+
+  return unknown.length === 0;
+}
+
+async function fetchContactGroup(id, userId) {
+  const { data, error } = await supabase
+    .from("contact_groups")
+    .select("*, contact_group_members(contact_id)")
+    .eq("id", id)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
+
+// Replace a group's members with the given contacts
+async function setGroupMembers(groupId, contactIds) {
+  const { error: deleteError } = await supabase
+    .from("contact_group_members")
+    .delete()
+    .eq("group_id", groupId);
+
+  if (deleteError) throw deleteError;
+
+  if (contactIds.length === 0) return;
+
+  const { error } = await supabase.from("contact_group_members").insert(
+    contactIds.map((contactId) => ({
+      group_id: groupId,
+      contact_id: contactId,
+    }))
+  );
+
+  if (error) throw error;
+}
+
+// Group name and contacts from a request body, or an error message
+async function parseContactGroup(body, userId) {
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+
+  if (!name || name.length > MAX_CONTACT_NAME_LENGTH) {
+    return {
+      error: `Group name is required, up to ${MAX_CONTACT_NAME_LENGTH} characters`,
+    };
+  }
+
+  const contactIds = body.contactIds || [];
+
+  if (
+    !Array.isArray(contactIds) ||
+    !contactIds.every((id) => typeof id === "string")
+  ) {
+    return { error: "Invalid group contacts" };
+  }
+
+  const uniqueIds = [...new Set(contactIds)];
+
+  if ((await findUnknownIds("contacts", uniqueIds, userId)).length > 0) {
+    return { error: "Contact not found" };
+  }
+
+  return { name, contactIds: uniqueIds };
+}
+
+app.get("/api/contacts", authenticateToken, async (req, res) => {
+  try {
+    const { data, error } = await supabase
+      .from("contacts")
+      .select("*")
+      .eq("user_id", req.user.id)
+      .order("name", { ascending: true });
+
+    if (error) throw error;
+
+    res.json(data.map(formatContact));
+  } catch (error) {
+    console.error("Error fetching contacts:", error);
+    res.status(500).json({ error: "Failed to fetch contacts" });
+  }
+});
+
+app.post("/api/contacts", authenticateToken, async (req, res) => {
+  try {
+    const { row, error: contactError } = parseContact(req.body);
+    if (contactError) {
+      return res.status(400).json({ error: contactError });
+    }
+
+    const { data, error } = await supabase
+      .from("contacts")
+      .insert({ ...row, user_id: req.user.id })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await requestVerifications(req.user.id, getContactRecipients(data));
+
+    res.status(201).json(formatContact(data));
+  } catch (error) {
+    console.error("Error creating contact:", error);
+    res.status(500).json({ error: "Failed to create contact" });
+  }
+});
+
+app.put("/api/contacts/:id", authenticateToken, async (req, res) => {
+  try {
+    const { row, error: contactError } = parseContact(req.body);
+    if (contactError) {
+      return res.status(400).json({ error: contactError });
+    }
+
+    // Videos pick up the new handles on their next alert
+    const { data, error } = await supabase
+      .from("contacts")
+      .update(row)
+      .eq("id", req.params.id)
+      .eq("user_id", req.user.id)
+      .select();
+
+    if (error) throw error;
+
+    if (data.length === 0) {
+      return res
+        .status(404)
+        .json({ error: "Contact not found or you do not have permission" });
+    }
+
+    await requestVerifications(req.user.id, getContactRecipients(data[0]));
+
+    res.json(formatContact(data[0]));
+  } catch (error) {
+    console.error("Error updating contact:", error);
+    res.status(500).json({ error: "Failed to update contact" });
+  }
+});
+
+app.delete("/api/contacts/:id", authenticateToken, async (req, res) => {
+  try {
+    // Group memberships go with the contact; videos referencing it skip it
+    const { data, error } = await supabase
+      .from("contacts")
+      .delete()
+      .eq("id", req.params.id)
+      .eq("user_id", req.user.id)
+      .select();
+
+    if (error) throw error;
+
+    if (data.length === 0) {
+      return res
+        .status(404)
+        .json({ error: "Contact not found or you do not have permission" });
+    }
+
+    res.json({ message: "Contact deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting contact:", error);
+    res.status(500).json({ error: "Failed to delete contact" });
+  }
+});
+
+app.get("/api/contact-groups", authenticateToken, async (req, res) => {
+  try {
+    const { data, error } = await supabase
+      .from("contact_groups")
+      .select("*, contact_group_members(contact_id)")
+      .eq("user_id", req.user.id)
+      .order("name", { ascending: true });
+
+    if (error) throw error;
+
+    res.json(data.map(formatContactGroup));
+  } catch (error) {
+    console.error("Error fetching contact groups:", error);
+    res.status(500).json({ error: "Failed to fetch contact groups" });
+  }
+});
+
+app.post("/api/contact-groups", authenticateToken, async (req, res) => {
+  try {
+    const group = await parseContactGroup(req.body, req.user.id);
+    if (group.error) {
+      return res.status(400).json({ error: group.error });
+    }
+
+    const { data, error } = await supabase
+      .from("contact_groups")
+      .insert({ name: group.name, user_id: req.user.id })
+      .select()
+      .single();
+
+    if (error && error.code === "23505") {
+      return res.status(409).json({ error: "A group with this name exists" });
+    }
+    if (error) throw error;
+
+    await setGroupMembers(data.id, group.contactIds);
+
+    res
+      .status(201)
+      .json(formatContactGroup(await fetchContactGroup(data.id, req.user.id)));
+  } catch (error) {
+    console.error("Error creating contact group:", error);
+    res.status(500).json({ error: "Failed to create contact group" });
+  }
+});
+
+app.put("/api/contact-groups/:id", authenticateToken, async (req, res) => {
+  try {
+    const group = await parseContactGroup(req.body, req.user.id);
+    if (group.error) {
+      return res.status(400).json({ error: group.error });
+    }
+
+    const { data, error } = await supabase
+      .from("contact_groups")
+      .update({ name: group.name })
+      .eq("id", req.params.id)
+      .eq("user_id", req.user.id)
+      .select();
+
+    if (error && error.code === "23505") {
+      return res.status(409).json({ error: "A group with this name exists" });
+    }
+    if (error) throw error;
+
+    if (data.length === 0) {
+      return res
+        .status(404)
+        .json({ error: "Group not found or you do not have permission" });
+    }
+
+    await setGroupMembers(req.params.id, group.contactIds);
+
+    res.json(
+      formatContactGroup(await fetchContactGroup(req.params.id, req.user.id))
+    );
+  } catch (error) {
+    console.error("Error updating contact group:", error);
+    res.status(500).json({ error: "Failed to update contact group" });
+  }
+});
+
+app.delete("/api/contact-groups/:id", authenticateToken, async (req, res) => {
+  try {
+    const { data, error } = await supabase
+      .from("contact_groups")
+      .delete()
+      .eq("id", req.params.id)
+      .eq("user_id", req.user.id)
+      .select();
+
+    if (error) throw error;
+
+    if (data.length === 0) {
+      return res
+        .status(404)
+        .json({ error: "Group not found or you do not have permission" });
+    }
+
+    res.json({ message: "Contact group deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting contact group:", error);
+    res.status(500).json({ error: "Failed to delete contact group" });
+  }
+});
+
+// Recipient opt-in and opt-out. Email, SMS and Zalo recipients only get alerts
+// once they confirm, by a link emailed to them or a code sent to their phone
+// or Zalo account for the dashboard user to enter. Every email and SMS alert
+// carries a signed link to unsubscribe from the video or from everything.
+
+const VERIFICATION_CODE_MINUTES = 30;
+const MAX_VERIFICATION_CODE_ATTEMPTS = 5;
+const VERIFICATION_RESEND_SECONDS = 60;
+
+// Without a fixed secret, unsubscribe links only work on the instance that
+// sent them, until it restarts
+const UNSUBSCRIBE_SECRET =
+  process.env.UNSUBSCRIBE_SECRET || crypto.randomBytes(32).toString("hex");
+
+if (!process.env.UNSUBSCRIBE_SECRET) {
+  console.warn(
+    "UNSUBSCRIBE_SECRET is not set; unsubscribe links stop working when the server restarts"
+  );
+}
+
+function signUnsubscribe(verificationId, videoId) {
+  return crypto
+    .createHmac("sha256", UNSUBSCRIBE_SECRET)
+    .update(`${verificationId}.${videoId}`)
+    .digest("base64url")
+    .slice(0, 16);
+}
+
+// The recipient's verification id, the video and a truncated signature of
+// both, which keeps the link short enough for SMS. Links sent without a
+// video only offer to stop all alerts.
+function getUnsubscribeUrl(verificationId, videoId) {
+  const scope = videoId || "all";
+
+  return `${PUBLIC_API_URL}/unsubscribe/${verificationId}.${scope}.${signUnsubscribe(
+    verificationId,
+    scope
+  )}`;
+}
+
+function parseUnsubscribeToken(token) {
+  const [verificationId, videoId, signature] = String(token).split(".");
+  if (!verificationId || !videoId || !signature) return null;
+
+  const expected = Buffer.from(signUnsubscribe(verificationId, videoId));
+  const actual = Buffer.from(signature);
+
+  if (
+    actual.length !== expected.length ||
+    !crypto.timingSafeEqual(actual, expected)
+  ) {
+    return null;
+  }
+
+  return { verificationId, videoId };
+}
+
+// Any signed-in user can read recipient_verifications, so only hashes of
+// link tokens and codes are stored there. A six-digit code is keyed with the
+// secret that also signs unsubscribe links, as its plain hash could be
+// found by trying every code.
+function hashVerificationCode(userId, type, recipient, code) {
+  return crypto
+    .createHmac("sha256", UNSUBSCRIBE_SECRET)
+    .update(`${userId}:${type}:${recipient}:${code}`)
+    .digest("hex");
+}
+
+function hashVerificationToken(token) {
+  return crypto.createHash("sha256").update(String(token)).digest("hex");
+}
+
+function isVerificationCode(verification, code) {
+  const expected = Buffer.from(verification.code_hash);
+  const actual = Buffer.from(
+    hashVerificationCode(
+      verification.user_id,
+      verification.type,
+      verification.recipient,
+      String(code)
+    )
+  );
+
+  return (
+    actual.length === expected.length &&
+    crypto.timingSafeEqual(actual, expected)
+  );
+}
+
+function formatVerification(verification) {
+  return {
+    type: verification.type,
+    recipient: verification.recipient,
+    status: verification.status,
+    requestedAt: verification.requested_at,
+    verifiedAt: verification.verified_at,
+  };
+}
+
+async function findVerification(userId, type, recipient) {
+  const { data, error } = await supabase
+    .from("recipient_verifications")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("type", type)
+    .eq("recipient", recipient)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
+
+async function getOptOuts(userId, type, recipient) {
+  const { data, error } = await supabase
+    .from("recipient_opt_outs")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("type", type)
+    .eq("recipient", recipient);
+
+  if (error) throw error;
+
+  return data;
+}
+
+// Send a recipient a link or code to confirm they want alerts. Recipients
+// already asked are only asked again with `resend`; a confirmed recipient
+// stays confirmed, and confirming again lifts their opt-outs.
+async function requestVerification(
+  userId,
+  type,
+  recipient,
+  { resend = false } = {}
+) {
+  const channel = ALERT_CHANNELS.find((channel) => channel.type === type);
+  if (!channel || !channel.verification) return null;
+
+  const existing = await findVerification(userId, type, recipient);
+  if (existing && !resend) return existing;
+
+  const code =
+    channel.verification === "code"
+      ? String(crypto.randomInt(0, 1000000)).padStart(6, "0")
+      : null;
+  const token = code ? null : crypto.randomBytes(24).toString("hex");
+
+  const { data: verification, error } = await supabase
+    .from("recipient_verifications")
+    .upsert(
+      {
+        user_id: userId,
+        type,
+        recipient,
+        status: existing ? existing.status : "pending",
+        token_hash: token && hashVerificationToken(token),
+        code_hash: code && hashVerificationCode(userId, type, recipient, code),
+        code_expires_at:
+          code &&
+          new Date(
+            Date.now() + VERIFICATION_CODE_MINUTES * 60 * 1000
+          ).toISOString(),
+        code_attempts: 0,
+        requested_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id,type,recipient" }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const preferences = await getNotificationPreferences(userId);
+  const message = renderVerificationMessage(
+    preferences.language,
+    code ? { code } : { url: `${PUBLIC_API_URL}/recipients/verify/${token}` }
+  );
+  const result = await notificationChannels[type].send({
+    to: recipient,
+    ...message,
+  });
+
+  if (!result.accepted) {
+    throw new Error(`Could not send the confirmation: ${result.error}`);
+  }
+
+  console.log(`Asked ${type} recipient ${recipient} to confirm alerts`);
+
+  return verification;
+}
+
+// Ask every recipient that hasn't been asked yet. Failures are logged; the
+// recipient can be asked again from the video's page.
+async function requestVerifications(userId, recipients) {
+  for (const channel of ALERT_CHANNELS) {
+    if (!channel.verification) continue;
+
+    for (const recipient of recipients[channel.recipientsKey] || []) {
+      try {
+        await requestVerification(userId, channel.type, recipient);
+      } catch (error) {
+        console.error(
+          `Error asking ${channel.type} recipient ${recipient} to confirm:`,
+          error
+        );
+      }
+    }
+  }
+}
+
+// Whether an alert may go to a recipient: not until they confirm, and not
+// after they unsubscribe from the video or from everything. Confirmed
+// recipients get the link to unsubscribe.
+async function checkRecipientAccess(userId, type, recipient, videoId) {
+  const channel = ALERT_CHANNELS.find((channel) => channel.type === type);
+  if (!channel || !channel.verification) {
+    return { blocked: null, unsubscribeUrl: null };
+  }
+
+  const verification = await findVerification(userId, type, recipient);
+
+  if (!verification || verification.status !== "verified") {
+    return {
+      blocked: "Recipient has not confirmed they want alerts",
+      unconfirmed: true,
+      unsubscribeUrl: null,
+    };
+  }
+
+  const optOut = (await getOptOuts(userId, type, recipient)).find(
+    (optOut) => optOut.video_id === null || optOut.video_id === videoId
+  );
+
+  if (optOut) {
+    return {
+      blocked: optOut.video_id
+        ? "Recipient unsubscribed from this video"
+        : "Recipient unsubscribed from all alerts",
+      unsubscribeUrl: null,
+    };
+  }
+
+  return {
+    blocked: null,
+    unsubscribeUrl: getUnsubscribeUrl(verification.id, videoId),
+  };
+}
+
+// Mark a recipient confirmed, and lift any opt-outs they made
+async function confirmVerification(verification, changes = {}) {
+  const { data, error } = await supabase
+    .from("recipient_verifications")
+    .update({
+      ...changes,
+      status: "verified",
+      verified_at: new Date().toISOString(),
+    })
+    .eq("id", verification.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const { error: optOutError } = await supabase
+    .from("recipient_opt_outs")
+    .delete()
+    .eq("user_id", verification.user_id)
+    .eq("type", verification.type)
+    .eq("recipient", verification.recipient);
+
+  if (optOutError) throw optOutError;
+
+  return data;
+}
+
+// Confirmation and opt-out state of every recipient of a video
+app.get("/api/videos/:id/recipients", authenticateToken, async (req, res) => {
+  try {
+    const { data: video, error: videoError } = await supabase
+      .from("videos")
+      .select("*")
+      .eq("id", req.params.id)
+      .eq("user_id", req.user.id)
+      .maybeSingle();
+
+    if (videoError) throw videoError;
+
+    if (!video) {
+      return res
+        .status(404)
+        .json({ error: "Video not found or you do not have permission" });
+    }
+
+    const [recipients, verifications, optOuts] = await Promise.all([
+      getVideoRecipients(video),
+      supabase
+        .from("recipient_verifications")
+        .select("*")
+        .eq("user_id", req.user.id),
+      supabase
+        .from("recipient_opt_outs")
+        .select("*")
+        .eq("user_id", req.user.id),
+    ]);
+
+    if (verifications.error) throw verifications.error;
+    if (optOuts.error) throw optOuts.error;
+
+    const statuses = ALERT_CHANNELS.flatMap((channel) =>
+      recipients[channel.recipientsKey].map((recipient) => {
+        const matches = (row) =>
+          row.type === channel.type && row.recipient === recipient;
+        const verification = verifications.data.find(matches);
+        const optOut = optOuts.data.find(
+          (row) =>
+            matches(row) &&
+            (row.video_id === null || row.video_id === video.id)
+        );
+
+        return {
+          type: channel.type,
+          recipient,
+          verification: !channel.verification
+            ? "not_required"
+            : verification
+            ? verification.status
+            : "unrequested",
+          verificationMethod: channel.verification || null,
+          requestedAt: verification ? verification.requested_at : null,
+          optedOut: optOut ? (optOut.video_id ? "video" : "all") : null,
+        };
+      })
+    );
+
+    res.json(statuses);
+  } catch (error) {
+    console.error("Error fetching recipient status:", error);
+    res.status(500).json({ error: "Failed to fetch recipient status" });
+  }
+});
+
+// Send a recipient a new confirmation link or code
+app.post(
+  "/api/recipient-verifications",
+  authenticateToken,
+  async (req, res) => {
+    try {
+      const { type, recipient } = req.body;
+      const channel = ALERT_CHANNELS.find((channel) => channel.type === type);
+
+      if (!channel || !channel.verification) {
+        return res.status(400).json({
+          error: `Confirmation is only needed for ${ALERT_CHANNELS.filter(
+            (channel) => channel.verification
+          )
+            .map((channel) => channel.type)
+            .join(", ")}`,
+        });
+      }
+
+      if (typeof recipient !== "string" || !recipient.trim()) {
+        return res.status(400).json({ error: "Recipient is required" });
+      }
+
+      const existing = await findVerification(req.user.id, type, recipient);
+
+      if (
+        existing &&
+        Date.now() - new Date(existing.requested_at).getTime() <
+          VERIFICATION_RESEND_SECONDS * 1000
+      ) {
+        return res.status(429).json({
+          error: "A confirmation was sent less than a minute ago",
+        });
+      }
+
+      let verification;
+      try {
+        verification = await requestVerification(
+          req.user.id,
+          type,
+          recipient,
+          { resend: true }
+        );
+      } catch (sendError) {
+        console.error("Error sending confirmation:", sendError);
+        return res.status(502).json({ error: sendError.message });
+      }
+
+      res.json(formatVerification(verification));
+    } catch (error) {
+      console.error("Error requesting recipient confirmation:", error);
+      res.status(500).json({ error: "Failed to request confirmation" });
+    }
+  }
+);
+
+// Confirm an SMS or Zalo recipient with the code they were sent
+app.post(
+  "/api/recipient-verifications/confirm",
+  authenticateToken,
+  async (req, res) => {
+    try {
+      const { type, recipient, code } = req.body;
+
+      const verification =
+        typeof recipient === "string"
+          ? await findVerification(req.user.id, type, recipient)
+          : null;
+
+      if (!verification || !verification.code_hash) {
+        return res
+          .status(404)
+          .json({ error: "No confirmation code was sent to this recipient" });
+      }
+
+      if (
+        new Date(verification.code_expires_at) < new Date() ||
+        verification.code_attempts >= MAX_VERIFICATION_CODE_ATTEMPTS
+      ) {
+        return res
+          .status(400)
+          .json({ error: "The code has expired. Send a new one" });
+      }
+
+      if (!isVerificationCode(verification, code)) {
+        await supabase
+          .from("recipient_verifications")
+          .update({ code_attempts: verification.code_attempts + 1 })
+          .eq("id", verification.id);
+
+        return res.status(400).json({ error: "Wrong code" });
+      }
+
+      const confirmed = await confirmVerification(verification, {
+        code_hash: null,
+        code_expires_at: null,
+      });
+
+      res.json(formatVerification(confirmed));
+    } catch (error) {
+      console.error("Error confirming recipient:", error);
+      res.status(500).json({ error: "Failed to confirm recipient" });
+    }
+  }
+);
+
+// Confirmation links from emails. Opening the link only shows a button, so
+// mail scanners that follow links don't confirm on the recipient's behalf.
+async function findVerificationByToken(token) {
+  const { data, error } = await supabase
+    .from("recipient_verifications")
+    .select("*")
+    .eq("token_hash", hashVerificationToken(token))
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
+
+app.get("/api/recipients/verify/:token", async (req, res) => {
+  try {
+    const verification = await findVerificationByToken(req.params.token);
+
+    if (!verification) {
+      return res.status(404).send("<p>Link not found or already used.</p>");
+    }
+
+    res.send(
+      `<p>Send YouTube view alerts to <strong>${escapeHtml(
+        verification.recipient
+      )}</strong>?</p>
+<form method="post"><button type="submit">Confirm</button></form>`
+    );
+  } catch (error) {
+    console.error("Error loading confirmation link:", error);
+    res.status(500).send("<p>Failed to load confirmation.</p>");
+  }
+});
+
+app.post("/api/recipients/verify/:token", async (req, res) => {
+  try {
+    const verification = await findVerificationByToken(req.params.token);
+
+    if (!verification) {
+      return res.status(404).send("<p>Link not found or already used.</p>");
+    }
+
+    await confirmVerification(verification, { token_hash: null });
+
+    res.send(
+      `<p>Confirmed. Alerts will be sent to <strong>${escapeHtml(
+        verification.recipient
+      )}</strong>.</p>`
+    );
+  } catch (error) {
+    console.error("Error confirming recipient:", error);
+    res.status(500).send("<p>Failed to confirm.</p>");
+  }
+});
+
+// Unsubscribe links from alerts. As with confirmations, opening the link
+// only shows the choices.
+async function findUnsubscribeTarget(token) {
+  const parsed = parseUnsubscribeToken(token);
+  if (!parsed) return null;
+
+  const { data: verification, error } = await supabase
+    .from("recipient_verifications")
+    .select("*")
+    .eq("id", parsed.verificationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!verification) return null;
+
+  const { data: video, error: videoError } = await supabase
+    .from("videos")
+    .select("id, title")
+    .eq("id", parsed.videoId)
+    .eq("user_id", verification.user_id)
+    .maybeSingle();
+
+  if (videoError) throw videoError;
+
+  return { verification, videoId: parsed.videoId, video };
+}
+
+app.get("/api/unsubscribe/:token", async (req, res) => {
+  try {
+    const target = await findUnsubscribeTarget(req.params.token);
+
+    if (!target) {
+      return res.status(404).send("<p>Link not found or expired.</p>");
+    }
+
+    res.send(
+      `<p>Stop YouTube view alerts to <strong>${escapeHtml(
+        target.verification.recipient
+      )}</strong>?</p>
+${
+  target.video
+    ? `<form method="post" action="?scope=video"><button type="submit">Stop alerts for ${escapeHtml(
+        target.video.title
+      )}</button></form>`
+    : ""
+}
+<form method="post" action="?scope=all"><button type="submit">Stop all alerts</button></form>`
+    );
+  } catch (error) {
+    console.error("Error loading unsubscribe link:", error);
+    res.status(500).send("<p>Failed to load unsubscribe options.</p>");
+  }
+});
+
+app.post("/api/unsubscribe/:token", async (req, res) => {
+  try {
+    const target = await findUnsubscribeTarget(req.params.token);
+    const scope = req.query.scope === "video" ? "video" : "all";
+
+    if (!target || (scope === "video" && !target.video)) {
+      return res.status(404).send("<p>Link not found or expired.</p>");
+    }
+
+    const { verification } = target;
+    const { error } = await supabase.from("recipient_opt_outs").insert({
+      user_id: verification.user_id,
+      type: verification.type,
+      recipient: verification.recipient,
+      video_id: scope === "video" ? target.videoId : null,
+    });
+
+    // Already unsubscribed
+    if (error && error.code !== "23505") throw error;
+
+    console.log(
+      `${verification.type} recipient ${verification.recipient} unsubscribed from ${
+        scope === "video" ? `video ${target.videoId}` : "all alerts"
+      }`
+    );
+
+    res.send(
+      `<p>Unsubscribed. <strong>${escapeHtml(
+        verification.recipient
+      )}</strong> will no longer get ${
+        scope === "video"
+          ? `alerts for ${escapeHtml(target.video.title)}`
+          : "any alerts from this account"
+      }.</p>`
+    );
+  } catch (error) {
+    console.error("Error unsubscribing recipient:", error);
+    res.status(500).send("<p>Failed to unsubscribe.</p>");
+  }
+});
+
+// Recipient quiet hours endpoints
+function formatRecipientSchedule(recipientSchedule) {
+  return {
+    id: recipientSchedule.id,
+    type: recipientSchedule.type,
+    recipient: recipientSchedule.recipient,
+    timeZone: recipientSchedule.time_zone,
+    quietStart: recipientSchedule.quiet_start.slice(0, 5),
+    quietEnd: recipientSchedule.quiet_end.slice(0, 5),
+    allowEmergencies: recipientSchedule.allow_emergencies,
+  };
+}
+
+app.get("/api/recipient-schedules", authenticateToken, async (req, res) => {
+  try {
+    const { data, error } = await supabase
+      .from("recipient_schedules")
+      .select("*")
+      .eq("user_id", req.user.id)
+      .order("recipient", { ascending: true });
+
+    if (error) throw error;
+
+    res.json(data.map(formatRecipientSchedule));
+  } catch (error) {
+    console.error("Error fetching recipient schedules:", error);
+    res.status(500).json({ error: "Failed to fetch recipient schedules" });
+  }
+});
+
+// Create or replace the schedule of one recipient on one channel
+app.put("/api/recipient-schedules", authenticateToken, async (req, res) => {
+  try {
+    const {
+      type,
+      recipient,
+      timeZone,
+      quietStart,
+      quietEnd,
+      allowEmergencies = true,
+    } = req.body;
+
+    if (!ALERT_CHANNELS.some((channel) => channel.type === type)) {
+      return res.status(400).json({ error: "Invalid notification type" });
+    }
+
+    if (!recipient || !recipient.trim()) {
+      return res.status(400).json({ error: "Recipient is required" });
+    }
+
+    if (!isValidTimeZone(timeZone)) {
+      return res.status(400).json({ error: "Invalid time zone" });
+    }
+
+    if (!isValidTime(quietStart) || !isValidTime(quietEnd)) {
+      return res
+        .status(400)
+        .json({ error: "Quiet hours must be times like 22:00" });
+    }
+
+    const { data, error } = await supabase
+      .from("recipient_schedules")
+      .upsert(
+        {
+          user_id: req.user.id,
+          type,
+          recipient: recipient.trim(),
+          time_zone: timeZone,
+          quiet_start: quietStart,
+          quiet_end: quietEnd,
+          allow_emergencies: Boolean(allowEmergencies),
+        },
+        { onConflict: "user_id,type,recipient" }
+      )
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    res.json(formatRecipientSchedule(data));
+  } catch (error) {
+    console.error("Error saving recipient schedule:", error);
+    res.status(500).json({ error: "Failed to save recipient schedule" });
+  }
+});
+
+app.delete(
+  "/api/recipient-schedules/:id",
+  authenticateToken,
+  async (req, res) => {
+    try {
+      const { data, error } = await supabase
+        .from("recipient_schedules")
+        .delete()
+        .eq("id", req.params.id)
+        .eq("user_id", req.user.id)
+        .select();
+
+      if (error) throw error;
+
+      if (data.length === 0) {
+        return res
+          .status(404)
+          .json({ error: "Schedule not found or you do not have permission" });
+      }
+
+      res.json({ message: "Recipient schedule deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting recipient schedule:", error);
+      res.status(500).json({ error: "Failed to delete recipient schedule" });
+    }
+  }
+);
+
+// Send a failed notification again. Deliveries still being retried are sent
+// right away; dead ones, and failed tests, get one more attempt.
+app.post(
+  "/api/notifications/:id/retry",
+  authenticateToken,
+  async (req, res) => {
+    try {
+      const { data: notification, error } = await supabase
+        .from("notifications_log")
+        .select("*")
+        .eq("id", req.params.id)
+        .eq("user_id", req.user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (!notification) {
+        return res.status(404).json({
+          error: "Notification not found or you do not have permission",
+        });
+      }
+
+      if (!["failed", "retrying", "dead"].includes(notification.status)) {
+        return res
+          .status(400)
+          .json({ error: "Only failed notifications can be retried" });
+      }
+
+      const { data: queued, error: queuedError } = await supabase
+        .from("notification_outbox")
+        .select("*")
+        .contains("notification_ids", [notification.id])
+        .maybeSingle();
+
+      if (queuedError) throw queuedError;
+
+      if (queued) {
+        const { data: updated, error: updateError } = await supabase
+          .from("notification_outbox")
+          .update({
+            status: "pending",
+            next_attempt_at: new Date().toISOString(),
+            max_attempts: Math.max(queued.max_attempts, queued.attempts + 1),
+          })
+          .eq("id", queued.id)
+          .neq("status", "sending")
+          .select();
+
+        if (updateError) throw updateError;
+
+        if (updated.length === 0) {
+          return res
+            .status(409)
+            .json({ error: "Notification is being sent right now" });
+        }
+
+        await updateNotifications(queued.notification_ids, {
+          status: "pending",
+          delivery_note: "Retry requested",
+        });
+        dispatchOutbox();
+      } else {
+        // Tests are sent directly, so they have no delivery to retry
+        await updateNotifications([notification.id], {
+          status: "pending",
+          delivery_note: "Retry requested",
+        });
+        await enqueueDelivery({
+          notificationIds: [notification.id],
+          videoId: notification.video_id,
+          userId: req.user.id,
+          type: notification.type,
+          recipient: notification.recipient,
+          alertLevel: notification.alert_level,
+          videoInfo: {
+            id: notification.video_id,
+            title: notification.video_title,
+            viewsPerMinute: notification.views_per_minute,
+            threshold: notification.threshold,
+          },
+          isTest: notification.is_test,
+          attempts: notification.attempts,
+          maxAttempts: notification.attempts + 1,
+        });
+      }
+
+      res.json({ message: "Notification queued for retry" });
+    } catch (error) {
+      console.error("Error retrying notification:", error);
+      res.status(500).json({ error: "Failed to retry notification" });
+    }
+  }
+);
+
+// Notification templates: users can replace the built-in English and
+// Vietnamese template of any channel with their own
+
+const DEFAULT_NOTIFICATION_PREFERENCES = {
+  language: "en",
+  time_zone: "Asia/Ho_Chi_Minh",
+};
+
+// Alert shown when previewing templates
+const PREVIEW_VIDEO_INFO = {
+  id: "dQw4w9WgXcQ",
+  title: "Sample video title",
+  viewsPerMinute: 150,
+  threshold: 100,
+  acknowledgeUrl: `${PUBLIC_API_URL}/incidents/sample/acknowledge?token=sample`,
+};
+// Email and SMS alerts end with an unsubscribe link as long as a real one
+const PREVIEW_UNSUBSCRIBE_CHANNELS = ["email_body", "sms"];
+const PREVIEW_VERIFICATION_ID = "00000000-0000-0000-0000-000000000000";
+
+const MAX_TEMPLATE_LENGTH = 10000;
+
+async function getNotificationPreferences(userId) {
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data || DEFAULT_NOTIFICATION_PREFERENCES;
+}
+
+// The user's templates in a language, with defaults for channels they
+// haven't customized
+async function getTemplates(userId, language) {
+  const { data, error } = await supabase
+    .from("notification_templates")
+    .select("channel, body")
+    .eq("user_id", userId)
+    .eq("language", language);
+
+  if (error) throw error;
+
+  return {
+    ...DEFAULT_TEMPLATES[language],
+    ...Object.fromEntries(data.map((row) => [row.channel, row.body])),
+  };
+}
+
+function renderAlertTemplates(
+  templates,
+  preferences,
+  templateChannels,
+  {
+    videoInfo,
+    alertLevel,
+    isTest = false,
+    heldAlerts = [],
+    unsubscribeUrl = null,
+  }
+) {
+  const variables = getTemplateVariables({
+    language: preferences.language,
+    timeZone: preferences.time_zone,
+    videoInfo,
+    alertLevel,
+    heldAlerts,
+    dashboardUrl: DASHBOARD_URL,
+  });
+
+  return Object.fromEntries(
+    templateChannels.map((channel) => {
+      const html = channel === "email_body";
+      let rendered = renderTemplate(templates[channel], variables, { html });
+
+      if (isTest && !html) rendered = `[TEST] ${rendered}`;
+
+      if (unsubscribeUrl && channel !== "email_subject") {
+        rendered = addUnsubscribeFooter(
+          rendered,
+          unsubscribeUrl,
+          preferences.language,
+          { html }
+        );
+      }
+
+      return [channel, rendered];
+    })
+  );
+}
+
+// Render an alert with the user's templates. Falls back to the English
+// defaults when they can't be loaded, so the alert still goes out.
+async function renderAlert(templateChannels, { userId, ...alert }) {
+  let preferences;
+  let templates;
+
+  try {
+    preferences = await getNotificationPreferences(userId);
+    templates = await getTemplates(userId, preferences.language);
+  } catch (error) {
+    console.error("Error loading notification templates:", error);
+    preferences = DEFAULT_NOTIFICATION_PREFERENCES;
+    templates = DEFAULT_TEMPLATES[preferences.language];
+  }
+
+  return renderAlertTemplates(templates, preferences, templateChannels, alert);
+}
+
+function validateTemplateTarget(language, channel) {
+  if (!TEMPLATE_LANGUAGES.includes(language)) {
+    return `Language must be one of: ${TEMPLATE_LANGUAGES.join(", ")}`;
+  }
+
+  if (!TEMPLATE_CHANNELS.includes(channel)) {
+    return `Template channel must be one of: ${TEMPLATE_CHANNELS.join(", ")}`;
+  }
+
+  return null;
+}
+
+function validateTemplateBody(body) {
+  if (typeof body !== "string" || !body.trim()) {
+    return "Template body is required";
+  }
+
+  if (body.length > MAX_TEMPLATE_LENGTH) {
+    return `Template body must be at most ${MAX_TEMPLATE_LENGTH} characters`;
+  }
+
+  const unknown = findUnknownVariables(body);
+  if (unknown.length > 0) {
+    return `Unknown template variables: ${unknown.join(", ")}`;
+  }
+
+  return null;
+}
+
+function formatTemplate(language, channel, body) {
+  const defaultBody = DEFAULT_TEMPLATES[language][channel];
+
+  return {
+    language,
+    channel,
+    body: body ?? defaultBody,
+    isDefault: body === undefined || body === null,
+    defaultBody,
+  };
+}
+
+// SMS templates are checked against the sample alert, since the length
+// depends on the rendered text
+async function getSmsCheck(userId, language, channel, body) {
+  if (channel !== "sms") return null;
+
+  const preferences = await getNotificationPreferences(userId);
+  const { sms } = renderAlertTemplates(
+    { sms: body },
+    { ...preferences, language },
+    ["sms"],
+    {
+      videoInfo: PREVIEW_VIDEO_INFO,
+      alertLevel: "warning",
+      unsubscribeUrl: getUnsubscribeUrl(
+        PREVIEW_VERIFICATION_ID,
+        PREVIEW_VIDEO_INFO.id
+      ),
+    }
+  );
+
+  return checkSmsLength(sms);
+}
+
+app.get(
+  "/api/notification-preferences",
+  authenticateToken,
+  async (req, res) => {
+    try {
+      const preferences = await getNotificationPreferences(req.user.id);
+
+      res.json({
+        language: preferences.language,
+        timeZone: preferences.time_zone,
+      });
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      res
+        .status(500)
+        .json({ error: "Failed to fetch notification preferences" });
+    }
+  }
+);
+
+app.put(
+  "/api/notification-preferences",
+  authenticateToken,
+  async (req, res) => {
+    try {
+      const { language, timeZone } = req.body;
+
+      if (!TEMPLATE_LANGUAGES.includes(language)) {
+        return res.status(400).json({
+          error: `Language must be one of: ${TEMPLATE_LANGUAGES.join(", ")}`,
+        });
+      }
+
+      if (!isValidTimeZone(timeZone)) {
+        return res.status(400).json({ error: "Invalid time zone" });
+      }
+
+      const { data, error } = await supabase
+        .from("notification_preferences")
+        .upsert(
+          {
+            user_id: req.user.id,
+            language,
+            time_zone: timeZone,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: "user_id" }
+        )
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      res.json({ language: data.language, timeZone: data.time_zone });
+    } catch (error) {
+      console.error("Error saving notification preferences:", error);
+      res
+        .status(500)
+        .json({ error: "Failed to save notification preferences" });
+    }
+  }
+);
+
+// Every template of every language, customized or default
+app.get(
+  "/api/notification-templates",
+  authenticateToken,
+  async (req, res) => {
+    try {
+      const { data, error } = await supabase
+        .from("notification_templates")
+        .select("language, channel, body")
+        .eq("user_id", req.user.id);
+
+      if (error) throw error;
+
+      const templates = TEMPLATE_LANGUAGES.flatMap((language) =>
+        TEMPLATE_CHANNELS.map((channel) =>
+          formatTemplate(
+            language,
+            channel,
+            data.find(
+              (row) => row.language === language && row.channel === channel
+            )?.body
+          )
+        )
+      );
+
+      res.json({ variables: TEMPLATE_VARIABLES, templates });
+    } catch (error) {
+      console.error("Error fetching notification templates:", error);
+      res.status(500).json({ error: "Failed to fetch notification templates" });
+    }
+  }
+);
+
+// Render a template, saved or not, for the sample alert
+app.post(
+  "/api/notification-templates/preview",
+  authenticateToken,
+  async (req, res) => {
+    try {
+      const { language, channel, body, alertLevel = "warning" } = req.body;
+
+      const targetError = validateTemplateTarget(language, channel);
+      if (targetError) {
+        return res.status(400).json({ error: targetError });
+      }
+
+      if (!["warning", "emergency", "recovery"].includes(alertLevel)) {
+        return res.status(400).json({ error: "Invalid alert level" });
+      }
+
+      if (body !== undefined) {
+        const bodyError = validateTemplateBody(body);
+        if (bodyError) {
+          return res.status(400).json({ error: bodyError });
+        }
+      }
+
+      const preferences = await getNotificationPreferences(req.user.id);
+      const templates = await getTemplates(req.user.id, language);
+      const { [channel]: rendered } = renderAlertTemplates(
+        { ...templates, ...(body !== undefined && { [channel]: body }) },
+        { ...preferences, language },
+        [channel],
+        {
+          videoInfo: {
+            ...PREVIEW_VIDEO_INFO,
+            acknowledgeUrl:
+              alertLevel === "recovery"
+                ? null
+                : PREVIEW_VIDEO_INFO.acknowledgeUrl,
+          },
+          alertLevel,
+          unsubscribeUrl: PREVIEW_UNSUBSCRIBE_CHANNELS.includes(channel)
+            ? getUnsubscribeUrl(PREVIEW_VERIFICATION_ID, PREVIEW_VIDEO_INFO.id)
+            : null,
+        }
+      );
+
+      res.json({
+        rendered,
+        sms: channel === "sms" ? checkSmsLength(rendered) : null,
+      });
+    } catch (error) {
+      console.error("Error previewing notification template:", error);
+      res
+        .status(500)
+        .json({ error: "Failed to preview notification template" });
+    }
+  }
+);
+
+app.put(
+  "/api/notification-templates/:language/:channel",
+  authenticateToken,
+  async (req, res) => {
+    try {
+      const { language, channel } = req.params;
+      const { body } = req.body;
+
+      const validationError =
+        validateTemplateTarget(language, channel) ||
+        validateTemplateBody(body);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const { data, error } = await supabase
+        .from("notification_templates")
+        .upsert(
+          {
+            user_id: req.user.id,
+            language,
+            channel,
+            body,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: "user_id,language,channel" }
+        )
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      res.json({
+        ...formatTemplate(language, channel, data.body),
+        sms: await getSmsCheck(req.user.id, language, channel, data.body),
+      });
+    } catch (error) {
+      console.error("Error saving notification template:", error);
+      res.status(500).json({ error: "Failed to save notification template" });
+    }
+  }
+);
+
+// Go back to the default template
+app.delete(
+  "/api/notification-templates/:language/:channel",
+  authenticateToken,
+  async (req, res) => {
+    try {
+      const { language, channel } = req.params;
+
+      const targetError = validateTemplateTarget(language, channel);
+      if (targetError) {
+        return res.status(400).json({ error: targetError });
+      }
+
+      const { error } = await supabase
+        .from("notification_templates")
+        .delete()
+        .eq("user_id", req.user.id)
+        .eq("language", language)
+        .eq("channel", channel);
+
+      if (error) throw error;
+
+      res.json(formatTemplate(language, channel, null));
+    } catch (error) {
+      console.error("Error resetting notification template:", error);
+      res
+        .status(500)
+        .json({ error: "Failed to reset notification template" });
+    }
+  }
+);
+
+// Digest reports: a daily or weekly summary email of every video
+
+const DEFAULT_DIGEST_SETTINGS = {
+  frequency: "off",
+  recipients: [],
+  send_hour: 8,
+  weekly_day: 1,
+  time_zone: "Asia/Ho_Chi_Minh",
+  next_send_at: null,
+  last_sent_at: null,
+  last_error: null,
+};
+
+const MAX_DIGEST_RECIPIENTS = 20;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function formatDigestSettings(digestSettings) {
+  return {
+    frequency: digestSettings.frequency,
+    recipients: digestSettings.recipients,
+    sendHour: digestSettings.send_hour,
+    weeklyDay: digestSettings.weekly_day,
+    timeZone: digestSettings.time_zone,
+    nextSendAt: digestSettings.next_send_at,
+    lastSentAt: digestSettings.last_sent_at,
+    lastError: digestSettings.last_error,
+  };
+}
+
+async function getDigestSettings(userId) {
+  const { data, error } = await supabase
+    .from("digest_settings")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data || { ...DEFAULT_DIGEST_SETTINGS, user_id: userId };
+}
+
+// Alerts logged for the videos during the period, excluding tests and
+// alerts held back by the cooldown
+async function getDigestNotifications(videoIds, period) {
+  const PAGE_SIZE = 1000;
+  const rows = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("notifications_log")
+      .select(
+        "video_id, alert_level, incident_id, escalation_step, views_per_minute, threshold"
+      )
+      .in("video_id", videoIds)
+      .in("alert_level", ["warning", "emergency"])
+      .eq("is_test", false)
+      .neq("status", "suppressed")
+      .gte("timestamp", period.since.toISOString())
+      .lt("timestamp", period.until.toISOString())
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    rows.push(...data);
+    if (data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// Render a user's digest for the period ending at `until`. A digest that is
+// off is previewed and sent as a daily one.
+async function buildDigest(digestSettings, until) {
+  const frequency =
+    digestSettings.frequency === "weekly" ? "weekly" : "daily";
+  const period = getDigestPeriod(frequency, until);
+
+  const { data: videos, error } = await supabase
+    .from("videos")
+    .select("id, title, status")
+    .eq("user_id", digestSettings.user_id)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+
+  const videoIds = videos.map((video) => video.id);
+
+  const { data: incidents, error: incidentsError } = await supabase
+    .from("incidents")
+    .select("video_id, level, status")
+    .in("video_id", videoIds)
+    .neq("status", "resolved");
+
+  if (incidentsError) throw incidentsError;
+
+  const alerts = countAlerts(await getDigestNotifications(videoIds, period));
+  const summaries = [];
+
+  for (const video of videos) {
+    const { data: buckets, error: bucketsError } = await supabase.rpc(
+      "video_digest_buckets",
+      {
+        p_video_id: video.id,
+        p_since: period.since.toISOString(),
+        p_until: period.until.toISOString(),
+        p_buckets: DIGEST_BUCKETS[frequency],
+      }
+    );
+
+    if (bucketsError) throw bucketsError;
+
+    summaries.push({
+      ...video,
+      ...summarizeBuckets(buckets, DIGEST_BUCKETS[frequency]),
+      alerts: alerts.get(video.id) || { warning: 0, emergency: 0 },
+      incident:
+        incidents.find((incident) => incident.video_id === video.id) || null,
+    });
+  }
+
+  return renderDigest({
+    frequency,
+    period,
+    timeZone: digestSettings.time_zone,
+    videos: summaries,
+    dashboardUrl: DASHBOARD_URL,
+  });
+}
+
+// Email the digest to each recipient who confirmed they want emails from the
+// user and hasn't unsubscribed from all of them, with the link to
+// unsubscribe. Returns the recipients the email provider did not accept and
+// the ones that were skipped, with the reason.
+async function sendDigest(digestSettings, until) {
+  const digest = await buildDigest(digestSettings, until);
+  const { language } = await getNotificationPreferences(
+    digestSettings.user_id
+  );
+  const rejected = [];
+  const blocked = [];
+
+  // Recipients added before digests needed a confirmation are asked now
+  await requestVerifications(digestSettings.user_id, {
+    emails: digestSettings.recipients,
+  });
+
+  for (const recipient of digestSettings.recipients) {
+    try {
+      const access = await checkRecipientAccess(
+        digestSettings.user_id,
+        "email",
+        recipient,
+        null
+      );
+
+      if (access.blocked) {
+        blocked.push(`${recipient} (${access.blocked})`);
+        continue;
+      }
+
+      const result = await notificationChannels.email.send({
+        to: recipient,
+        subject: digest.subject,
+        text: addUnsubscribeFooter(
+          digest.text,
+          access.unsubscribeUrl,
+          language
+        ),
+        html: addUnsubscribeFooter(
+          digest.html,
+          access.unsubscribeUrl,
+          language,
+          { html: true }
+        ),
+      });
+
+      if (!result.accepted) {
+        rejected.push(`${recipient} (${result.error})`);
+      }
+    } catch (error) {
+      console.error(`Error sending digest to ${recipient}:`, error);
+      rejected.push(`${recipient} (${error.message})`);
+    }
+  }
+
+  console.log(
+    `Sent digest of user ${digestSettings.user_id} to ${
+      digestSettings.recipients.length - rejected.length - blocked.length
+    } of ${digestSettings.recipients.length} recipients`
+  );
+
+  return { rejected, blocked };
+}
+
+app.get("/api/digest-settings", authenticateToken, async (req, res) => {
+  try {
+    res.json(formatDigestSettings(await getDigestSettings(req.user.id)));
+  } catch (error) {
+    console.error("Error fetching digest settings:", error);
+    res.status(500).json({ error: "Failed to fetch digest settings" });
+  }
+});
+
+app.put("/api/digest-settings", authenticateToken, async (req, res) => {
+  try {
+    const {
+      frequency,
+      recipients = [],
+      sendHour = DEFAULT_DIGEST_SETTINGS.send_hour,
+      weeklyDay = DEFAULT_DIGEST_SETTINGS.weekly_day,
+      timeZone = DEFAULT_DIGEST_SETTINGS.time_zone,
+    } = req.body;
+
+    if (!DIGEST_FREQUENCIES.includes(frequency)) {
+      return res.status(400).json({
+        error: `Frequency must be one of: ${DIGEST_FREQUENCIES.join(", ")}`,
+      });
+    }
+
+    if (
+      !Array.isArray(recipients) ||
+      recipients.length > MAX_DIGEST_RECIPIENTS ||
+      !recipients.every(
+        (recipient) =>
+          typeof recipient === "string" && EMAIL_PATTERN.test(recipient)
+      )
+    ) {
+      return res.status(400).json({
+        error: `Recipients must be up to ${MAX_DIGEST_RECIPIENTS} email addresses`,
+      });
+    }
+
+    if (frequency !== "off" && recipients.length === 0) {
+      return res
+        .status(400)
+        .json({ error: "Add at least one recipient to send digests" });
+    }
+
+    if (!Number.isInteger(sendHour) || sendHour < 0 || sendHour > 23) {
+      return res
+        .status(400)
+        .json({ error: "Send hour must be a whole hour from 0 to 23" });
+    }
+
+    if (!Number.isInteger(weeklyDay) || weeklyDay < 0 || weeklyDay > 6) {
+      return res
+        .status(400)
+        .json({ error: "Weekly day must be from 0 (Sunday) to 6" });
+    }
+
+    if (!isValidTimeZone(timeZone)) {
+      return res.status(400).json({ error: "Invalid time zone" });
+    }
+
+    const digestSettings = {
+      user_id: req.user.id,
+      frequency,
+      recipients: [...new Set(recipients.map((recipient) => recipient.trim()))],
+      send_hour: sendHour,
+      weekly_day: weeklyDay,
+      time_zone: timeZone,
+    };
+    const nextSendAt = getNextDigestAt(digestSettings);
+
+    const { data, error } = await supabase
+      .from("digest_settings")
+      .upsert(
+        {
+          ...digestSettings,
+          next_send_at: nextSendAt ? nextSendAt.toISOString() : null,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "user_id" }
+      )
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    // New recipients are asked to confirm before they get a digest
+    await requestVerifications(req.user.id, {
+      emails: digestSettings.recipients,
+    });
+
+    res.json(formatDigestSettings(data));
+  } catch (error) {
+    console.error("Error saving digest settings:", error);
+    res.status(500).json({ error: "Failed to save digest settings" });
+  }
+});
+
+// The digest as it would be sent now
+app.get(
+  "/api/digest-settings/preview",
+  authenticateToken,
+  async (req, res) => {
+    try {
+      const digestSettings = await getDigestSettings(req.user.id);
+      const { subject, html } = await buildDigest(digestSettings, new Date());
+
+      res.json({ subject, html });
+    } catch (error) {
+      console.error("Error previewing digest:", error);
+      res.status(500).json({ error: "Failed to preview digest" });
+    }
+  }
+);
+
+// Send the digest now, without moving the next scheduled one
+app.post("/api/digest-settings/send", authenticateToken, async (req, res) => {
+  try {
+    const digestSettings = await getDigestSettings(req.user.id);
+
+    if (digestSettings.recipients.length === 0) {
+      return res.status(400).json({ error: "The digest has no recipients" });
+    }
+
+    const { rejected, blocked } = await sendDigest(
+      digestSettings,
+      new Date()
+    );
+
+    if (rejected.length > 0) {
+      return res
+        .status(502)
+        .json({ error: `Provider did not accept: ${rejected.join(", ")}` });
+    }
+
+    if (blocked.length > 0) {
+      return res.status(409).json({ error: `Not sent: ${blocked.join(", ")}` });
+    }
+
+    res.json({ message: "Digest sent successfully" });
+  } catch (error) {
+    console.error("Error sending digest:", error);
+    res.status(500).json({ error: "Failed to send digest" });
+  }
+});
+
+// Data retention: raw view samples are rolled up hourly and daily, then
+// deleted after the number of days admins set
+
+async function getRetentionSettings() {
+  const { data, error } = await supabase
+    .from("retention_settings")
+    .select("*")
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data || DEFAULT_RETENTION_SETTINGS;
+}
+
+function formatRetentionSettings(retentionSettings, user) {
+  return {
+    rawRetentionDays: retentionSettings.raw_retention_days,
+    hourlyRetentionDays: retentionSettings.hourly_retention_days,
+    rolledUpUntil: retentionSettings.rolled_up_until,
+    nextRunAt: retentionSettings.next_run_at,
+    lastRunAt: retentionSettings.last_run_at,
+    lastError: retentionSettings.last_error,
+    lastDeletedRaw: retentionSettings.last_deleted_raw,
+    lastDeletedHourly: retentionSettings.last_deleted_hourly,
+    updatedAt: retentionSettings.updated_at,
+    canEdit: isAdmin(user),
+  };
+}
+
+// Roll up the complete hours since the last run, then prune. Raw samples
+// are only deleted once they are rolled up.
+async function runRetention(retentionSettings, now) {
+  const until = startOfHour(now);
+  let since = retentionSettings.rolled_up_until
+    ? new Date(retentionSettings.rolled_up_until)
+    : null;
+
+  if (!since) {
+    const { data: oldest, error } = await supabase
+      .from("video_views")
+      .select("timestamp")
+      .order("timestamp", { ascending: true })
+      .limit(1);
+
+    if (error) throw error;
+
+    since =
+      oldest.length > 0 ? startOfHour(new Date(oldest[0].timestamp)) : until;
+  }
+
+  while (since < until) {
+    const chunkUntil = new Date(
+      Math.min(since.getTime() + ROLLUP_CHUNK_MS, until.getTime())
+    );
+
+    const { error } = await supabase.rpc("rollup_video_views", {
+      p_since: since.toISOString(),
+      p_until: chunkUntil.toISOString(),
+    });
+
+    if (error) throw error;
+
+    const { error: progressError } = await supabase
+      .from("retention_settings")
+      .update({ rolled_up_until: chunkUntil.toISOString() })
+      .eq("id", true);
+
+    if (progressError) throw progressError;
+
+    since = chunkUntil;
+  }
+
+  const { rawSince, hourlySince } = getRetentionCutoffs(
+    retentionSettings,
+    now
+  );
+
+  const { data, error } = await supabase.rpc("prune_video_views", {
+    p_raw_before: new Date(Math.min(rawSince, until)).toISOString(),
+    p_hourly_before: hourlySince.toISOString(),
+  });
+
+  if (error) throw error;
+
+  const [{ raw_deleted: rawDeleted, hourly_deleted: hourlyDeleted }] = data;
+
+  // Every instance records a run per tick, and only recent ones are shown
+  const { count: runsDeleted, error: runsError } = await supabase
+    .from("scheduler_runs")
+    .delete({ count: "exact" })
+    .lt(
+      "started_at",
+      new Date(
+        now.getTime() - SCHEDULER_RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000
+      ).toISOString()
+    );
+
+  if (runsError) throw runsError;
+
+  console.log(
+    `Retention: rolled up to ${until.toISOString()}, deleted ${rawDeleted} raw samples, ${hourlyDeleted} hourly rollups and ${runsDeleted} scheduler runs`
+  );
+
+  return { rawDeleted, hourlyDeleted };
+}
+
+app.get("/api/retention-settings", authenticateToken, async (req, res) => {
+  try {
+    res.json(formatRetentionSettings(await getRetentionSettings(), req.user));
+  } catch (error) {
+    console.error("Error fetching retention settings:", error);
+    res.status(500).json({ error: "Failed to fetch retention settings" });
+  }
+});
+
+app.put(
+  "/api/retention-settings",
+  authenticateToken,
+  requireAdmin,
+  async (req, res) => {
+    try {
+      const { rawRetentionDays, hourlyRetentionDays } = req.body;
+
+      const settingsError = validateRetentionSettings({
+        rawRetentionDays,
+        hourlyRetentionDays,
+      });
+      if (settingsError) {
+        return res.status(400).json({ error: settingsError });
+      }
+
+      const { data, error } = await supabase
+        .from("retention_settings")
+        .upsert({
+          id: true,
+          raw_retention_days: rawRetentionDays,
+          hourly_retention_days: hourlyRetentionDays,
+          updated_at: new Date().toISOString(),
+          updated_by: req.user.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      res.json(formatRetentionSettings(data, req.user));
+    } catch (error) {
+      console.error("Error updating retention settings:", error);
+      res.status(500).json({ error: "Failed to update retention settings" });
+    }
+  }
+);
+
+// Filters of the notification history, as query parameters and the
+// notifications_log columns they match. "all" or an empty value is no filter.
+const NOTIFICATION_FILTERS = {
+  type: "type",
+  status: "status",
+  alertLevel: "alert_level",
+  videoId: "video_id",
+};
+
+// Columns the free-text search `q` looks in
+const NOTIFICATION_SEARCH_COLUMNS = [
+  "video_title",
+  "recipient",
+  "message",
+  "delivery_note",
+];
+
+const DEFAULT_NOTIFICATION_PAGE_SIZE = 50;
+const MAX_NOTIFICATION_PAGE_SIZE = 200;
+
+// A value for a PostgREST logic filter, quoted so commas and parentheses in
+// it are not read as syntax
+function quoteFilterValue(value) {
+  return `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+// An ilike pattern matching `text` anywhere, with the LIKE wildcards in it
+// matched literally
+function containsPattern(text) {
+  return `*${text.replace(/[\\%_]/g, "\\$&")}*`;
+}
+
+// Narrow a notifications_log query by the filters, the recipient and
+// free-text search, an optional from/to range and `conditions`, extra
+// PostgREST "or" filters that must all hold. Returns the query, or an error
+// message.
+function applyNotificationFilters(query, params, conditions = []) {
+  let filtered = query;
+
+  for (const [param, column] of Object.entries(NOTIFICATION_FILTERS)) {
+    const value = params[param];
+    if (value && value !== "all") {
+      filtered = filtered.eq(column, value);
+    }
+  }
+
+  const recipient =
+    typeof params.recipient === "string" ? params.recipient.trim() : "";
+  if (recipient) {
+    filtered = filtered.ilike("recipient", containsPattern(recipient));
+  }
+
+  const from = params.from ? new Date(params.from) : null;
+  const to = params.to ? new Date(params.to) : null;
+
+  if ((from && isNaN(from)) || (to && isNaN(to))) {
+    return { error: "from and to must be ISO 8601 dates" };
+  }
+
+  if (from) filtered = filtered.gte("timestamp", from.toISOString());
+  if (to) filtered = filtered.lt("timestamp", to.toISOString());
+
+  const search = typeof params.q === "string" ? params.q.trim() : "";
+  const orFilters = [...conditions];
+  if (search) {
+    const pattern = quoteFilterValue(containsPattern(search));
+    orFilters.push(
+      NOTIFICATION_SEARCH_COLUMNS.map(
+        (column) => `${column}.ilike.${pattern}`
+      ).join(",")
+    );
+  }
+
+  // One "or" parameter per query, so several are nested in an "and"
+  if (orFilters.length === 1) {
+    filtered = filtered.or(orFilters[0]);
+  } else if (orFilters.length > 1) {
+    filtered = filtered.or(
+      `and(${orFilters.map((orFilter) => `or(${orFilter})`).join(",")})`
+    );
+  }
+
+  return { query: filtered };
+}
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// The history is paged newest first by (timestamp, id); a cursor is the
+// position of the last row of a page
+function encodeNotificationCursor(row) {
+  return Buffer.from(`${row.timestamp}|${row.id}`).toString("base64url");
+}
+
+function decodeNotificationCursor(cursor) {
+  const [timestamp, id] = Buffer.from(cursor, "base64url")
+    .toString()
+    .split("|");
+
+  if (!timestamp || isNaN(new Date(timestamp)) || !UUID_PATTERN.test(id)) {
+    return null;
+  }
+
+  return { timestamp, id };
+}
+
+// Filter for the rows after a cursor position, newest first
+function getNotificationCursorCondition(cursor) {
+  const timestamp = quoteFilterValue(cursor.timestamp);
+  return `timestamp.lt.${timestamp},and(timestamp.eq.${timestamp},id.lt.${cursor.id})`;
+}
+
+function formatNotification(notification) {
+  return {
+    id: notification.id,
+    videoId: notification.video_id,
+    videoTitle: notification.video_title,
+    type: notification.type,
+    recipient: notification.recipient,
+    alertLevel: notification.alert_level,
+    message: notification.message,
+    status: notification.status,
+    deliveryNote: notification.delivery_note,
+    attempts: notification.attempts,
+    timestamp: notification.timestamp,
+    viewsPerMinute: notification.views_per_minute,
+    threshold: notification.threshold,
+    isTest: notification.is_test,
+    incidentId: notification.incident_id,
+    escalationStep: notification.escalation_step,
+  };
+}
+
+app.get("/api/notifications/history", authenticateToken, async (req, res) => {
+  try {
+    const limit =
+      req.query.limit === undefined
+        ? DEFAULT_NOTIFICATION_PAGE_SIZE
+        : Number(req.query.limit);
+
+    if (
+      !Number.isInteger(limit) ||
+      limit < 1 ||
+      limit > MAX_NOTIFICATION_PAGE_SIZE
+    ) {
+      return res.status(400).json({
+        error: `limit must be an integer from 1 to ${MAX_NOTIFICATION_PAGE_SIZE}`,
+      });
+    }
+
+    const conditions = [];
+    if (req.query.cursor) {
+      const cursor = decodeNotificationCursor(String(req.query.cursor));
+      if (!cursor) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+
+      conditions.push(getNotificationCursorCondition(cursor));
+    }
+
+    // Every log row carries its user, including tests sent before the video
+    // was tracked, which have no video
+    const filtered = applyNotificationFilters(
+      supabase
+        .from("notifications_log")
+        .select("*")
+        .eq("user_id", req.user.id),
+      req.query,
+      conditions
+    );
+
+    if (filtered.error) {
+      return res.status(400).json({ error: filtered.error });
+    }
+
+    // One row past the page tells whether there is another page
+    const { data, error } = await filtered.query
+      .order("timestamp", { ascending: false })
+      .order("id", { ascending: false })
+      .limit(limit + 1);
+
+    if (error) throw error;
+
+    const items = data.slice(0, limit);
+
+    res.json({
+      items: items.map(formatNotification),
+      nextCursor:
+        data.length > limit
+          ? encodeNotificationCursor(items[items.length - 1])
+          : null,
+    });
+  } catch (error) {
+    console.error("Error fetching notification history:", error);
+    res.status(500).json({ error: "Failed to fetch notification history" });
+  }
+});
+
+const NOTIFICATION_EXPORT_COLUMNS = [
+  { key: "timestamp", value: (row) => row.timestamp },
+  { key: "videoId", value: (row) => row.video_id },
+  { key: "videoTitle", value: (row) => row.video_title },
+  { key: "type", value: (row) => row.type },
+  { key: "recipient", value: (row) => row.recipient },
+  { key: "alertLevel", value: (row) => row.alert_level },
+  { key: "status", value: (row) => row.status },
+  { key: "viewsPerMinute", value: (row) => row.views_per_minute },
+  { key: "threshold", value: (row) => row.threshold },
+  { key: "attempts", value: (row) => row.attempts },
+  { key: "deliveryNote", value: (row) => row.delivery_note },
+  { key: "message", value: (row) => row.message },
+  { key: "isTest", value: (row) => row.is_test },
+  { key: "incidentId", value: (row) => row.incident_id },
+  { key: "escalationStep", value: (row) => row.escalation_step },
+];
+
+app.get("/api/notifications/export", authenticateToken, async (req, res) => {
+  try {
+    const format = parseExportFormat(req.query.format);
+    if (!format) {
+      return res.status(400).json({
+        error: `Invalid format. Must be one of ${EXPORT_FORMATS.join(", ")}`,
+      });
+    }
+
+    const buildQuery = (conditions) =>
+      applyNotificationFilters(
+        supabase
+          .from("notifications_log")
+          .select("*")
+          .eq("user_id", req.user.id)
+          .order("timestamp", { ascending: false })
+          .order("id", { ascending: false }),
+        req.query,
+        conditions
+      );
+
+    const filtered = buildQuery();
+    if (filtered.error) {
+      return res.status(400).json({ error: filtered.error });
+    }
+
+    // Paged by position like the history rather than by offset, so
+    // notifications logged during the export don't shift the pages
+    async function* pages() {
+      let last = null;
+
+      for (;;) {
+        const { data, error } = await buildQuery(
+          last ? [getNotificationCursorCondition(last)] : []
+        ).query.limit(EXPORT_PAGE_SIZE);
+
+        if (error) throw error;
+        if (data.length > 0) yield data;
+        if (data.length < EXPORT_PAGE_SIZE) return;
+
+        last = data[data.length - 1];
+      }
+    }
+
+    await sendExport(
+      res,
+      {
+        format,
+        filename: `notifications-${new Date().toISOString().slice(0, 10)}`,
+        columns: NOTIFICATION_EXPORT_COLUMNS,
+        pages: pages(),
+      },
+      "notification history"
+    );
+  } catch (error) {
+    console.error("Error exporting notification history:", error);
+    res.status(500).json({ error: "Failed to export notification history" });
+  }
+});
+
+app.post("/api/notifications/test", authenticateToken, async (req, res) => {
+  try {
+    const { type, recipients, videoInfo } = req.body;
+
+    if (!type || !recipients || recipients.length === 0 || !videoInfo) {
+      return res.status(400).json({ error: "Missing required parameters" });
+    }
+
+    // Tests can be sent before the video is tracked; those are logged
+    // without a video. Another user's video can't be tested.
+    const { data: videoData, error: videoError } = await supabase
+      .from("videos")
+      .select("id, user_id")
+      .eq("id", videoInfo.id)
+      .maybeSingle();
+
+    if (videoError) throw videoError;
+
+    if (videoData && videoData.user_id !== req.user.id) {
+      return res
+        .status(404)
+        .json({ error: "Video not found or you do not have permission" });
+    }
+
+    const videoId = videoData ? videoData.id : null;
+
+    const channel = ALERT_CHANNELS.find((channel) => channel.type === type);
+
+    if (!channel) {
+      return res
+        .status(400)
+        .json({ error: `Invalid notification type: ${type}` });
+    }
+
+    const validationError = validateNotifications({
+      [channel.recipientsKey]: recipients,
+    });
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const rejected = [];
+    const blocked = [];
+    const confirmationsSent = [];
+
+    for (const recipient of recipients) {
+      // Unconfirmed recipients are asked to confirm instead of being sent the
+      // test
+      const access = await checkRecipientAccess(
+        req.user.id,
+        type,
+        recipient,
+        videoId
+      );
+
+      if (access.unconfirmed) {
+        try {
+          await requestVerification(req.user.id, type, recipient);
+          confirmationsSent.push(recipient);
+        } catch (verificationError) {
+          rejected.push(`${recipient} (${verificationError.message})`);
+        }
+        continue;
+      }
+
+      if (access.blocked) {
+        blocked.push(`${recipient} (${access.blocked})`);
+        continue;
+      }
+
+      const result = await channel.send({
+        to: recipient,
+        videoInfo,
+        alertLevel: "warning",
+        isTest: true,
+        userId: req.user.id,
+        unsubscribeUrl: access.unsubscribeUrl,
+      });
+
+      const { error: logError } = await supabase
+        .from("notifications_log")
+        .insert({
+          video_id: videoId,
+          video_title: videoInfo.title,
+          type,
+          recipient,
+          alert_level: "warning",
+          message: `Test ${type} notification for ${videoInfo.title}`,
+          status: result.status,
+          delivery_note: result.note,
+          provider_message_id: result.providerMessageId || null,
+          attempts: 1,
+          is_test: true,
+          timestamp: new Date().toISOString(),
+          views_per_minute: videoInfo.viewsPerMinute || 0,
+          threshold: 100,
+          user_id: req.user.id, // Add user_id to associate notification with user
+        });
+
+      if (logError) {
+        console.error("Error logging test notification:", logError);
+      }
+
+      if (result.status === "failed") {
+        rejected.push(`${recipient} (${result.note})`);
+      }
+    }
+
+    if (rejected.length > 0) {
+      return res
+        .status(502)
+        .json({ error: `Provider did not accept: ${rejected.join(", ")}` });
+    }
+
+    if (blocked.length > 0) {
+      return res.status(409).json({ error: `Not sent: ${blocked.join(", ")}` });
+    }
+
+    res.status(200).json({
+      message:
+        confirmationsSent.length > 0
+          ? `Asked ${confirmationsSent.join(
+              ", "
+            )} to confirm first; alerts go out once they do`
+          : "Test notification sent successfully",
+      confirmationsSent,
+    });
+  } catch (error) {
+    console.error("Error sending test notification:", error);
+    res.status(500).json({ error: "Failed to send test notification" });
+  }
+});
+
+// Hand a message to a channel provider. Only a message the provider accepted
+// counts as delivered; otherwise its reason is kept in the delivery note.
+async function deliverMessage(channel, message, quietHours) {
+  try {
+    const result = await channel.send(message);
+
+    return {
+      status: result.accepted ? "delivered" : "failed",
+      note: [quietHours.note, result.error].filter(Boolean).join("; ") || null,
+      providerMessageId: result.providerMessageId,
+      message: message.subject || message.text,
+    };
+  } catch (error) {
+    console.error(`Error sending ${channel.type} notification:`, error);
+
+    return {
+      status: "failed",
+      note: [quietHours.note, error.message].filter(Boolean).join("; "),
+      providerMessageId: null,
+      message: message.subject || message.text,
+    };
+  }
+}
+
+async function sendEmailNotification({
+  to,
+  videoInfo,
+  alertLevel,
+  isTest = false,
+  userId,
+  heldAlerts = [],
+  unsubscribeUrl = null,
+}) {
+  const quietHours = await checkQuietHours({
+    type: "email",
+    to,
+    alertLevel,
+    userId,
+    isTest,
+  });
+
+  if (quietHours.hold) {
+    console.log(
+      `[EMAIL] Holding ${alertLevel} alert to ${to}: ${quietHours.note}`
+    );
+    return { status: "held", note: quietHours.note };
+  }
+
+  console.log(
+    `[${
+      isTest ? "TEST " : ""
+    }EMAIL] Sending ${alertLevel} alert to ${to} for video: ${
+      videoInfo.title
+    } (User: ${userId})${
+      heldAlerts.length > 0 ? ` with ${heldAlerts.length} held alerts` : ""
+    }`
+  );
+
+  const message = await renderAlert(["email_subject", "email_body", "chat"], {
+    userId,
+    videoInfo,
+    alertLevel,
+    isTest,
+    heldAlerts,
+    unsubscribeUrl,
+  });
+
+  return deliverMessage(
+    notificationChannels.email,
+    {
+      to,
+      subject: message.email_subject,
+      text: message.chat,
+      html: message.email_body,
+    },
+    quietHours
+  );
+}
+
+async function sendZaloNotification({
+  to,
+  videoInfo,
+  alertLevel,
+  isTest = false,
+  userId,
+  heldAlerts = [],
+}) {
+  const quietHours = await checkQuietHours({
+    type: "zalo",
+    to,
+    alertLevel,
+    userId,
+    isTest,
+  });
+
+  if (quietHours.hold) {
+    console.log(
+      `[ZALO] Holding ${alertLevel} alert to ${to}: ${quietHours.note}`
+    );
+    return { status: "held", note: quietHours.note };
+  }
+
+  console.log(
+    `[${
+      isTest ? "TEST " : ""
+    }ZALO] Sending ${alertLevel} alert to ${to} for video: ${
+      videoInfo.title
+    } (User: ${userId})${
+      heldAlerts.length > 0 ? ` with ${heldAlerts.length} held alerts` : ""
+    }`
+  );
+
+  const message = await renderAlert(["zalo"], {
+    userId,
+    videoInfo,
+    alertLevel,
+    isTest,
+    heldAlerts,
+  });
+
+  return deliverMessage(
+    notificationChannels.zalo,
+    { to, text: message.zalo },
+    quietHours
+  );
+}
+
+async function sendSmsNotification({
+  to,
+  videoInfo,
+  alertLevel,
   isTest = false,
   userId,
+  heldAlerts = [],
+  unsubscribeUrl = null,
+}) {
+  const quietHours = await checkQuietHours({
+    type: "sms",
+    to,
+    alertLevel,
+    userId,
+    isTest,
+  });
+
+  if (quietHours.hold) {
+    console.log(
+      `[SMS] Holding ${alertLevel} alert to ${to}: ${quietHours.note}`
+    );
+    return { status: "held", note: quietHours.note };
+  }
+
+  console.log(
+    `[${
+      isTest ? "TEST " : ""
+    }SMS] Sending ${alertLevel} alert to ${to} for video: ${
+      videoInfo.title
+    } (User: ${userId})${
+      heldAlerts.length > 0 ? ` with ${heldAlerts.length} held alerts` : ""
+    }`
+  );
+
+  const message = await renderAlert(["sms"], {
+    userId,
+    videoInfo,
+    alertLevel,
+    isTest,
+    heldAlerts,
+    unsubscribeUrl,
+  });
+
+  return deliverMessage(
+    notificationChannels.sms,
+    { to, text: message.sms },
+    quietHours
+  );
+}
+
+// Slack, Discord, Telegram and webhook alerts. Chat channels get the text
+// alert; webhooks get the alert as JSON.
+async function sendChatNotification(
+  type,
+  { to, videoInfo, alertLevel, isTest = false, userId, heldAlerts = [] }
+) {
+  const quietHours = await checkQuietHours({
+    type,
+    to,
+    alertLevel,
+    userId,
+    isTest,
+  });
+
+  if (quietHours.hold) {
+    console.log(
+      `[${type.toUpperCase()}] Holding ${alertLevel} alert to ${to}: ${
+        quietHours.note
+      }`
+    );
+    return { status: "held", note: quietHours.note };
+  }
+
+  console.log(
+    `[${isTest ? "TEST " : ""}${type.toUpperCase()}] Sending ${alertLevel} alert to ${to} for video: ${videoInfo.title} (User: ${userId})`
+  );
+
+  const message = await renderAlert(["chat"], {
+    userId,
+    videoInfo,
+    alertLevel,
+    isTest,
+    heldAlerts,
+  });
+
+  return deliverMessage(
+    notificationChannels[type],
+    {
+      to,
+      text: message.chat,
+      payload: {
+        event: alertLevel === "recovery" ? "recovery" : "alert",
+        alertLevel,
+        test: isTest,
+        video: {
+          id: videoInfo.id,
+          title: videoInfo.title,
+          url: `https://www.youtube.com/watch?v=${videoInfo.id}`,
+        },
+        viewsPerMinute: videoInfo.viewsPerMinute,
+        threshold: videoInfo.threshold ?? null,
+        acknowledgeUrl: videoInfo.acknowledgeUrl || null,
+        heldAlerts: heldAlerts.length,
+        sentAt: new Date().toISOString(),
+      },
+    },
+    quietHours
+  );
+}
+
+// Quiet hours: warnings and recovery notices reaching a recipient inside their
+// quiet hours are held, then sent as one batch when the window ends.
+// Emergencies go through unless the recipient's schedule holds them too.
+
+async function getRecipientSchedule(userId, type, recipient) {
+  const { data, error } = await supabase
+    .from("recipient_schedules")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("type", type)
+    .eq("recipient", recipient)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
+
+async function checkQuietHours({ type, to, alertLevel, userId, isTest }) {
+  if (isTest) return { hold: false, note: null };
+
+  try {
+    const recipientSchedule = await getRecipientSchedule(userId, type, to);
+
+    if (!recipientSchedule || !isQuietTime(recipientSchedule)) {
+      return { hold: false, note: null };
+    }
+
+    const window = describeQuietHours(recipientSchedule);
+
+    if (alertLevel === "emergency" && recipientSchedule.allow_emergencies) {
+      return {
+        hold: false,
+        note: `Emergency sent during quiet hours (${window})`,
+      };
+    }
+
+    return { hold: true, note: `Held for quiet hours (${window})` };
+  } catch (error) {
+    // An alert at night beats a lost alert
+    console.error("Error checking quiet hours:", error);
+    return { hold: false, note: null };
+  }
+}
+
+const ALERT_LEVEL_PRIORITY = ["recovery", "warning", "emergency"];
+
+// Queue one recipient's held alerts as a batch once their quiet hours are over
+// Held alerts whose incident was acknowledged or resolved during quiet hours
+// are no longer news, so they are logged as suppressed instead of sent.
+// Recovery notices still go out. Returns the rows left.
+async function dropSettledHeldAlerts(rows) {
+  const incidentIds = [
+    ...new Set(
+      rows
+        .filter((row) => row.incident_id && row.alert_level !== "recovery")
+        .map((row) => row.incident_id)
+    ),
+  ];
+  if (incidentIds.length === 0) return rows;
+
+  const { data: incidents, error } = await supabase
+    .from("incidents")
+    .select("id, status")
+    .in("id", incidentIds);
+
+  if (error) throw error;
+
+  const settled = new Map(
+    incidents
+      .filter((incident) => incident.status !== "open")
+      .map((incident) => [incident.id, incident.status])
+  );
+
+  for (const status of new Set(settled.values())) {
+    const ids = rows
+      .filter(
+        (row) =>
+          row.alert_level !== "recovery" &&
+          settled.get(row.incident_id) === status
+      )
+      .map((row) => row.id);
+
+    const { error: updateError } = await supabase
+      .from("notifications_log")
+      .update({
+        status: "suppressed",
+        delivery_note: `Incident ${status} during quiet hours`,
+      })
+      .in("id", ids)
+      .eq("status", "held");
+
+    if (updateError) throw updateError;
+
+    console.log(
+      `Dropped ${ids.length} held alerts to ${rows[0].recipient}: incident ${status}`
+    );
+  }
+
+  return rows.filter(
+    (row) => row.alert_level === "recovery" || !settled.has(row.incident_id)
+  );
+}
+
+async function releaseHeldAlerts(rows) {
+  const [{ user_id: userId, type, recipient }] = rows;
+  const channel = ALERT_CHANNELS.find((channel) => channel.type === type);
+  const recipientSchedule = await getRecipientSchedule(
+    userId,
+    type,
+    recipient
+  );
+
+  if (!channel || (recipientSchedule && isQuietTime(recipientSchedule))) {
+    return;
+  }
+
+  const pending = await dropSettledHeldAlerts(rows);
+  if (pending.length === 0) return;
+
+  // Only one instance gets to claim, and queue, each held row
+  const { data: claimed, error } = await supabase
+    .from("notifications_log")
+    .update({ status: "pending" })
+    .in("id", pending.map((row) => row.id))
+    .eq("status", "held")
+    .select();
+
+  if (error) throw error;
+  if (claimed.length === 0) return;
+
+  claimed.sort((a, b) => new Date(a.timestamp) - new Date(b.timestamp));
+  const latest = claimed[claimed.length - 1];
+  const alertLevel = claimed
+    .map((row) => row.alert_level)
+    .reduce((highest, level) =>
+      ALERT_LEVEL_PRIORITY.indexOf(level) >
+      ALERT_LEVEL_PRIORITY.indexOf(highest)
+        ? level
+        : highest
+    );
+
+  try {
+    await enqueueDelivery({
+      notificationIds: claimed.map((row) => row.id),
+      videoId: latest.video_id,
+      userId,
+      type,
+      recipient,
+      alertLevel,
+      videoInfo: {
+        id: latest.video_id,
+        title: latest.video_title,
+        viewsPerMinute: latest.views_per_minute,
+        threshold: latest.threshold,
+      },
+      heldBatch: true,
+    });
+  } catch (enqueueError) {
+    // Hold them again so the next run picks them up
+    await supabase
+      .from("notifications_log")
+      .update({ status: "held" })
+      .in("id", claimed.map((row) => row.id));
+    throw enqueueError;
+  }
+
+  console.log(
+    `Queued ${claimed.length} held ${type} alerts to ${recipient} as a batch`
+  );
+}
+
+schedule.scheduleJob("0 * * * * *", async () => {
+  try {
+    const { data: held, error } = await supabase
+      .from("notifications_log")
+      .select("*")
+      .eq("status", "held")
+      .order("timestamp", { ascending: true })
+      .limit(1000);
+
+    if (error) throw error;
+
+    const byRecipient = new Map();
+    for (const row of held) {
+      const key = `${row.user_id}:${row.type}:${row.recipient}`;
+      byRecipient.set(key, [...(byRecipient.get(key) || []), row]);
+    }
+
+    for (const rows of byRecipient.values()) {
+      try {
+        await releaseHeldAlerts(rows);
+      } catch (releaseError) {
+        console.error(
+          `Error releasing held alerts to ${rows[0].recipient}:`,
+          releaseError
+        );
+      }
+    }
+  } catch (error) {
+    console.error("Error in held alerts job:", error);
+  }
+});
+
+// Send digests that are due. Moving next_send_at on claims a digest, so
+// only one instance sends it.
+schedule.scheduleJob("30 * * * * *", async () => {
+  try {
+    const now = new Date();
+    const { data: due, error } = await supabase
+      .from("digest_settings")
+      .select("*")
+      .neq("frequency", "off")
+      .lte("next_send_at", now.toISOString());
+
+    if (error) throw error;
+
+    for (const digestSettings of due) {
+      const nextSendAt = getNextDigestAt(digestSettings, now);
+      const { data: claimed, error: claimError } = await supabase
+        .from("digest_settings")
+        .update({ next_send_at: nextSendAt ? nextSendAt.toISOString() : null })
+        .eq("user_id", digestSettings.user_id)
+        .eq("next_send_at", digestSettings.next_send_at)
+        .select();
+
+      if (claimError) throw claimError;
+      if (claimed.length === 0) continue;
+
+      let lastError = null;
+      try {
+        const { rejected, blocked } = await sendDigest(
+          digestSettings,
+          new Date(digestSettings.next_send_at)
+        );
+
+        lastError =
+          [
+            rejected.length > 0 &&
+              `Provider did not accept: ${rejected.join(", ")}`,
+            blocked.length > 0 && `Not sent: ${blocked.join(", ")}`,
+          ]
+            .filter(Boolean)
+            .join("; ") || null;
+      } catch (sendError) {
+        console.error(
+          `Error sending digest of user ${digestSettings.user_id}:`,
+          sendError
+        );
+        lastError = sendError.message;
+      }
+
+      await supabase
+        .from("digest_settings")
+        .update({ last_sent_at: now.toISOString(), last_error: lastError })
+        .eq("user_id", digestSettings.user_id);
+    }
+  } catch (error) {
+    console.error("Error in digest job:", error);
+  }
+});
+
+// Roll up and prune view samples once an hour. Moving next_run_at on claims
+// the run, so only one instance does it.
+schedule.scheduleJob("0 5 * * * *", async () => {
+  try {
+    const now = new Date();
+    const retentionSettings = await getRetentionSettings();
+
+    if (
+      retentionSettings.next_run_at &&
+      new Date(retentionSettings.next_run_at) > now
+    ) {
+      return;
+    }
+
+    const { data: claimed, error: claimError } = await supabase
+      .from("retention_settings")
+      .update({
+        next_run_at: new Date(
+          startOfHour(now).getTime() + 60 * 60 * 1000
+        ).toISOString(),
+      })
+      .eq("id", true)
+      .eq("next_run_at", retentionSettings.next_run_at)
+      .select();
+
+    if (claimError) throw claimError;
+    if (claimed.length === 0) return;
+
+    let result = { rawDeleted: null, hourlyDeleted: null };
+    let lastError = null;
+    try {
+      result = await runRetention(retentionSettings, now);
+    } catch (runError) {
+      console.error("Error applying data retention:", runError);
+      lastError = runError.message;
+    }
+
+    await supabase
+      .from("retention_settings")
+      .update({
+        last_run_at: now.toISOString(),
+        last_error: lastError,
+        last_deleted_raw: result.rawDeleted,
+        last_deleted_hourly: result.hourlyDeleted,
+      })
+      .eq("id", true);
+  } catch (error) {
+    console.error("Error in retention job:", error);
+  }
+});
+
+// Notification outbox: alerts are queued in notification_outbox and sent by a
+// dispatcher, so a slow provider never holds up polling. Failed deliveries
+// are retried with exponential backoff until they run out of attempts.
+
+const NOTIFICATION_MAX_ATTEMPTS = Number.parseInt(
+  process.env.NOTIFICATION_MAX_ATTEMPTS || "5",
+  10
+);
+const NOTIFICATION_RETRY_BASE_SECONDS = Number.parseInt(
+  process.env.NOTIFICATION_RETRY_BASE_SECONDS || "30",
+  10
+);
+const MAX_RETRY_DELAY_SECONDS = 60 * 60;
+// Deliveries claimed per round, and sent at the same time
+const OUTBOX_BATCH_SIZE = 20;
+const OUTBOX_CONCURRENCY = 4;
+// Long enough for a slow SMTP server. Deliveries claimed by an instance that
+// died are sent again once this runs out.
+const OUTBOX_LEASE_SECONDS = 5 * 60;
+
+async function enqueueDelivery({
+  notificationIds,
+  videoId,
+  userId,
+  type,
+  recipient,
+  alertLevel,
+  videoInfo,
+  heldBatch = false,
+  isTest = false,
+  attempts = 0,
+  maxAttempts = NOTIFICATION_MAX_ATTEMPTS,
 }) {
+  const { error } = await supabase.from("notification_outbox").insert({
+    notification_ids: notificationIds,
+    video_id: videoId,
+    user_id: userId,
+    type,
+    recipient,
+    alert_level: alertLevel,
+    video_info: videoInfo,
+    held_batch: heldBatch,
+    is_test: isTest,
+    attempts,
+    max_attempts: maxAttempts,
+  });
+
+  if (error) throw error;
+
+  dispatchOutbox();
+}
+
+// 30s, 1m, 2m, 4m, ... up to an hour, with some jitter so deliveries that
+// failed together during a provider outage don't all retry at once
+function getRetryDelayMs(attempts) {
+  const seconds = Math.min(
+    NOTIFICATION_RETRY_BASE_SECONDS * 2 ** (attempts - 1),
+    MAX_RETRY_DELAY_SECONDS
+  );
+
+  return seconds * 1000 * (1 + Math.random() * 0.1);
+}
+
+async function updateNotifications(ids, changes) {
+  const { error } = await supabase
+    .from("notifications_log")
+    .update(changes)
+    .in("id", ids);
+
+  if (error) throw error;
+}
+
+async function deliverOutboxItem(item) {
+  const channel = ALERT_CHANNELS.find((channel) => channel.type === item.type);
+  let heldAlerts = [];
+
+  // Checked at delivery, so retries and held batches respect an unsubscribe
+  // made after the alert was queued
+  const access = await checkRecipientAccess(
+    item.user_id,
+    item.type,
+    item.recipient,
+    item.video_id
+  );
+
+  if (access.blocked) {
+    await updateNotifications(item.notification_ids, {
+      status: "suppressed",
+      delivery_note: access.blocked,
+    });
+
+    const { error } = await supabase
+      .from("notification_outbox")
+      .delete()
+      .eq("id", item.id);
+
+    if (error) throw error;
+    return;
+  }
+
+  if (item.held_batch) {
+    const { data, error } = await supabase
+      .from("notifications_log")
+      .select("*")
+      .in("id", item.notification_ids)
+      .order("timestamp", { ascending: true });
+
+    if (error) throw error;
+    heldAlerts = data;
+  }
+
+  let result;
+  try {
+    result = channel
+      ? await channel.send({
+          to: item.recipient,
+          videoInfo: item.video_info,
+          alertLevel: item.alert_level,
+          isTest: item.is_test,
+          userId: item.user_id,
+          heldAlerts,
+          unsubscribeUrl: access.unsubscribeUrl,
+        })
+      : { status: "failed", note: `Unknown notification type: ${item.type}` };
+  } catch (error) {
+    console.error(`Error sending ${item.type} notification:`, error);
+    result = { status: "failed", note: error.message };
+  }
+
+  const attempts = item.attempts + 1;
+  const attempted = {
+    attempts,
+    provider_message_id: result.providerMessageId || null,
+    // A batch keeps each held alert's own message
+    ...(result.message && !item.held_batch && { message: result.message }),
+  };
+
+  if (result.status !== "failed") {
+    await updateNotifications(item.notification_ids, {
+      ...attempted,
+      status: result.status,
+      delivery_note:
+        item.held_batch && result.status === "delivered"
+          ? `Held for quiet hours, sent in a batch of ${item.notification_ids.length}`
+          : result.note,
+    });
+
+    const { error } = await supabase
+      .from("notification_outbox")
+      .delete()
+      .eq("id", item.id);
+
+    if (error) throw error;
+    return;
+  }
+
+  const dead = attempts >= item.max_attempts;
+  const nextAttemptAt = new Date(Date.now() + getRetryDelayMs(attempts));
+  const reason = result.note || "Provider did not accept the message";
+
+  const { error } = await supabase
+    .from("notification_outbox")
+    .update({
+      status: dead ? "dead" : "pending",
+      attempts,
+      next_attempt_at: nextAttemptAt.toISOString(),
+      last_error: reason,
+      locked_by: null,
+      locked_until: null,
+    })
+    .eq("id", item.id);
+
+  if (error) throw error;
+
+  await updateNotifications(item.notification_ids, {
+    ...attempted,
+    status: dead ? "dead" : "retrying",
+    delivery_note: dead
+      ? `Gave up after ${attempts} attempts: ${reason}`
+      : `Attempt ${attempts} of ${
+          item.max_attempts
+        } failed: ${reason}; retrying at ${nextAttemptAt.toISOString()}`,
+  });
+
+  console.log(
+    `${item.type} notification to ${item.recipient} failed (attempt ${attempts} of ${item.max_attempts})${
+      dead ? ", giving up" : ""
+    }: ${reason}`
+  );
+}
+
+let dispatching = false;
+let dispatchRequested = false;
+
+// Send due deliveries until none are left. A call while a round is running
+// makes it go around once more instead of starting a second one.
+async function dispatchOutbox() {
+  if (dispatching) {
+    dispatchRequested = true;
+    return;
+  }
+
+  dispatching = true;
+
+  try {
+    do {
+      dispatchRequested = false;
+
+      const { data: claimed, error } = await supabase.rpc(
+        "claim_notification_outbox",
+        {
+          p_holder: INSTANCE_ID,
+          p_limit: OUTBOX_BATCH_SIZE,
+          p_lease_seconds: OUTBOX_LEASE_SECONDS,
+        }
+      );
+
+      if (error) throw error;
+
+      const results = await runWithConcurrency(
+        claimed,
+        OUTBOX_CONCURRENCY,
+        deliverOutboxItem
+      );
+
+      results.forEach((result, index) => {
+        if (result.status === "rejected") {
+          console.error(
+            `Error delivering ${claimed[index].type} notification to ${claimed[index].recipient}:`,
+            result.reason
+          );
+        }
+      });
+
+      if (claimed.length === OUTBOX_BATCH_SIZE) {
+        dispatchRequested = true;
+      }
+    } while (dispatchRequested);
+  } catch (error) {
+    console.error("Error dispatching notifications:", error);
+  } finally {
+    dispatching = false;
+  }
+}
+
+// Picks up due retries, and deliveries left behind by an instance that died
+schedule.scheduleJob("*/10 * * * * *", dispatchOutbox);
+
+// YouTube accepts at most 50 ids per videos.list call
+const YOUTUBE_BATCH_SIZE = 50;
+// The scheduler ticks every 30 seconds, the shortest polling interval
+const SCHEDULER_TICKS_PER_MINUTE = 2;
+// A video polled slightly early because of tick jitter still counts as due
+const DUE_SLACK_MS = 5 * 1000;
+
+function getPollInterval(video) {
+  return video.poll_interval_seconds || DEFAULT_POLL_INTERVAL_SECONDS;
+}
+
+// Upper bound on videos evaluated (rate check and alerts) at the same time
+const DEFAULT_POLL_CONCURRENCY = 4;
+const POLL_CONCURRENCY = Number(
+  process.env.POLL_CONCURRENCY || DEFAULT_POLL_CONCURRENCY
+);
+
+// With no workers every video would be skipped without an error
+if (!Number.isInteger(POLL_CONCURRENCY) || POLL_CONCURRENCY < 1) {
+  throw new Error(
+    `POLL_CONCURRENCY must be an integer of at least 1, got "${process.env.POLL_CONCURRENCY}"`
+  );
+}
+
+// Run worker over items with at most limit in flight. Resolves with the
+// settled result of every item, in order.
+async function runWithConcurrency(items, limit, worker) {
+  const results = new Array(items.length);
+  let next = 0;
+
+  const runners = Array.from(
+    { length: Math.min(limit, items.length) },
+    async () => {
+      while (next < items.length) {
+        const index = next++;
+        try {
+          results[index] = {
+            status: "fulfilled",
+            value: await worker(items[index]),
+          };
+        } catch (reason) {
+          results[index] = { status: "rejected", reason };
+        }
+      }
+    }
+  );
+
+  await Promise.all(runners);
+  return results;
+}
+
+function isDue(video, latest, slowdown, now) {
+  if (!latest) return true;
+
+  const elapsed = now - new Date(latest.timestamp);
+  return elapsed >= getPollInterval(video) * 1000 * slowdown - DUE_SLACK_MS;
+}
+
+function chunk(items, size) {
+  const chunks = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Poll one batch of videos with a single statistics call, bulk insert the
+// samples and then evaluate thresholds for each video on its own. Returns
+// how many videos were polled and how many failed.
+async function pollVideoBatch(videos, previousById, slowdown) {
+  const ids = videos.map((video) => video.id);
+
+  // A batch is shared between users, so each user is charged a share of the
+  // call proportional to how many of their videos it contains
+  const videosPerUser = new Map();
+  for (const video of videos) {
+    videosPerUser.set(
+      video.user_id,
+      (videosPerUser.get(video.user_id) || 0) + 1
+    );
+  }
+
+  await recordQuotaUsage(
+    "scheduler",
+    [...videosPerUser].map(([userId, count]) => ({
+      userId,
+      units: (VIDEOS_LIST_COST * count) / videos.length,
+    }))
+  );
+
+  const statsById = await viewSource.getStatistics(ids);
+
+  const timestamp = new Date().toISOString();
+  const samples = [];
+  let failures = 0;
+
+  for (const video of videos) {
+    const statistics = statsById.get(video.id);
+
+    if (!statistics) {
+      console.error(`Video not found: ${video.id}`);
+      failures += 1;
+      continue;
+    }
+
+    samples.push({ video, currentViews: statistics.viewCount });
+  }
+
+  if (samples.length === 0) return { polled: 0, failures };
+
+  const { error: insertError } = await supabase.from("video_views").insert(
+    samples.map(({ video, currentViews }) => ({
+      video_id: video.id,
+      views: currentViews,
+      timestamp,
+      interval_seconds: Math.round(getPollInterval(video) * slowdown),
+    }))
+  );
+
+  if (insertError) throw insertError;
+
+  const results = await runWithConcurrency(
+    samples,
+    POLL_CONCURRENCY,
+    ({ video, currentViews }) =>
+      evaluateVideo(video, currentViews, previousById.get(video.id), {
+        timestamp,
+        slowdown,
+      })
+  );
+
+  results.forEach((result, index) => {
+    if (result.status === "rejected") {
+      console.error(
+        `Error processing video ${samples[index].video.id}:`,
+        result.reason
+      );
+      failures += 1;
+    }
+  });
+
+  return { polled: samples.length, failures };
+}
+
+async function evaluateVideo(
+  video,
+  currentViews,
+  previous,
+  { timestamp, slowdown }
+) {
+  // Check if we need to send alerts
+  if (!previous) return;
+
+  if (isStaleSample(previous, video.resumed_at)) {
+    console.log(
+      `Video ${video.id}: previous sample predates resume, skipping rate check`
+    );
+    return;
+  }
+
+  const current = { views: currentViews, timestamp };
+  const viewsPerMinute = getViewsPerMinute(current, previous);
+
+  const intervalMs = getPollInterval(video) * 1000 * slowdown;
+
+  const gap = isGap(current, previous, intervalMs);
+
+  if (gap) {
+    console.warn(
+      `Video ${video.id}: gap since ${previous.timestamp}, rate averaged over the gap`
+    );
+  }
+
+  console.log(
+    `Video ${video.id}: ${viewsPerMinute} views/minute (User: ${video.user_id})`
+  );
+
+  // Check the video's alert rules (thresholds, baseline or custom rules)
+  const { level, threshold } = await evaluateAlert(
+    video,
+    new Date(timestamp),
+    slowdown
+  );
+
+  // Rate rules skip gaps, so normal after a gap only means there was no rate
+  // to check and must not count towards resolving an incident
+  if (gap && level === "normal") return;
+
+  await trackIncident(video, level, viewsPerMinute, threshold);
+}
+
+// A poll lease is renewed before each batch and released once the cycle is
+// done, so it only runs out when the instance holding it died
+const POLL_LEASE_SECONDS = 2 * 60;
+
+// Claim the given videos for this instance. Only the ids returned were
+// claimed, the rest are being polled by another instance.
+async function claimPollLeases(ids) {
+  const { data, error } = await supabase.rpc("claim_poll_leases", {
+    p_holder: INSTANCE_ID,
+    p_video_ids: ids,
+    p_lease_seconds: POLL_LEASE_SECONDS,
+  });
+
+  if (error) throw error;
+
+  return new Set(data.map((row) => row.video_id));
+}
+
+// Extend this instance's leases on the given videos. Returns the ids it
+// still holds.
+async function renewPollLeases(ids) {
+  const { data, error } = await supabase.rpc("renew_poll_leases", {
+    p_holder: INSTANCE_ID,
+    p_video_ids: ids,
+    p_lease_seconds: POLL_LEASE_SECONDS,
+  });
+
+  if (error) throw error;
+
+  return new Set(data.map((row) => row.video_id));
+}
+
+async function releasePollLeases(ids) {
+  const { error } = await supabase.rpc("release_poll_leases", {
+    p_holder: INSTANCE_ID,
+    p_video_ids: ids,
+  });
+
+  if (error) {
+    console.error("Error releasing poll leases:", error);
+  }
+}
+
+// One polling cycle: pick the due videos, claim them and poll them in
+// batches. Adds the number of videos polled and failed to run.
+async function runPollingCycle(run) {
+  // Get all active videos
+  const { data: videos, error } = await supabase
+    .from("videos")
+    .select("*")
+    .eq("status", "active");
+
+  if (error) throw error;
+
+  if (videos.length === 0) return;
+
+  // Back off when polling at this rate would overrun the daily budget
+  const { slowdown, projected } = await getPollingBackoff(videos);
+  pollingState.slowdown = slowdown;
+  pollingState.projected = projected;
+
+  if (slowdown === Infinity) {
+    console.warn("YouTube quota budget exhausted. Polling paused.");
+    return;
+  }
+
+  if (slowdown > 1) {
+    console.log(
+      `Polling intervals stretched ${slowdown}x to stay within quota budget`
+    );
+  }
+
+  // Latest stored sample for every active video, in one round trip
+  const { data: latestViews, error: latestViewsError } = await supabase.rpc(
+    "latest_video_views",
+    { video_ids: videos.map((video) => video.id) }
+  );
+
+  if (latestViewsError) throw latestViewsError;
+
+  const previousById = new Map(
+    (latestViews || []).map((row) => [row.video_id, row])
+  );
+
+  const now = Date.now();
+  const candidates = videos.filter((video) =>
+    isDue(video, previousById.get(video.id), slowdown, now)
+  );
+
+  if (candidates.length === 0) return;
+
+  // Other instances may be running the same tick, so only poll the videos
+  // this instance wins the lease for
+  const claimed = await claimPollLeases(candidates.map((video) => video.id));
+  const dueVideos = candidates.filter((video) => claimed.has(video.id));
+
+  if (dueVideos.length === 0) return;
+
   try {
-    console.log(
-      `[${
-        isTest ? "TEST " : ""
-      }EMAIL] Sending ${alertLevel} alert to ${to} for video: ${
-        videoInfo.title
-      } (User: ${userId})`
-    );
-
-    // Example using nodemailer (uncomment and configure in production)
-    const transporter = nodemailer.createTransport({
-      host: process.env.SMTP_HOST,
-      port: process.env.SMTP_PORT,
-      secure: false,
-      auth: {
-        user: process.env.SMTP_USER,
-        pass: process.env.SMTP_PASS,
-      },
-    });
+    // Process videos in batches so one failing batch does not stop the rest
+    const batches = chunk(dueVideos, YOUTUBE_BATCH_SIZE);
+    for (const [index, batch] of batches.entries()) {
+      try {
+        // Later batches renew their leases first, as the earlier ones may
+        // have taken a while; videos whose lease was lost are left alone
+        let leased = batch;
+        if (index > 0) {
+          const held = await renewPollLeases(batch.map((video) => video.id));
+          leased = batch.filter((video) => held.has(video.id));
+        }
 
-    await transporter.sendMail({
-      from: `"YouTube View Tracker" <${process.env.SMTP_USER}>`,
-      to,
-      subject: `${
-        isTest ? "[TEST] " : ""
-      }${alertLevel.toUpperCase()} Alert: High view rate detected`,
-      html: `
-        <h1>${alertLevel.toUpperCase()} Alert: High view rate detected</h1>
-        <p>The video <strong>${
-          videoInfo.title
-        }</strong> has reached a view rate of <strong>${
-        videoInfo.viewsPerMinute
-      } views/minute</strong>.</p>
-        <p>View the video: <a href="https://www.youtube.com/watch?v=${
-          videoInfo.id
-        }">https://www.youtube.com/watch?v=${videoInfo.id}</a></p>
-        <p>Please check the dashboard for more details.</p>
-      `,
-    });
+        if (leased.length === 0) continue;
 
-    return true;
-  } catch (error) {
-    console.error("Error sending email notification:", error);
-    return false;
+        const { polled, failures } = await pollVideoBatch(
+          leased,
+          previousById,
+          slowdown
+        );
+        run.polled += polled;
+        run.failures += failures;
+      } catch (batchError) {
+        console.error(
+          `Error processing batch of ${batch.length} videos:`,
+          batchError
+        );
+        run.failures += batch.length;
+      }
+    }
+  } finally {
+    // The polled videos now have a new sample, so they aren't due again
+    await releasePollLeases(dueVideos.map((video) => video.id));
   }
 }
 
-async function sendZaloNotification({
-  to,
-  videoInfo,
-  alertLevel,
-  isTest = false,
-  userId,
-}) {
-  try {
-    // In a real implementation, use Zalo Official Account API
-    console.log(
-      `[${
-        isTest ? "TEST " : ""
-      }ZALO] Sending ${alertLevel} alert to ${to} for video: ${
-        videoInfo.title
-      } (User: ${userId})`
-    );
-
-    // Example Zalo API call (implement in production)
-    /*
-    const response = await fetch('https://openapi.zalo.me/v2.0/oa/message', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'access_token': process.env.ZALO_ACCESS_TOKEN,
-      },
-      body: JSON.stringify({
-        recipient: { user_id: to },
-        message: {
-          text: `${isTest ? '[TEST] ' : ''}${alertLevel.toUpperCase()} Alert: The video "${videoInfo.title}" has reached ${videoInfo.viewsPerMinute} views/minute.`
-        }
-      }),
-    });
-    
-    const result = await response.json();
-    return result.success;
-    */
+// Scheduler runs are deleted by the retention job after this many days
+const SCHEDULER_RUN_RETENTION_DAYS = 7;
 
-    return true;
-  } catch (error) {
-    console.error("Error sending Zalo notification:", error);
-    return false;
+async function recordSchedulerRun(run) {
+  const { error } = await supabase.from("scheduler_runs").insert({
+    instance_id: INSTANCE_ID,
+    started_at: new Date(run.startedAt).toISOString(),
+    duration_ms: run.durationMs,
+    videos_polled: run.polled,
+    failures: run.failures,
+    skipped_ticks: run.skippedTicks,
+  });
+
+  if (error) {
+    console.error("Error recording scheduler run:", error);
   }
 }
 
-async function sendSmsNotification({
-  to,
-  videoInfo,
-  alertLevel,
-  isTest = false,
-  userId,
-}) {
+// Ticks that fire while a cycle is still running are skipped, not queued,
+// and reported with the run that caused them
+let activeRun = null;
+
+// Scheduler to track video views. Each tick polls only the videos whose
+// polling interval has elapsed since their latest sample.
+schedule.scheduleJob("*/30 * * * * *", async () => {
+  if (activeRun) {
+    activeRun.skippedTicks += 1;
+    console.warn(
+      `Previous video view check still running after ${
+        Date.now() - activeRun.startedAt
+      }ms. Skipping this tick.`
+    );
+    return;
+  }
+
+  const run = {
+    startedAt: Date.now(),
+    polled: 0,
+    failures: 0,
+    skippedTicks: 0,
+  };
+  activeRun = run;
+
   try {
-    // In a real implementation, use a service like Twilio or FPT SMS
+    console.log("Running scheduled video view check...");
+    await runPollingCycle(run);
+  } catch (error) {
+    console.error("Error in scheduled job:", error);
+    run.failures += 1;
+  } finally {
+    run.durationMs = Date.now() - run.startedAt;
+    activeRun = null;
+
     console.log(
-      `[${
-        isTest ? "TEST " : ""
-      }SMS] Sending ${alertLevel} alert to ${to} for video: ${
-        videoInfo.title
-      } (User: ${userId})`
-    );
-
-    // Example Twilio API call (implement in production)
-    /*
-    const twilio = require('twilio')(
-      process.env.TWILIO_ACCOUNT_SID,
-      process.env.TWILIO_AUTH_TOKEN
-    );
-    
-    const message = await twilio.messages.create({
-      body: `${isTest ? '[TEST] ' : ''}${alertLevel.toUpperCase()} Alert: The video "${videoInfo.title}" has reached ${videoInfo.viewsPerMinute} views/minute.`,
-      from: process.env.TWILIO_PHONE_NUMBER,
-      to,
-    });
-    
-    return message.sid;
-    */
+      `Video view check finished in ${run.durationMs}ms: ${run.polled} polled, ${run.failures} failed`
+    );
 
-    return true;
-  } catch (error) {
-    console.error("Error sending SMS notification:", error);
-    return false;
+    await recordSchedulerRun(run);
+  }
+});
+
+// Channels alerts go out on, with the key of their recipients in
+// videos.notifications, the contacts column holding a contact's handle and
+// how recipients confirm they want alerts, if they have to
+const ALERT_CHANNELS = [
+  {
+    type: "email",
+    recipientsKey: "emails",
+    contactField: "email",
+    verification: "link",
+    send: sendEmailNotification,
+  },
+  {
+    type: "zalo",
+    recipientsKey: "zaloIds",
+    contactField: "zalo_id",
+    verification: "code",
+    send: sendZaloNotification,
+  },
+  {
+    type: "sms",
+    recipientsKey: "phoneNumbers",
+    contactField: "phone",
+    verification: "code",
+    send: sendSmsNotification,
+  },
+  ...[
+    {
+      type: "slack",
+      recipientsKey: "slackWebhooks",
+      contactField: "slack_webhook",
+      url: true,
+    },
+    {
+      type: "discord",
+      recipientsKey: "discordWebhooks",
+      contactField: "discord_webhook",
+      url: true,
+    },
+    {
+      type: "telegram",
+      recipientsKey: "telegramChatIds",
+      contactField: "telegram_chat_id",
+    },
+    {
+      type: "webhook",
+      recipientsKey: "webhooks",
+      contactField: "webhook_url",
+      url: true,
+    },
+  ].map((channel) => ({
+    ...channel,
+    send: (options) => sendChatNotification(channel.type, options),
+  })),
+];
+
+// Recipients per channel must be lists of strings; Slack, Discord and
+// webhook recipients must be HTTPS URLs (plain HTTP on localhost for testing).
+// Contacts and groups are lists of ids.
+function validateNotifications(notifications = {}) {
+  for (const key of ["contactIds", "groupIds"]) {
+    const ids = notifications[key] || [];
+
+    if (!Array.isArray(ids) || !ids.every((id) => typeof id === "string")) {
+      return `Invalid ${key}`;
+    }
+  }
+
+  for (const channel of ALERT_CHANNELS) {
+    const recipients = notifications[channel.recipientsKey] || [];
+
+    if (
+      !Array.isArray(recipients) ||
+      !recipients.every((recipient) => typeof recipient === "string")
+    ) {
+      return `Invalid ${channel.type} recipients`;
+    }
+
+    if (channel.url && !recipients.every(isWebhookUrl)) {
+      return `${channel.type} recipients must be public HTTPS URLs`;
+    }
   }
+
+  return null;
 }
 
-// Scheduler to track video views
-schedule.scheduleJob("* * * * *", async () => {
+// A video's recipients with the handles of the contacts and groups it
+// references merged in. Looked up on every alert, so contact edits apply to
+// every video right away. If the lookup fails the literal recipients are
+// still alerted.
+async function getVideoRecipients(video) {
+  const notifications = video.notifications || {};
+  const contactIds = notifications.contactIds || [];
+  const groupIds = notifications.groupIds || [];
+  const recipients = {};
+
+  for (const channel of ALERT_CHANNELS) {
+    recipients[channel.recipientsKey] = [
+      ...(notifications[channel.recipientsKey] || []),
+    ];
+  }
+
+  if (contactIds.length === 0 && groupIds.length === 0) return recipients;
+
   try {
-    console.log("Running scheduled video view check...");
+    const ids = new Set(contactIds);
 
-    // Get all active videos
-    const { data: videos, error } = await supabase
-      .from("videos")
-      .select("*")
-      .eq("status", "active");
+    if (groupIds.length > 0) {
+      const { data: members, error } = await supabase
+        .from("contact_group_members")
+        .select("contact_id, contact_groups!inner(user_id)")
+        .in("group_id", groupIds)
+        .eq("contact_groups.user_id", video.user_id);
 
-    if (error) throw error;
+      if (error) throw error;
 
-    // Process each video
-    for (const video of videos) {
-      try {
-        // Get the latest view count
-        const response = await youtube.videos.list({
-          part: "statistics",
-          id: video.id,
-        });
+      for (const member of members) ids.add(member.contact_id);
+    }
+
+    if (ids.size > 0) {
+      const { data: contacts, error } = await supabase
+        .from("contacts")
+        .select("*")
+        .in("id", [...ids])
+        .eq("user_id", video.user_id);
 
-        const videoStats = response.data.items[0];
+      if (error) throw error;
 
-        if (!videoStats) {
-          console.error(`Video not found: ${video.id}`);
-          continue;
+      for (const contact of contacts) {
+        for (const channel of ALERT_CHANNELS) {
+          const handle = contact[channel.contactField];
+          if (handle) recipients[channel.recipientsKey].push(handle);
         }
+      }
+    }
+  } catch (error) {
+    console.error(`Error loading contacts for video ${video.id}:`, error);
+  }
 
-        const currentViews = Number.parseInt(
-          videoStats.statistics.viewCount,
-          10
-        );
+  for (const key of Object.keys(recipients)) {
+    recipients[key] = [...new Set(recipients[key])];
+  }
 
-        // Get the previous view count
-        const { data: prevViewsData, error: prevViewsError } = await supabase
-          .from("video_views")
-          .select("*")
-          .eq("video_id", video.id)
-          .order("timestamp", { ascending: false })
-          .limit(1);
+  return recipients;
+}
+
+// Webhook recipients must be public HTTPS URLs; the address they resolve to
+// is checked again on every send
+function isWebhookUrl(value) {
+  return isAllowedWebhookUrl(value, { allowLocal: allowsLocalWebhooks() });
+}
+
+function getAlertMessage(alertLevel, viewsPerMinute, title) {
+  if (alertLevel === "recovery") {
+    return `RESOLVED: ${title} is back to normal at ${viewsPerMinute} views/minute`;
+  }
+
+  return `${alertLevel.toUpperCase()} Alert: ${viewsPerMinute} views/minute for ${title}`;
+}
+
+function getAcknowledgeUrl(incident) {
+  return `${PUBLIC_API_URL}/incidents/${
+    incident.id
+  }/acknowledge?token=${getAckToken(incident.id)}`;
+}
+
+// Queue an alert (or a recovery notice) for every recipient of the video, or
+// for the given recipients of an escalation step. Alerts held back by the
+// video's cooldown are logged as suppressed instead.
+async function sendAlerts(
+  video,
+  alertLevel,
+  viewsPerMinute,
+  threshold,
+  {
+    incident = null,
+    recipients: stepRecipients = null,
+    escalationStep = null,
+  } = {}
+) {
+  const notifications = stepRecipients || (await getVideoRecipients(video));
+  let suppressed = false;
+
+  if (alertLevel !== "recovery" && escalationStep === null) {
+    // Claiming the alert lock is atomic, so across all instances at most one
+    // alert per video and level goes out in each cooldown window. Locks are
+    // per level, so an emergency is never held back by a warning cooldown.
+    const cooldownMinutes = video.alert_cooldown_minutes;
+    const { data: claimed, error } = await supabase.rpc(
+      "claim_alert_dispatch",
+      {
+        p_video_id: video.id,
+        p_alert_level: alertLevel,
+        p_holder: INSTANCE_ID,
+        p_cooldown_seconds: cooldownMinutes * 60,
+      }
+    );
+
+    if (error) {
+      console.error("Error checking recent alerts:", error);
+      return;
+    }
+
+    if (!claimed) {
+      console.log(
+        `Already sent ${alertLevel} alert for video ${video.id} in the last ${cooldownMinutes} minutes. Suppressing.`
+      );
+      suppressed = true;
+    }
+  }
+
+  if (!suppressed) {
+    console.log(
+      `Queueing ${alertLevel} alerts for video ${video.id} (${viewsPerMinute} views/minute) (User: ${video.user_id})`
+    );
+  }
+
+  const videoInfo = {
+    id: video.id,
+    title: video.title,
+    viewsPerMinute,
+    threshold,
+    acknowledgeUrl:
+      incident && alertLevel !== "recovery"
+        ? getAcknowledgeUrl(incident)
+        : null,
+  };
 
-        if (prevViewsError) throw prevViewsError;
+  for (const channel of ALERT_CHANNELS) {
+    const recipients = notifications[channel.recipientsKey] || [];
 
-        // Insert new view count
-        await supabase.from("video_views").insert({
+    for (const recipient of recipients) {
+      // Logged as pending; the dispatcher fills in the outcome and the text
+      // the recipient was sent
+      const { data: logged, error: logError } = await supabase
+        .from("notifications_log")
+        .insert({
           video_id: video.id,
-          views: currentViews,
+          video_title: video.title,
+          type: channel.type,
+          recipient,
+          alert_level: alertLevel,
+          message: getAlertMessage(alertLevel, viewsPerMinute, video.title),
+          status: suppressed ? "suppressed" : "pending",
           timestamp: new Date().toISOString(),
-        });
+          views_per_minute: viewsPerMinute,
+          threshold,
+          user_id: video.user_id, // Add user_id to associate notification with user
+          incident_id: incident ? incident.id : null,
+          escalation_step: escalationStep,
+        })
+        .select("id")
+        .single();
 
-        // Check if we need to send alerts
-        if (prevViewsData && prevViewsData.length > 0) {
-          const prevViews = prevViewsData[0].views;
-          const viewsPerMinute = currentViews - prevViews;
+      if (logError) {
+        console.error("Error logging notification:", logError);
+        continue;
+      }
 
-          console.log(
-            `Video ${video.id}: ${viewsPerMinute} views/minute (User: ${video.user_id})`
-          );
+      if (suppressed) continue;
 
-          // Check against thresholds
-          if (viewsPerMinute >= video.emergency_threshold) {
-            await sendAlerts(video, "emergency", viewsPerMinute);
-          } else if (viewsPerMinute >= video.warning_threshold) {
-            await sendAlerts(video, "warning", viewsPerMinute);
-          }
-        }
-      } catch (videoError) {
-        console.error(`Error processing video ${video.id}:`, videoError);
+      try {
+        await enqueueDelivery({
+          notificationIds: [logged.id],
+          videoId: video.id,
+          userId: video.user_id,
+          type: channel.type,
+          recipient,
+          alertLevel,
+          videoInfo,
+        });
+      } catch (error) {
+        console.error(
+          `Error queueing ${channel.type} notification to ${recipient}:`,
+          error
+        );
+        await supabase
+          .from("notifications_log")
+          .update({
+            status: "failed",
+            delivery_note: `Could not be queued: ${error.message}`,
+          })
+          .eq("id", logged.id);
       }
     }
-  } catch (error) {
-    console.error("Error in scheduled job:", error);
   }
-});
 
-async function sendAlerts(video, alertLevel, viewsPerMinute) {
-  const notifications = video.notifications || {};
-  const threshold =
-    alertLevel === "emergency"
-      ? video.emergency_threshold
-      : video.warning_threshold;
+  // A suppressed alert counts as notified, so re-notifying waits for the
+  // next interval or rate increase rather than retrying every poll
+  if (incident && alertLevel !== "recovery") {
+    await updateIncident(incident.id, {
+      last_notified_at: new Date().toISOString(),
+      last_notified_views_per_minute: viewsPerMinute,
+    });
+  }
+}
+
+// Whether recipients of an open incident should hear about it again
+function isRenotifyDue(video, incident, viewsPerMinute) {
+  switch (video.renotify_mode) {
+    case "none":
+      return false;
+    case "rate_increase": {
+      const lastRate =
+        incident.last_notified_views_per_minute ??
+        incident.peak_views_per_minute;
+      return (
+        viewsPerMinute >=
+        lastRate * (1 + Number(video.renotify_rate_increase_percent) / 100)
+      );
+    }
+    default: {
+      const lastNotifiedAt = new Date(
+        incident.last_notified_at || incident.opened_at
+      ).getTime();
+      return (
+        Date.now() - lastNotifiedAt >=
+        video.renotify_interval_minutes * 60 * 1000
+      );
+    }
+  }
+}
 
-  const fiveMinutesAgo = new Date();
-  fiveMinutesAgo.setMinutes(fiveMinutesAgo.getMinutes() - 5);
+// Incidents: an incident opens when a video crosses a level, escalates from
+// warning to emergency, and resolves once the rate has been back to normal
+// for several evaluations in a row, so one quiet sample doesn't end it
+const INCIDENT_RECOVERY_EVALUATIONS = 3;
 
-  const { data: recentAlerts, error } = await supabase
-    .from("notifications_log")
+async function getActiveIncident(videoId) {
+  const { data, error } = await supabase
+    .from("incidents")
     .select("*")
-    .eq("video_id", video.id)
-    .eq("alert_level", alertLevel)
-    .gt("timestamp", fiveMinutesAgo.toISOString());
+    .eq("video_id", videoId)
+    .neq("status", "resolved")
+    .maybeSingle();
 
-  if (error) {
-    console.error("Error checking recent alerts:", error);
+  if (error) throw error;
+
+  return data;
+}
+
+async function updateIncident(id, changes) {
+  const { data, error } = await supabase
+    .from("incidents")
+    .update(changes)
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data;
+}
+
+// Returns null when another instance opened the incident first
+async function openIncident(video, level, viewsPerMinute, threshold) {
+  const { data, error } = await supabase
+    .from("incidents")
+    .insert({
+      video_id: video.id,
+      video_title: video.title,
+      user_id: video.user_id,
+      level,
+      status: "open",
+      threshold,
+      peak_views_per_minute: viewsPerMinute,
+      last_views_per_minute: viewsPerMinute,
+      escalation_started_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  // Unique violation: only one unresolved incident per video
+  if (error && error.code === "23505") return null;
+  if (error) throw error;
+
+  return data;
+}
+
+async function trackIncident(video, level, viewsPerMinute, threshold) {
+  const incident = await getActiveIncident(video.id);
+  const policy = await loadEscalationPolicy(video.escalation_policy_id);
+  const now = new Date().toISOString();
+
+  if (level === "normal") {
+    if (!incident) return;
+
+    const normalEvaluations = incident.normal_evaluations + 1;
+
+    if (normalEvaluations < INCIDENT_RECOVERY_EVALUATIONS) {
+      await updateIncident(incident.id, {
+        normal_evaluations: normalEvaluations,
+        last_views_per_minute: viewsPerMinute,
+      });
+      return;
+    }
+
+    const resolved = await updateIncident(incident.id, {
+      status: "resolved",
+      resolved_at: now,
+      last_views_per_minute: viewsPerMinute,
+    });
+
+    console.log(`Incident ${incident.id} for video ${video.id} resolved`);
+
+    // With a policy, only the contacts of the steps that ran were alerted
+    await sendAlerts(video, "recovery", viewsPerMinute, incident.threshold, {
+      incident: resolved,
+      recipients: policy
+        ? getNotifiedRecipients(
+            policy,
+            incident.escalation_step,
+            await getVideoRecipients(video)
+          )
+        : null,
+    });
     return;
   }
 
-  if (recentAlerts && recentAlerts.length > 0) {
-    console.log(
-      `Already sent ${alertLevel} alert for video ${video.id} in the last 5 minutes. Skipping.`
-    );
+  if (!incident) {
+    const opened = await openIncident(video, level, viewsPerMinute, threshold);
+
+    if (opened) {
+      console.log(`Incident ${opened.id} opened for video ${video.id}`);
+
+      if (policy) {
+        await runDueEscalationSteps(opened, video, policy);
+      } else {
+        await sendAlerts(video, level, viewsPerMinute, threshold, {
+          incident: opened,
+        });
+      }
+    }
     return;
   }
 
-  console.log(
-    `Sending ${alertLevel} alerts for video ${video.id} (${viewsPerMinute} views/minute) (User: ${video.user_id})`
-  );
+  const peak = Math.max(incident.peak_views_per_minute, viewsPerMinute);
 
-  if (notifications.emails && notifications.emails.length > 0) {
-    for (const email of notifications.emails) {
-      const success = await sendEmailNotification({
-        to: email,
-        videoInfo: {
-          id: video.id,
-          title: video.title,
-          viewsPerMinute,
-        },
-        alertLevel,
-        userId: video.user_id,
-      });
+  if (level === "emergency" && incident.level === "warning") {
+    // An escalation needs acknowledging again, and restarts the policy
+    const escalated = await updateIncident(incident.id, {
+      level: "emergency",
+      status: "open",
+      threshold,
+      escalated_at: now,
+      acknowledged_at: null,
+      acknowledged_by: null,
+      escalation_step: 0,
+      escalation_started_at: now,
+      peak_views_per_minute: peak,
+      last_views_per_minute: viewsPerMinute,
+      normal_evaluations: 0,
+    });
 
-      await supabase.from("notifications_log").insert({
-        video_id: video.id,
-        video_title: video.title,
-        type: "email",
-        recipient: email,
-        alert_level: alertLevel,
-        message: `${alertLevel.toUpperCase()} Alert: ${viewsPerMinute} views/minute for ${
-          video.title
-        }`,
-        status: success ? "delivered" : "failed",
-        timestamp: new Date().toISOString(),
-        views_per_minute: viewsPerMinute,
-        threshold,
-        user_id: video.user_id, // Add user_id to associate notification with user
+    console.log(`Incident ${incident.id} escalated to emergency`);
+
+    if (policy) {
+      await runDueEscalationSteps(escalated, video, policy);
+    } else {
+      await sendAlerts(video, "emergency", viewsPerMinute, threshold, {
+        incident: escalated,
       });
     }
+    return;
   }
 
-  if (notifications.zaloIds && notifications.zaloIds.length > 0) {
-    for (const zaloId of notifications.zaloIds) {
-      const success = await sendZaloNotification({
-        to: zaloId,
-        videoInfo: {
-          id: video.id,
-          title: video.title,
-          viewsPerMinute,
-        },
-        alertLevel,
-        userId: video.user_id,
-      });
+  const updated = await updateIncident(incident.id, {
+    peak_views_per_minute: peak,
+    last_views_per_minute: viewsPerMinute,
+    normal_evaluations: 0,
+  });
 
-      await supabase.from("notifications_log").insert({
-        video_id: video.id,
-        video_title: video.title,
-        type: "zalo",
-        recipient: zaloId,
-        alert_level: alertLevel,
-        message: `${alertLevel.toUpperCase()} Alert: ${viewsPerMinute} views/minute for ${
-          video.title
-        }`,
-        status: success ? "delivered" : "failed",
-        timestamp: new Date().toISOString(),
-        views_per_minute: viewsPerMinute,
-        threshold,
-        user_id: video.user_id, // Add user_id to associate notification with user
-      });
+  // Re-notify as the video's settings allow until someone acknowledges.
+  // With a policy the escalation job sends the follow-ups instead.
+  if (
+    updated.status === "open" &&
+    !policy &&
+    isRenotifyDue(video, updated, viewsPerMinute)
+  ) {
+    await sendAlerts(video, level, viewsPerMinute, threshold, {
+      incident: updated,
+    });
+  }
+}
+
+// Escalation policies: ordered steps, each notifying some channels (and
+// optional extra contacts) a number of minutes after the incident opened or
+// escalated. Steps stop once the incident is acknowledged.
+
+const MAX_ESCALATION_STEPS = 10;
+const MAX_ESCALATION_DELAY_MINUTES = 24 * 60;
+
+function validateEscalationSteps(steps) {
+  const channelTypes = ALERT_CHANNELS.map((channel) => channel.type);
+  const recipientKeys = ALERT_CHANNELS.map((channel) => channel.recipientsKey);
+
+  if (!Array.isArray(steps) || steps.length === 0) {
+    return "At least one escalation step is required";
+  }
+
+  if (steps.length > MAX_ESCALATION_STEPS) {
+    return `At most ${MAX_ESCALATION_STEPS} escalation steps are allowed`;
+  }
+
+  let previousDelay = 0;
+  for (const step of steps) {
+    if (
+      !Number.isInteger(step.delayMinutes) ||
+      step.delayMinutes < previousDelay ||
+      step.delayMinutes > MAX_ESCALATION_DELAY_MINUTES
+    ) {
+      return `Step delays must be whole minutes, in order, up to ${MAX_ESCALATION_DELAY_MINUTES}`;
+    }
+    previousDelay = step.delayMinutes;
+
+    if (
+      !Array.isArray(step.channels) ||
+      !step.channels.every((type) => channelTypes.includes(type))
+    ) {
+      return `Step channels must be any of ${channelTypes.join(", ")}`;
+    }
+
+    const extra = step.extraRecipients || {};
+    for (const [key, values] of Object.entries(extra)) {
+      if (!recipientKeys.includes(key) || !Array.isArray(values)) {
+        return `Invalid extra recipients: ${key}`;
+      }
     }
   }
 
-  if (notifications.phoneNumbers && notifications.phoneNumbers.length > 0) {
-    for (const phoneNumber of notifications.phoneNumbers) {
-      const success = await sendSmsNotification({
-        to: phoneNumber,
-        videoInfo: {
-          id: video.id,
-          title: video.title,
-          viewsPerMinute,
-        },
-        alertLevel,
-        userId: video.user_id,
-      });
+  return null;
+}
 
-      await supabase.from("notifications_log").insert({
-        video_id: video.id,
-        video_title: video.title,
-        type: "sms",
-        recipient: phoneNumber,
-        alert_level: alertLevel,
-        message: `${alertLevel.toUpperCase()} Alert: ${viewsPerMinute} views/minute for ${
-          video.title
-        }`,
-        status: success ? "delivered" : "failed",
-        timestamp: new Date().toISOString(),
-        views_per_minute: viewsPerMinute,
-        threshold,
-        user_id: video.user_id, // Add user_id to associate notification with user
-      });
+async function loadEscalationPolicy(id) {
+  if (!id) return null;
+
+  const { data, error } = await supabase
+    .from("escalation_policies")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
+
+// Recipients of one step: the video's recipients (see getVideoRecipients)
+// on the step's channels, plus any extra contacts the step names
+function getStepRecipients(step, notifications) {
+  const extra = step.extraRecipients || {};
+  const recipients = {};
+
+  for (const channel of ALERT_CHANNELS) {
+    const own = step.channels.includes(channel.type)
+      ? notifications[channel.recipientsKey] || []
+      : [];
+
+    recipients[channel.recipientsKey] = [
+      ...new Set([...own, ...(extra[channel.recipientsKey] || [])]),
+    ];
+  }
+
+  return recipients;
+}
+
+// Everyone alerted by the first stepsRun steps
+function getNotifiedRecipients(policy, stepsRun, notifications) {
+  const recipients = {};
+
+  for (const step of policy.steps.slice(0, stepsRun)) {
+    for (const [key, values] of Object.entries(
+      getStepRecipients(step, notifications)
+    )) {
+      recipients[key] = [...new Set([...(recipients[key] || []), ...values])];
     }
   }
+
+  return recipients;
+}
+
+// Send every step of the policy that is due. Each step is claimed by moving
+// escalation_step forward only if no other instance has moved it yet.
+async function runDueEscalationSteps(incident, video, policy) {
+  const startedAt = new Date(incident.escalation_started_at).getTime();
+  let current = incident;
+
+  while (current.escalation_step < policy.steps.length) {
+    const step = policy.steps[current.escalation_step];
+
+    if (Date.now() < startedAt + step.delayMinutes * 60 * 1000) return;
+
+    const { data: claimed, error } = await supabase
+      .from("incidents")
+      .update({ escalation_step: current.escalation_step + 1 })
+      .eq("id", current.id)
+      .eq("status", "open")
+      .eq("escalation_step", current.escalation_step)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+
+    // Acknowledged, resolved or already sent by another instance
+    if (!claimed) return;
+
+    console.log(
+      `Incident ${current.id}: escalation step ${claimed.escalation_step} of ${policy.steps.length}`
+    );
+
+    await sendAlerts(
+      video,
+      claimed.level,
+      claimed.last_views_per_minute,
+      claimed.threshold,
+      {
+        incident: claimed,
+        recipients: getStepRecipients(step, await getVideoRecipients(video)),
+        escalationStep: claimed.escalation_step,
+      }
+    );
+
+    current = claimed;
+  }
 }
 
+// Timer driving escalation steps for open incidents between polls
+schedule.scheduleJob("15,45 * * * * *", async () => {
+  try {
+    const { data: incidents, error } = await supabase
+      .from("incidents")
+      .select("*, videos!inner(*)")
+      .eq("status", "open")
+      .not("videos.escalation_policy_id", "is", null);
+
+    if (error) throw error;
+
+    for (const { videos: video, ...incident } of incidents) {
+      try {
+        const policy = await loadEscalationPolicy(video.escalation_policy_id);
+        if (policy) {
+          await runDueEscalationSteps(incident, video, policy);
+        }
+      } catch (incidentError) {
+        console.error(
+          `Error escalating incident ${incident.id}:`,
+          incidentError
+        );
+      }
+    }
+  } catch (error) {
+    console.error("Error in escalation job:", error);
+  }
+});
+
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
   console.log(`API URL: http://localhost:${PORT}/api`);
+  console.log(`View source: ${viewSource.name}`);
+  console.log(
+    `Notification providers: ${Object.values(notificationChannels)
+      .map((channel) => `${channel.type}=${channel.provider}`)
+      .join(", ")}`
+  );
+  console.log(`Instance: ${INSTANCE_ID}`);
 });
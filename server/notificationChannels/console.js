@@ -0,0 +1,41 @@
+// Logs messages instead of sending them, for development without provider
+// accounts. Every message counts as accepted, so it is refused in production.
+export function createConsoleChannel({ type, env }) {
+  if (env.NODE_ENV === "production") {
+    throw new Error(
+      `The console provider only logs ${type} messages and can't be used in production`
+    );
+  }
+
+  return {
+    type,
+    provider: "console",
+
+    async send({ to, subject, text }) {
+      console.log(
+        `[${type.toUpperCase()} console] To ${to}: ${subject || text}`
+      );
+
+      return { accepted: true, providerMessageId: null, error: null };
+    },
+  };
+}
+
+// Stands in for a channel with no provider configured. Every message fails,
+// so nothing is logged as delivered that was never sent.
+export function createUnconfiguredChannel({ type, setting }) {
+  console.warn(`${setting} is not set; ${type} messages will fail`);
+
+  return {
+    type,
+    provider: "none",
+
+    async send() {
+      return {
+        accepted: false,
+        providerMessageId: null,
+        error: `No ${type} provider configured. Set ${setting}`,
+      };
+    },
+  };
+}
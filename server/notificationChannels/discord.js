@@ -0,0 +1,40 @@
+import { postToWebhook } from "./webhookUrl.js";
+
+// Discord webhooks. The recipient is the webhook URL; with wait=true Discord
+// answers with the created message.
+const DISCORD_MAX_LENGTH = 2000;
+
+export function createDiscordChannel({ allowLocal = false } = {}) {
+  return {
+    type: "discord",
+    provider: "discord-webhook",
+
+    async send({ to, text }) {
+      const url = new URL(to);
+      url.searchParams.set("wait", "true");
+
+      const response = await postToWebhook(
+        url,
+        {
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            content: text.slice(0, DISCORD_MAX_LENGTH),
+          }),
+        },
+        { allowLocal }
+      );
+
+      const result = await response.json().catch(() => ({}));
+
+      return {
+        accepted: response.ok,
+        providerMessageId: result.id || null,
+        error: response.ok
+          ? null
+          : `Discord error ${result.code ?? response.status}: ${
+              result.message || response.statusText
+            }`,
+      };
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import { PROVIDER_TIMEOUT_MS } from "./timeout.js";
+
+// SMS through eSMS.vn with a registered brandname. CodeResult "100" is the
+// only acceptance; other codes describe why the message was refused.
+export function createEsmsChannel({
+  apiKey,
+  secretKey,
+  brandname,
+  apiUrl = "https://rest.esms.vn",
+}) {
+  return {
+    type: "sms",
+    provider: "esms",
+
+    async send({ to, text }) {
+      const response = await fetch(
+        `${apiUrl}/MainService.svc/json/SendMultipleMessage_V4_post_json/`,
+        {
+          method: "POST",
+          signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ApiKey: apiKey,
+            SecretKey: secretKey,
+            Phone: to,
+            Content: text,
+            Brandname: brandname,
+            SmsType: "2", // Brandname customer care
+          }),
+        }
+      );
+
+      const result = await response.json().catch(() => ({}));
+      const accepted = response.ok && result.CodeResult === "100";
+
+      return {
+        accepted,
+        providerMessageId: result.SMSID || null,
+        error: accepted
+          ? null
+          : `eSMS error ${result.CodeResult ?? response.status}: ${
+              result.ErrorMessage || response.statusText
+            }`,
+      };
+    },
+  };
+}
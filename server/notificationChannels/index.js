@@ -0,0 +1,125 @@
+import { createSmtpChannel } from "./smtp.js";
+import { createZaloOaChannel } from "./zaloOa.js";
+import { createTwilioChannel } from "./twilio.js";
+import { createEsmsChannel } from "./esms.js";
+import {
+  createConsoleChannel,
+  createUnconfiguredChannel,
+} from "./console.js";
+import { createSlackChannel } from "./slack.js";
+import { createDiscordChannel } from "./discord.js";
+import { createTelegramChannel } from "./telegram.js";
+import { createWebhookChannel } from "./webhook.js";
+
+export { isAllowedWebhookUrl } from "./webhookUrl.js";
+
+// A notification channel delivers one message to one recipient:
+//   send({ to, subject, text, html, payload })
+//     -> { accepted, providerMessageId, error }
+// accepted is true only once the provider has taken the message. Channels
+// that can't format HTML or subjects send text alone; webhooks send payload.
+//
+// EMAIL_PROVIDER ("smtp" default), ZALO_PROVIDER ("zalo-oa") and
+// SMS_PROVIDER ("twilio" or "esms") select the implementations. Without a
+// Zalo or SMS provider those messages fail. "console" only logs the message,
+// for development. Slack, Discord and webhook recipients are URLs; Telegram
+// recipients are chat ids.
+export function createNotificationChannels(env = process.env) {
+  const allowLocal = allowsLocalWebhooks(env);
+
+  return {
+    email: createEmailChannel(env),
+    zalo: createZaloChannel(env),
+    sms: createSmsChannel(env),
+    slack: createSlackChannel({ allowLocal }),
+    discord: createDiscordChannel({ allowLocal }),
+    telegram: createTelegramChannel({
+      botToken: env.TELEGRAM_BOT_TOKEN,
+      apiUrl: env.TELEGRAM_API_URL,
+    }),
+    webhook: createWebhookChannel({
+      secret: env.WEBHOOK_SIGNING_SECRET,
+      allowLocal,
+    }),
+  };
+}
+
+// ALLOW_LOCAL_WEBHOOKS=true lets webhook URLs use plain HTTP and reach local
+// addresses, for development against the provider stand-in
+export function allowsLocalWebhooks(env = process.env) {
+  if (env.ALLOW_LOCAL_WEBHOOKS !== "true") return false;
+
+  if (env.NODE_ENV === "production") {
+    throw new Error("ALLOW_LOCAL_WEBHOOKS can't be used in production");
+  }
+
+  return true;
+}
+
+function createEmailChannel(env) {
+  const provider = env.EMAIL_PROVIDER || "smtp";
+
+  switch (provider) {
+    case "smtp":
+      return createSmtpChannel({
+        host: env.SMTP_HOST,
+        port: env.SMTP_PORT,
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+      });
+    case "console":
+      return createConsoleChannel({ type: "email", env });
+    default:
+      throw new Error(`Invalid email provider: ${provider}`);
+  }
+}
+
+function createZaloChannel(env) {
+  const provider = env.ZALO_PROVIDER;
+
+  switch (provider) {
+    case undefined:
+    case "":
+      return createUnconfiguredChannel({
+        type: "zalo",
+        setting: "ZALO_PROVIDER",
+      });
+    case "zalo-oa":
+      return createZaloOaChannel({
+        accessToken: env.ZALO_ACCESS_TOKEN,
+        apiUrl: env.ZALO_API_URL,
+      });
+    case "console":
+      return createConsoleChannel({ type: "zalo", env });
+    default:
+      throw new Error(`Invalid Zalo provider: ${provider}`);
+  }
+}
+
+function createSmsChannel(env) {
+  const provider = env.SMS_PROVIDER;
+
+  switch (provider) {
+    case undefined:
+    case "":
+      return createUnconfiguredChannel({ type: "sms", setting: "SMS_PROVIDER" });
+    case "twilio":
+      return createTwilioChannel({
+        accountSid: env.TWILIO_ACCOUNT_SID,
+        authToken: env.TWILIO_AUTH_TOKEN,
+        from: env.TWILIO_PHONE_NUMBER,
+        apiUrl: env.TWILIO_API_URL,
+      });
+    case "esms":
+      return createEsmsChannel({
+        apiKey: env.ESMS_API_KEY,
+        secretKey: env.ESMS_SECRET_KEY,
+        brandname: env.ESMS_BRANDNAME,
+        apiUrl: env.ESMS_API_URL,
+      });
+    case "console":
+      return createConsoleChannel({ type: "sms", env });
+    default:
+      throw new Error(`Invalid SMS provider: ${provider}`);
+  }
+}
@@ -0,0 +1,30 @@
+import { postToWebhook } from "./webhookUrl.js";
+
+// Slack incoming webhooks. The recipient is the webhook URL; Slack answers
+// 200 with the body "ok" once the message is posted.
+export function createSlackChannel({ allowLocal = false } = {}) {
+  return {
+    type: "slack",
+    provider: "slack-webhook",
+
+    async send({ to, text }) {
+      const response = await postToWebhook(
+        to,
+        {
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ text }),
+        },
+        { allowLocal }
+      );
+
+      const body = await response.text();
+      const accepted = response.ok && body === "ok";
+
+      return {
+        accepted,
+        providerMessageId: null,
+        error: accepted ? null : `Slack error ${response.status}: ${body}`,
+      };
+    },
+  };
+}
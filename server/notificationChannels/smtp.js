@@ -0,0 +1,38 @@
+import nodemailer from "nodemailer";
+import { PROVIDER_TIMEOUT_MS } from "./timeout.js";
+
+// Email over SMTP. The server accepting the recipient counts as delivery.
+export function createSmtpChannel({ host, port, user, pass }) {
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure: false,
+    auth: { user, pass },
+    connectionTimeout: PROVIDER_TIMEOUT_MS,
+    greetingTimeout: PROVIDER_TIMEOUT_MS,
+    socketTimeout: PROVIDER_TIMEOUT_MS,
+  });
+
+  return {
+    type: "email",
+    provider: "smtp",
+
+    async send({ to, subject, text, html }) {
+      const info = await transporter.sendMail({
+        from: `"YouTube View Tracker" <${user}>`,
+        to,
+        subject,
+        text,
+        html,
+      });
+
+      const accepted = info.accepted.includes(to);
+
+      return {
+        accepted,
+        providerMessageId: info.messageId,
+        error: accepted ? null : `Rejected by SMTP server: ${info.response}`,
+      };
+    },
+  };
+}
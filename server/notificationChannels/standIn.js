@@ -0,0 +1,168 @@
+import http from "node:http";
+import { signWebhookPayload } from "./webhook.js";
+
+// Local stand-in for the Zalo OA, Twilio, eSMS and Telegram APIs, to try the
+// real providers without accounts. Point ZALO_API_URL, TWILIO_API_URL,
+// ESMS_API_URL and TELEGRAM_API_URL at it. Recipients containing "reject"
+// are refused the way each provider refuses them; everything else is
+// accepted and logged. /hooks/slack, /hooks/discord and /hooks/webhook stand
+// in for webhook URLs; the last checks signatures with WEBHOOK_SIGNING_SECRET.
+//
+//   node server/notificationChannels/standIn.js
+const PORT = Number.parseInt(
+  process.env.PROVIDER_STAND_IN_PORT || "4010",
+  10
+);
+
+const WEBHOOK_SIGNING_SECRET = process.env.WEBHOOK_SIGNING_SECRET;
+
+let nextId = 1;
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+const routes = [
+  {
+    name: "zalo",
+    match: (url) => url === "/v3.0/oa/message/cs",
+    handle(res, body) {
+      const { recipient, message } = JSON.parse(body);
+
+      if (recipient.user_id.includes("reject")) {
+        return sendJson(res, 200, {
+          error: -213,
+          message: "User has not followed the OA",
+        });
+      }
+
+      console.log(`[zalo] ${recipient.user_id}: ${message.text}`);
+      sendJson(res, 200, {
+        error: 0,
+        message: "Success",
+        data: { message_id: `zalo-${nextId++}` },
+      });
+    },
+  },
+  {
+    name: "twilio",
+    match: (url) =>
+      /^\/2010-04-01\/Accounts\/[^/]+\/Messages\.json$/.test(url),
+    handle(res, body) {
+      const params = new URLSearchParams(body);
+      const to = params.get("To");
+
+      if (to.includes("reject")) {
+        return sendJson(res, 400, {
+          code: 21211,
+          message: `The 'To' number ${to} is not a valid phone number.`,
+          status: 400,
+        });
+      }
+
+      console.log(`[twilio] ${to}: ${params.get("Body")}`);
+      sendJson(res, 201, { sid: `SM${nextId++}`, status: "queued" });
+    },
+  },
+  {
+    name: "esms",
+    match: (url) =>
+      url === "/MainService.svc/json/SendMultipleMessage_V4_post_json/",
+    handle(res, body) {
+      const { Phone, Content } = JSON.parse(body);
+
+      if (Phone.includes("reject")) {
+        return sendJson(res, 200, {
+          CodeResult: "99",
+          ErrorMessage: "Invalid phone number",
+        });
+      }
+
+      console.log(`[esms] ${Phone}: ${Content}`);
+      sendJson(res, 200, { CodeResult: "100", SMSID: `esms-${nextId++}` });
+    },
+  },
+  {
+    name: "telegram",
+    match: (url) => /^\/bot[^/]+\/sendMessage$/.test(url),
+    handle(res, body) {
+      const { chat_id: chatId, text } = JSON.parse(body);
+
+      if (String(chatId).includes("reject")) {
+        return sendJson(res, 400, {
+          ok: false,
+          error_code: 400,
+          description: "Bad Request: chat not found",
+        });
+      }
+
+      console.log(`[telegram] ${chatId}: ${text}`);
+      sendJson(res, 200, { ok: true, result: { message_id: nextId++ } });
+    },
+  },
+  {
+    name: "slack",
+    match: (url) => url.startsWith("/hooks/slack"),
+    handle(res, body) {
+      console.log(`[slack] ${JSON.parse(body).text}`);
+      res.writeHead(200, { "Content-Type": "text/plain" });
+      res.end("ok");
+    },
+  },
+  {
+    name: "discord",
+    match: (url) => url.startsWith("/hooks/discord"),
+    handle(res, body) {
+      console.log(`[discord] ${JSON.parse(body).content}`);
+      sendJson(res, 200, { id: `discord-${nextId++}` });
+    },
+  },
+  {
+    name: "webhook",
+    match: (url) => url.startsWith("/hooks/webhook"),
+    handle(res, body, req) {
+      const timestamp = req.headers["x-viewtracker-timestamp"];
+      const expected = `sha256=${signWebhookPayload(
+        WEBHOOK_SIGNING_SECRET || "",
+        timestamp,
+        body
+      )}`;
+
+      if (req.headers["x-viewtracker-signature"] !== expected) {
+        return sendJson(res, 401, { error: "Invalid signature" });
+      }
+
+      console.log(`[webhook] ${body}`);
+      sendJson(res, 200, { received: true });
+    },
+  },
+];
+
+const server = http.createServer(async (req, res) => {
+  const route = routes.find((route) => route.match(req.url));
+
+  if (req.method !== "POST" || !route) {
+    return sendJson(res, 404, { error: "Not found" });
+  }
+
+  try {
+    route.handle(res, await readBody(req), req);
+  } catch (error) {
+    console.error(`[${route.name}] Bad request:`, error);
+    sendJson(res, 400, { error: "Bad request" });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Provider stand-in listening on http://localhost:${PORT}`);
+});
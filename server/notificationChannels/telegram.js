@@ -0,0 +1,40 @@
+import { PROVIDER_TIMEOUT_MS } from "./timeout.js";
+
+// Telegram Bot API. The recipient is a chat id the bot has been added to.
+export function createTelegramChannel({
+  botToken,
+  apiUrl = "https://api.telegram.org",
+}) {
+  return {
+    type: "telegram",
+    provider: "telegram-bot",
+
+    async send({ to, text }) {
+      const response = await fetch(`${apiUrl}/bot${botToken}/sendMessage`, {
+        method: "POST",
+        signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          chat_id: to,
+          text,
+          disable_web_page_preview: true,
+        }),
+      });
+
+      const result = await response.json().catch(() => ({}));
+      const accepted = response.ok && result.ok === true;
+
+      return {
+        accepted,
+        providerMessageId: result.result?.message_id
+          ? String(result.result.message_id)
+          : null,
+        error: accepted
+          ? null
+          : `Telegram error ${result.error_code ?? response.status}: ${
+              result.description || response.statusText
+            }`,
+      };
+    },
+  };
+}
@@ -0,0 +1,4 @@
+// How long a provider gets to answer one message. An outbox delivery is
+// leased for minutes, so a hung provider must give up well before the lease
+// runs out and another instance sends the message again.
+export const PROVIDER_TIMEOUT_MS = 15 * 1000;
@@ -0,0 +1,46 @@
+import { PROVIDER_TIMEOUT_MS } from "./timeout.js";
+
+// SMS through the Twilio Messages API. A created message that Twilio has not
+// already marked failed counts as accepted.
+export function createTwilioChannel({
+  accountSid,
+  authToken,
+  from,
+  apiUrl = "https://api.twilio.com",
+}) {
+  const auth = Buffer.from(`${accountSid}:${authToken}`).toString("base64");
+
+  return {
+    type: "sms",
+    provider: "twilio",
+
+    async send({ to, text }) {
+      const response = await fetch(
+        `${apiUrl}/2010-04-01/Accounts/${accountSid}/Messages.json`,
+        {
+          method: "POST",
+          signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+          headers: {
+            "Content-Type": "application/x-www-form-urlencoded",
+            Authorization: `Basic ${auth}`,
+          },
+          body: new URLSearchParams({ To: to, From: from, Body: text }),
+        }
+      );
+
+      const result = await response.json().catch(() => ({}));
+      const accepted =
+        response.ok && !["failed", "undelivered"].includes(result.status);
+
+      return {
+        accepted,
+        providerMessageId: result.sid || null,
+        error: accepted
+          ? null
+          : `Twilio error ${result.code ?? response.status}: ${
+              result.message || result.status || response.statusText
+            }`,
+      };
+    },
+  };
+}
@@ -0,0 +1,58 @@
+import crypto from "node:crypto";
+import { postToWebhook } from "./webhookUrl.js";
+
+// Generic HTTPS webhook receiving the alert as JSON. Each request carries
+//   X-ViewTracker-Timestamp: unix seconds
+//   X-ViewTracker-Signature: sha256=HMAC-SHA256(secret, `${timestamp}.${body}`)
+// so receivers can check it came from us and reject replays.
+export function signWebhookPayload(secret, timestamp, body) {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+export function createWebhookChannel({ secret, allowLocal = false }) {
+  return {
+    type: "webhook",
+    provider: "webhook",
+
+    async send({ to, payload }) {
+      if (!secret) {
+        return {
+          accepted: false,
+          providerMessageId: null,
+          error: "WEBHOOK_SIGNING_SECRET is not set",
+        };
+      }
+
+      const body = JSON.stringify(payload);
+      const timestamp = Math.floor(Date.now() / 1000);
+
+      const response = await postToWebhook(
+        to,
+        {
+          headers: {
+            "Content-Type": "application/json",
+            "X-ViewTracker-Timestamp": String(timestamp),
+            "X-ViewTracker-Signature": `sha256=${signWebhookPayload(
+              secret,
+              timestamp,
+              body
+            )}`,
+          },
+          body,
+        },
+        { allowLocal }
+      );
+
+      return {
+        accepted: response.ok,
+        providerMessageId: null,
+        error: response.ok
+          ? null
+          : `Webhook error ${response.status}: ${response.statusText}`,
+      };
+    },
+  };
+}
@@ -0,0 +1,157 @@
+import dns from "node:dns";
+import https from "node:https";
+import net from "node:net";
+import { PROVIDER_TIMEOUT_MS } from "./timeout.js";
+
+// Slack, Discord and webhook recipients are URLs any user can enter, so the
+// server must not be usable to reach its own network through them. Only
+// HTTPS URLs are accepted, and a request only goes out once the host has
+// resolved to public addresses; the connection uses the addresses that were
+// checked, so a host can't resolve differently in between. Redirects are not
+// followed. With ALLOW_LOCAL_WEBHOOKS=true (development only) plain HTTP and
+// local addresses are allowed, e.g. for the provider stand-in.
+
+const blockedAddresses = new net.BlockList();
+
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+]) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+]) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPublicAddress(address) {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+
+  if (family === 6) {
+    // An IPv4 address written as IPv6 (::ffff:127.0.0.1) is checked as IPv4
+    const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+    if (mapped) return isPublicAddress(mapped[1]);
+    if (/^::ffff:/i.test(address)) return false;
+
+    return !blockedAddresses.check(address, "ipv6");
+  }
+
+  return !blockedAddresses.check(address, "ipv4");
+}
+
+function getHostname(url) {
+  return url.hostname.replace(/^\[|\]$/g, "");
+}
+
+// Whether a webhook URL may be saved. Hostnames are checked again, after
+// resolving them, when a message is sent.
+export function isAllowedWebhookUrl(value, { allowLocal = false } = {}) {
+  let url;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+
+  if (allowLocal) {
+    return url.protocol === "https:" || url.protocol === "http:";
+  }
+
+  if (url.protocol !== "https:") return false;
+
+  const hostname = getHostname(url).toLowerCase().replace(/\.$/, "");
+  if (hostname === "localhost" || hostname.endsWith(".localhost")) {
+    return false;
+  }
+
+  return net.isIP(hostname) === 0 || isPublicAddress(hostname);
+}
+
+// dns.lookup for https.request that fails unless every address is public
+function publicLookup(hostname, options, callback) {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    if (blocked) {
+      return callback(
+        new Error(`${hostname} resolves to a non-public address`)
+      );
+    }
+
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+function postToPublicUrl(url, { headers, body }) {
+  return new Promise((resolve, reject) => {
+    const request = https.request(
+      url,
+      {
+        method: "POST",
+        headers,
+        lookup: publicLookup,
+        signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+      },
+      (response) => {
+        const chunks = [];
+        response.on("data", (chunk) => chunks.push(chunk));
+        response.on("error", reject);
+        response.on("end", () => {
+          const text = Buffer.concat(chunks).toString();
+          resolve({
+            ok: response.statusCode >= 200 && response.statusCode < 300,
+            status: response.statusCode,
+            statusText: response.statusMessage,
+            text: async () => text,
+            json: async () => JSON.parse(text),
+          });
+        });
+      }
+    );
+
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+// POST to a webhook URL, with the part of the fetch response the channels
+// read: ok, status, statusText, text() and json()
+export async function postToWebhook(
+  value,
+  { headers, body },
+  { allowLocal = false } = {}
+) {
+  if (!isAllowedWebhookUrl(value, { allowLocal })) {
+    throw new Error("Webhook URLs must be public HTTPS URLs");
+  }
+
+  if (allowLocal) {
+    return fetch(value, {
+      method: "POST",
+      signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+      headers,
+      body,
+    });
+  }
+
+  return postToPublicUrl(new URL(value), { headers, body });
+}
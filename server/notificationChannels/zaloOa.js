@@ -0,0 +1,41 @@
+import { PROVIDER_TIMEOUT_MS } from "./timeout.js";
+
+// Zalo Official Account customer-service messages. Zalo answers 200 even for
+// rejected messages; error 0 in the body is the only acceptance.
+export function createZaloOaChannel({
+  accessToken,
+  apiUrl = "https://openapi.zalo.me",
+}) {
+  return {
+    type: "zalo",
+    provider: "zalo-oa",
+
+    async send({ to, text }) {
+      const response = await fetch(`${apiUrl}/v3.0/oa/message/cs`, {
+        method: "POST",
+        signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+        headers: {
+          "Content-Type": "application/json",
+          access_token: accessToken,
+        },
+        body: JSON.stringify({
+          recipient: { user_id: to },
+          message: { text },
+        }),
+      });
+
+      const result = await response.json().catch(() => ({}));
+      const accepted = response.ok && result.error === 0;
+
+      return {
+        accepted,
+        providerMessageId: result.data?.message_id || null,
+        error: accepted
+          ? null
+          : `Zalo error ${result.error ?? response.status}: ${
+              result.message || response.statusText
+            }`,
+      };
+    },
+  };
+}
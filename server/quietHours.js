@@ -0,0 +1,56 @@
+// Quiet hours are stored as local wall-clock times in the recipient's time
+// zone. A window whose end is before its start runs past midnight.
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)(:[0-5]\d)?$/;
+
+function parseTime(time) {
+  const match = TIME_PATTERN.exec(time);
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function getLocalMinutes(timeZone, now) {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+
+  const value = (type) =>
+    Number(parts.find((part) => part.type === type).value);
+
+  return value("hour") * 60 + value("minute");
+}
+
+export function isValidTime(time) {
+  return typeof time === "string" && TIME_PATTERN.test(time);
+}
+
+export function isValidTimeZone(timeZone) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return Boolean(timeZone);
+  } catch {
+    return false;
+  }
+}
+
+export function isQuietTime(schedule, now = new Date()) {
+  const start = parseTime(schedule.quiet_start);
+  const end = parseTime(schedule.quiet_end);
+
+  if (start === end) return false;
+
+  const local = getLocalMinutes(schedule.time_zone, now);
+
+  return start < end
+    ? local >= start && local < end
+    : local >= start || local < end;
+}
+
+export function describeQuietHours(schedule) {
+  return `${schedule.quiet_start.slice(0, 5)}-${schedule.quiet_end.slice(
+    0,
+    5
+  )} ${schedule.time_zone}`;
+}
@@ -0,0 +1,72 @@
+// Retention of view samples. Raw samples are rolled up into hourly and daily
+// buckets (UTC) and deleted after a number of days; hourly buckets are
+// deleted later, daily buckets are kept.
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Anomaly baselines (up to 168 hours) and weekly digests read raw samples
+export const MIN_RAW_RETENTION_DAYS = 7;
+export const MAX_RETENTION_DAYS = 3650;
+
+export const DEFAULT_RETENTION_SETTINGS = {
+  raw_retention_days: 14,
+  hourly_retention_days: 365,
+  rolled_up_until: null,
+  next_run_at: null,
+  last_run_at: null,
+  last_error: null,
+  last_deleted_raw: null,
+  last_deleted_hourly: null,
+  updated_at: null,
+  updated_by: null,
+};
+
+// The most raw samples one rollup call covers, so a first run over a long
+// history does not hit the statement timeout
+export const ROLLUP_CHUNK_MS = 7 * DAY_MS;
+
+export function startOfHour(time) {
+  return new Date(Math.floor(time.getTime() / HOUR_MS) * HOUR_MS);
+}
+
+export function startOfDay(time) {
+  return new Date(Math.floor(time.getTime() / DAY_MS) * DAY_MS);
+}
+
+// Where each tier starts being read: raw samples from `rawSince`, hourly
+// rollups from `hourlySince`, daily rollups before that. The boundaries fall
+// on whole hours and days so the tiers' buckets line up.
+export function getRetentionCutoffs(settings, now = new Date()) {
+  return {
+    rawSince: startOfHour(
+      new Date(now.getTime() - settings.raw_retention_days * DAY_MS)
+    ),
+    hourlySince: startOfDay(
+      new Date(now.getTime() - settings.hourly_retention_days * DAY_MS)
+    ),
+  };
+}
+
+export function validateRetentionSettings({
+  rawRetentionDays,
+  hourlyRetentionDays,
+}) {
+  if (
+    !Number.isInteger(rawRetentionDays) ||
+    rawRetentionDays < MIN_RAW_RETENTION_DAYS ||
+    rawRetentionDays > MAX_RETENTION_DAYS
+  ) {
+    return `Raw samples must be kept ${MIN_RAW_RETENTION_DAYS}-${MAX_RETENTION_DAYS} days`;
+  }
+
+  if (
+    !Number.isInteger(hourlyRetentionDays) ||
+    hourlyRetentionDays < rawRetentionDays ||
+    hourlyRetentionDays > MAX_RETENTION_DAYS
+  ) {
+    return `Hourly rollups must be kept ${rawRetentionDays}-${MAX_RETENTION_DAYS} days, at least as long as raw samples`;
+  }
+
+  return null;
+}
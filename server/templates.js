@@ -0,0 +1,268 @@
+// Notification templates. Each user can override the default template of any
+// channel in any language. Templates use {{variable}} placeholders, and
+// {{#variable}}...{{/variable}} sections shown only when the variable is set.
+
+export const TEMPLATE_LANGUAGES = ["en", "vi"];
+export const TEMPLATE_CHANNELS = [
+  "email_subject",
+  "email_body",
+  "sms",
+  "zalo",
+  "chat",
+];
+
+export const TEMPLATE_VARIABLES = [
+  "videoTitle",
+  "videoUrl",
+  "viewsPerMinute",
+  "threshold",
+  "level",
+  "levelLabel",
+  "headline",
+  "dashboardUrl",
+  "acknowledgeUrl",
+  "time",
+  "heldSummary",
+];
+
+const LEVEL_LABELS = {
+  en: { warning: "WARNING", emergency: "EMERGENCY", recovery: "RESOLVED" },
+  vi: { warning: "CẢNH BÁO", emergency: "KHẨN CẤP", recovery: "ĐÃ ỔN ĐỊNH" },
+};
+
+const HEADLINES = {
+  en: {
+    warning: "WARNING Alert: High view rate detected",
+    emergency: "EMERGENCY Alert: High view rate detected",
+    recovery: "RESOLVED: View rate back to normal",
+  },
+  vi: {
+    warning: "CẢNH BÁO: Lượt xem tăng cao",
+    emergency: "KHẨN CẤP: Lượt xem tăng đột biến",
+    recovery: "ĐÃ ỔN ĐỊNH: Lượt xem trở lại bình thường",
+  },
+};
+
+export const DEFAULT_TEMPLATES = {
+  en: {
+    email_subject: "{{headline}}: {{videoTitle}}",
+    email_body: `<h1>{{headline}}</h1>
+<p>The video <strong>{{videoTitle}}</strong> is at a view rate of <strong>{{viewsPerMinute}} views/minute</strong>{{#threshold}} (threshold {{threshold}}){{/threshold}}.</p>
+<p>View the video: <a href="{{videoUrl}}">{{videoUrl}}</a></p>
+{{#acknowledgeUrl}}<p><a href="{{acknowledgeUrl}}">Acknowledge this incident</a> to stop reminders.</p>{{/acknowledgeUrl}}
+{{#heldSummary}}<p>Alerts held during your quiet hours:<br>{{heldSummary}}</p>{{/heldSummary}}
+<p>Please check the <a href="{{dashboardUrl}}">dashboard</a> for more details. Sent {{time}}.</p>`,
+    sms: "{{levelLabel}}: {{videoTitle}} at {{viewsPerMinute}} views/min{{#acknowledgeUrl}} Ack: {{acknowledgeUrl}}{{/acknowledgeUrl}}",
+    zalo: `{{headline}}
+{{videoTitle}}: {{viewsPerMinute}} views/minute{{#threshold}} (threshold {{threshold}}){{/threshold}}
+{{#heldSummary}}Held during quiet hours:
+{{heldSummary}}
+{{/heldSummary}}{{#acknowledgeUrl}}Acknowledge: {{acknowledgeUrl}}{{/acknowledgeUrl}}`,
+    chat: `{{headline}}
+{{videoTitle}}: {{viewsPerMinute}} views/minute{{#threshold}} (threshold {{threshold}}){{/threshold}}
+{{videoUrl}}
+{{#heldSummary}}Held during quiet hours:
+{{heldSummary}}
+{{/heldSummary}}{{#acknowledgeUrl}}Acknowledge: {{acknowledgeUrl}}{{/acknowledgeUrl}}`,
+  },
+  vi: {
+    email_subject: "{{headline}}: {{videoTitle}}",
+    email_body: `<h1>{{headline}}</h1>
+<p>Video <strong>{{videoTitle}}</strong> đang đạt <strong>{{viewsPerMinute}} lượt xem/phút</strong>{{#threshold}} (ngưỡng {{threshold}}){{/threshold}}.</p>
+<p>Xem video: <a href="{{videoUrl}}">{{videoUrl}}</a></p>
+{{#acknowledgeUrl}}<p><a href="{{acknowledgeUrl}}">Xác nhận sự cố</a> để dừng nhắc lại.</p>{{/acknowledgeUrl}}
+{{#heldSummary}}<p>Cảnh báo được giữ lại trong giờ yên lặng:<br>{{heldSummary}}</p>{{/heldSummary}}
+<p>Xem thêm chi tiết trên <a href="{{dashboardUrl}}">bảng điều khiển</a>. Gửi lúc {{time}}.</p>`,
+    sms: "{{levelLabel}}: {{videoTitle}} {{viewsPerMinute}} luot xem/phut{{#acknowledgeUrl}} Xac nhan: {{acknowledgeUrl}}{{/acknowledgeUrl}}",
+    zalo: `{{headline}}
+{{videoTitle}}: {{viewsPerMinute}} lượt xem/phút{{#threshold}} (ngưỡng {{threshold}}){{/threshold}}
+{{#heldSummary}}Giữ lại trong giờ yên lặng:
+{{heldSummary}}
+{{/heldSummary}}{{#acknowledgeUrl}}Xác nhận: {{acknowledgeUrl}}{{/acknowledgeUrl}}`,
+    chat: `{{headline}}
+{{videoTitle}}: {{viewsPerMinute}} lượt xem/phút{{#threshold}} (ngưỡng {{threshold}}){{/threshold}}
+{{videoUrl}}
+{{#heldSummary}}Giữ lại trong giờ yên lặng:
+{{heldSummary}}
+{{/heldSummary}}{{#acknowledgeUrl}}Xác nhận: {{acknowledgeUrl}}{{/acknowledgeUrl}}`,
+  },
+};
+
+const SECTION_PATTERN = /{{#(\w+)}}([\s\S]*?){{\/\1}}/g;
+const VARIABLE_PATTERN = /{{(\w+)}}/g;
+
+function escapeHtml(text) {
+  return String(text)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Names used in the template that aren't known variables
+export function findUnknownVariables(template) {
+  const names = [
+    ...template.matchAll(SECTION_PATTERN),
+    ...template.matchAll(VARIABLE_PATTERN),
+  ].map((match) => match[1]);
+
+  return [...new Set(names)].filter(
+    (name) => !TEMPLATE_VARIABLES.includes(name)
+  );
+}
+
+// HTML templates get their variables escaped, and line breaks kept
+export function renderTemplate(template, variables, { html = false } = {}) {
+  const format = (value) =>
+    html ? escapeHtml(value).replace(/\n/g, "<br>") : String(value);
+
+  return template
+    .replace(SECTION_PATTERN, (_, name, inner) =>
+      variables[name] ? inner : ""
+    )
+    .replace(VARIABLE_PATTERN, (match, name) =>
+      name in variables ? format(variables[name] ?? "") : match
+    )
+    .trim();
+}
+
+export function getTemplateVariables({
+  language,
+  timeZone,
+  videoInfo,
+  alertLevel,
+  heldAlerts = [],
+  dashboardUrl,
+  now = new Date(),
+}) {
+  const locale = language === "vi" ? "vi-VN" : "en-US";
+  const formatTime = (time) =>
+    new Date(time).toLocaleString(locale, { timeZone });
+
+  return {
+    videoTitle: videoInfo.title,
+    videoUrl: `https://www.youtube.com/watch?v=${videoInfo.id}`,
+    viewsPerMinute: videoInfo.viewsPerMinute,
+    threshold: videoInfo.threshold ?? "",
+    level: alertLevel,
+    levelLabel: LEVEL_LABELS[language][alertLevel],
+    headline: HEADLINES[language][alertLevel],
+    dashboardUrl: `${dashboardUrl}/video/${videoInfo.id}`,
+    acknowledgeUrl: videoInfo.acknowledgeUrl || "",
+    time: formatTime(now),
+    heldSummary: heldAlerts
+      .map(
+        (held) =>
+          `${formatTime(held.timestamp)} - ${
+            LEVEL_LABELS[language][held.alert_level]
+          }: ${held.video_title} (${held.views_per_minute}/min)`
+      )
+      .join("\n"),
+  };
+}
+
+// Footers added to every email and SMS alert whatever its template says, so
+// a recipient can always opt out. The text one is short and GSM-7 for SMS.
+const UNSUBSCRIBE_FOOTERS = {
+  en: {
+    text: "Stop: {{url}}",
+    html: '<p style="font-size:12px;color:#6b7280">Don\'t want these alerts? <a href="{{url}}">Unsubscribe</a></p>',
+  },
+  vi: {
+    text: "Huy: {{url}}",
+    html: '<p style="font-size:12px;color:#6b7280">Không muốn nhận cảnh báo? <a href="{{url}}">Hủy đăng ký</a></p>',
+  },
+};
+
+export function addUnsubscribeFooter(
+  rendered,
+  url,
+  language,
+  { html = false } = {}
+) {
+  const footer = UNSUBSCRIBE_FOOTERS[language] || UNSUBSCRIBE_FOOTERS.en;
+
+  return `${rendered}\n${renderTemplate(
+    html ? footer.html : footer.text,
+    { url },
+    { html }
+  )}`;
+}
+
+// Messages asking a new recipient to confirm they want alerts: a link by
+// email, a code by SMS or Zalo for the dashboard user to enter
+const VERIFICATION_MESSAGES = {
+  en: {
+    subject: "Confirm you want YouTube view alerts",
+    text: "You were added as a recipient of YouTube view alerts. Confirm to start receiving them: {{url}}\nIf you didn't expect this, ignore this email.",
+    html: '<p>You were added as a recipient of YouTube view alerts.</p>\n<p><a href="{{url}}">Confirm</a> to start receiving them. If you didn\'t expect this, ignore this email.</p>',
+    code: "Your YouTube view alerts code is {{code}}. Give it to the person who added you to start receiving alerts.",
+  },
+  vi: {
+    subject: "Xác nhận nhận cảnh báo lượt xem YouTube",
+    text: "Bạn được thêm làm người nhận cảnh báo lượt xem YouTube. Xác nhận để bắt đầu nhận cảnh báo: {{url}}\nNếu bạn không yêu cầu, hãy bỏ qua email này.",
+    html: '<p>Bạn được thêm làm người nhận cảnh báo lượt xem YouTube.</p>\n<p><a href="{{url}}">Xác nhận</a> để bắt đầu nhận cảnh báo. Nếu bạn không yêu cầu, hãy bỏ qua email này.</p>',
+    code: "Ma xac nhan canh bao luot xem YouTube cua ban la {{code}}. Gui ma nay cho nguoi da them ban de bat dau nhan canh bao.",
+  },
+};
+
+// Subject, text and HTML of a confirmation email for a url, or the text of a
+// code message
+export function renderVerificationMessage(language, { url, code }) {
+  const messages = VERIFICATION_MESSAGES[language] || VERIFICATION_MESSAGES.en;
+
+  if (code) {
+    return { text: renderTemplate(messages.code, { code }) };
+  }
+
+  return {
+    subject: messages.subject,
+    text: renderTemplate(messages.text, { url }),
+    html: renderTemplate(messages.html, { url }, { html: true }),
+  };
+}
+
+// GSM-7 characters; the extension table ones take two
+const GSM_7 =
+  "@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !\"#¤%&'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà";
+const GSM_7_EXTENDED = "^{}\\[~]|€";
+
+// How many SMS segments a text takes. Any character outside GSM-7 (most
+// Vietnamese diacritics) switches the whole message to UCS-2.
+export function getSmsSegments(text) {
+  const characters = [...text];
+  const isGsm = characters.every(
+    (character) =>
+      GSM_7.includes(character) || GSM_7_EXTENDED.includes(character)
+  );
+
+  const length = isGsm
+    ? characters.reduce(
+        (total, character) =>
+          total + (GSM_7_EXTENDED.includes(character) ? 2 : 1),
+        0
+      )
+    : text.length;
+  const singleLimit = isGsm ? 160 : 70;
+  const segmentLimit = isGsm ? 153 : 67;
+
+  return {
+    encoding: isGsm ? "GSM-7" : "UCS-2",
+    length,
+    singleLimit,
+    segments: length <= singleLimit ? 1 : Math.ceil(length / segmentLimit),
+  };
+}
+
+// Segment count of a rendered SMS, with a warning once it needs more than one
+export function checkSmsLength(text) {
+  const sms = getSmsSegments(text);
+
+  return {
+    ...sms,
+    warning:
+      sms.segments > 1
+        ? `SMS is ${sms.length} ${sms.encoding} characters, over the ${sms.singleLimit}-character single message limit, and will be sent as ${sms.segments} segments`
+        : null,
+  };
+}
@@ -0,0 +1,94 @@
+// Samples are expected one polling interval apart. A pair further apart than
+// this many intervals is reported as a gap (restart, missed tick, outage).
+const GAP_TOLERANCE = 2;
+
+export const DEFAULT_SAMPLE_INTERVAL_MS = 60 * 1000;
+
+function elapsedMs(current, previous) {
+  return new Date(current.timestamp) - new Date(previous.timestamp);
+}
+
+// A sample taken before the video was last resumed belongs to an earlier
+// tracking session and must not be compared with newer samples
+export function isStaleSample(sample, resumedAt) {
+  return (
+    Boolean(resumedAt) && new Date(sample.timestamp) < new Date(resumedAt)
+  );
+}
+
+export function getMaxSampleGapMs(intervalMs = DEFAULT_SAMPLE_INTERVAL_MS) {
+  return intervalMs * GAP_TOLERANCE;
+}
+
+// A sample records the interval it was polled on (interval_seconds), which
+// quota throttling may have stretched; intervalMs is used for samples taken
+// before that was recorded
+export function isGap(
+  current,
+  previous,
+  intervalMs = DEFAULT_SAMPLE_INTERVAL_MS
+) {
+  const sampleIntervalMs = current.interval_seconds
+    ? current.interval_seconds * 1000
+    : intervalMs;
+
+  return elapsedMs(current, previous) > getMaxSampleGapMs(sampleIntervalMs);
+}
+
+// Views gained per minute between two samples, normalized by the real time
+// between them rather than assuming they are exactly one minute apart
+export function getViewsPerMinute(current, previous) {
+  const minutes = elapsedMs(current, previous) / 60000;
+
+  if (minutes <= 0) return 0;
+
+  return Math.round((current.views - previous.views) / minutes);
+}
+
+// Rate between the newest two samples (newest first), or 0 when there is no
+// usable previous sample
+export function getCurrentRate(samples, resumedAt) {
+  const [latest, previous] = samples;
+
+  if (!latest || !previous || isStaleSample(previous, resumedAt)) {
+    return 0;
+  }
+
+  return getViewsPerMinute(latest, previous);
+}
+
+// Build the chart history from samples ordered newest first. Each entry is
+// marked as a gap when the sample before it is missing or stale.
+export function buildViewHistory(
+  samples,
+  { resumedAt, intervalMs = DEFAULT_SAMPLE_INTERVAL_MS } = {}
+) {
+  const history = [];
+
+  for (let i = 0; i < samples.length; i++) {
+    const current = samples[i];
+    const previous = samples[i + 1];
+
+    if (!previous) {
+      history.push({
+        timestamp: current.timestamp,
+        views: current.views,
+        viewsPerMinute: 0,
+        gap: false,
+      });
+      continue;
+    }
+
+    const stale =
+      isStaleSample(previous, resumedAt) && !isStaleSample(current, resumedAt);
+
+    history.push({
+      timestamp: current.timestamp,
+      views: current.views,
+      viewsPerMinute: stale ? 0 : getViewsPerMinute(current, previous),
+      gap: stale || isGap(current, previous, intervalMs),
+    });
+  }
+
+  return history.reverse();
+}
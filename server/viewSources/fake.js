@@ -0,0 +1,93 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+
+// View source that replays recorded view curves instead of calling YouTube.
+//
+// The file is either JSON or a JS module whose default export has the shape:
+//
+//   {
+//     "videos": {
+//       "<videoId>": {
+//         "title": "Launch trailer",
+//         "thumbnail": "https://...",
+//         "curve": [[0, 1000], [5, 1500], [6, 4000]]
+//       }
+//     }
+//   }
+//
+// Each curve point is [minutesSinceStart, totalViews]. Views are linearly
+// interpolated between points and hold at the last point once the curve ends.
+// A JS module may give a video a views(minutes) function instead of a curve.
+// Ids that are not in the file are reported as missing, like deleted videos.
+export async function createFakeViewSource({ file, now = Date.now }) {
+  const script = await loadScript(file);
+  const videos = script.videos || {};
+  const startedAt = now();
+
+  const minutesElapsed = () => (now() - startedAt) / 60000;
+
+  return {
+    name: "fake",
+
+    async getStatistics(ids) {
+      const minutes = minutesElapsed();
+      const statistics = new Map();
+
+      for (const id of ids) {
+        const video = videos[id];
+        if (!video) continue;
+
+        const viewCount =
+          typeof video.views === "function"
+            ? video.views(minutes)
+            : interpolate(video.curve || [], minutes);
+
+        statistics.set(id, { viewCount: Math.round(viewCount) });
+      }
+
+      return statistics;
+    },
+
+    async getSnippet(id) {
+      const video = videos[id];
+
+      if (!video) return null;
+
+      return {
+        id,
+        title: video.title || `Fake video ${id}`,
+        thumbnail:
+          video.thumbnail || `https://i.ytimg.com/vi/${id}/hqdefault.jpg`,
+      };
+    },
+  };
+}
+
+async function loadScript(file) {
+  const resolved = path.resolve(file);
+
+  if (/\.(c|m)?js$/.test(resolved)) {
+    const module = await import(pathToFileURL(resolved).href);
+    return module.default;
+  }
+
+  return JSON.parse(await fs.readFile(resolved, "utf8"));
+}
+
+function interpolate(curve, minutes) {
+  if (curve.length === 0) return 0;
+  if (minutes <= curve[0][0]) return curve[0][1];
+
+  for (let i = 1; i < curve.length; i++) {
+    const [endMinute, endViews] = curve[i];
+
+    if (minutes <= endMinute) {
+      const [startMinute, startViews] = curve[i - 1];
+      const progress = (minutes - startMinute) / (endMinute - startMinute);
+      return startViews + (endViews - startViews) * progress;
+    }
+  }
+
+  return curve[curve.length - 1][1];
+}
@@ -0,0 +1,26 @@
+import { createYouTubeViewSource } from "./youtube.js";
+import { createFakeViewSource } from "./fake.js";
+
+// A view source provides the video data the server needs:
+//   getStatistics(ids) -> Map of id => { viewCount } for the ids it found
+//   getSnippet(id)     -> { id, title, thumbnail }, or null if not found
+//
+// VIEW_SOURCE selects the implementation: "youtube" (default) or "fake",
+// which replays the curves in FAKE_VIEW_SOURCE_FILE.
+export async function createViewSource(env = process.env) {
+  const source = env.VIEW_SOURCE || "youtube";
+
+  switch (source) {
+    case "youtube":
+      return createYouTubeViewSource({ apiKey: env.YOUTUBE_API_KEY });
+    case "fake":
+      if (!env.FAKE_VIEW_SOURCE_FILE) {
+        throw new Error(
+          "FAKE_VIEW_SOURCE_FILE is required for the fake view source"
+        );
+      }
+      return createFakeViewSource({ file: env.FAKE_VIEW_SOURCE_FILE });
+    default:
+      throw new Error(`Invalid view source: ${source}`);
+  }
+}
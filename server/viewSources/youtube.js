@@ -0,0 +1,50 @@
+import { google } from "googleapis";
+
+// View source backed by the YouTube Data API v3
+export function createYouTubeViewSource({ apiKey }) {
+  const youtube = google.youtube({
+    version: "v3",
+    auth: apiKey,
+  });
+
+  return {
+    name: "youtube",
+
+    // Accepts at most 50 ids, the videos.list limit
+    async getStatistics(ids) {
+      const response = await youtube.videos.list({
+        part: "statistics",
+        id: ids.join(","),
+        maxResults: ids.length,
+      });
+
+      const statistics = new Map();
+      for (const item of response.data.items || []) {
+        const viewCount = Number.parseInt(item.statistics.viewCount, 10);
+
+        if (!Number.isNaN(viewCount)) {
+          statistics.set(item.id, { viewCount });
+        }
+      }
+
+      return statistics;
+    },
+
+    async getSnippet(id) {
+      const response = await youtube.videos.list({
+        part: "snippet",
+        id,
+      });
+
+      const video = response.data.items[0];
+
+      if (!video) return null;
+
+      return {
+        id: video.id,
+        title: video.snippet.title,
+        thumbnail: video.snippet.thumbnails.high.url,
+      };
+    },
+  };
+}
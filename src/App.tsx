@@ -12,6 +12,12 @@ import Layout from "./components/Layout";
 import AddVideo from "./pages/AddVideo";
 import VideoDetails from "./pages/VideoDetails";
 import NotificationHistory from "./pages/NotificationHistory";
+import Contacts from "./pages/Contacts";
+import EscalationPolicies from "./pages/EscalationPolicies";
+import QuietHours from "./pages/QuietHours";
+import Templates from "./pages/Templates";
+import Digest from "./pages/Digest";
+import Retention from "./pages/Retention";
 import { AuthProvider, useAuth } from "./contexts/AuthContext";
 
 // Protected route component
@@ -47,7 +53,14 @@ function App() {
             <Route index element={<Dashboard />} />
             <Route path="add-video" element={<AddVideo />} />
             <Route path="video/:id" element={<VideoDetails />} />
+            <Route path="video/:id/edit" element={<AddVideo />} />
             <Route path="notifications" element={<NotificationHistory />} />
+            <Route path="contacts" element={<Contacts />} />
+            <Route path="escalation" element={<EscalationPolicies />} />
+            <Route path="quiet-hours" element={<QuietHours />} />
+            <Route path="templates" element={<Templates />} />
+            <Route path="digest" element={<Digest />} />
+            <Route path="retention" element={<Retention />} />
           </Route>
         </Routes>
       </Router>
@@ -0,0 +1,58 @@
+// Alert rule model shared by the rule builder and the video details page.
+// Mirrors the rules evaluated by the server scheduler.
+
+export type AlertLevel = 'warning' | 'emergency';
+
+export type RuleCondition =
+  | { type: 'rate'; min: number; samples: number }
+  | { type: 'growth'; percent: number; minutes: number }
+  | { type: 'anomaly'; sigma: number }
+  | { match: 'all' | 'any'; conditions: RuleCondition[] };
+
+export interface AlertRule {
+  level: AlertLevel;
+  match: 'all' | 'any';
+  conditions: RuleCondition[];
+}
+
+export type ConditionType = 'rate' | 'growth' | 'anomaly';
+
+export const defaultCondition = (type: ConditionType): RuleCondition => {
+  switch (type) {
+    case 'growth':
+      return { type, percent: 50, minutes: 10 };
+    case 'anomaly':
+      return { type, sigma: 3 };
+    default:
+      return { type: 'rate', min: 100, samples: 3 };
+  }
+};
+
+export const defaultRule = (level: AlertLevel = 'warning'): AlertRule => ({
+  level,
+  match: 'all',
+  conditions: [{ type: 'rate', min: level === 'emergency' ? 100 : 50, samples: 3 }],
+});
+
+export const describeCondition = (condition: RuleCondition): string => {
+  if ('conditions' in condition) {
+    const joiner = condition.match === 'all' ? ' AND ' : ' OR ';
+    return `(${condition.conditions.map(describeCondition).join(joiner)})`;
+  }
+
+  switch (condition.type) {
+    case 'rate':
+      return condition.samples === 1
+        ? `rate ≥ ${condition.min}/min`
+        : `rate ≥ ${condition.min}/min for ${condition.samples} samples`;
+    case 'growth':
+      return `rate up ${condition.percent}% over ${condition.minutes} min`;
+    case 'anomaly':
+      return `rate ${condition.sigma}σ above baseline`;
+  }
+};
+
+export const describeRule = (rule: AlertRule): string =>
+  rule.conditions
+    .map(describeCondition)
+    .join(rule.match === 'all' ? ' AND ' : ' OR ');
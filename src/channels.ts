@@ -0,0 +1,43 @@
+// Notification channel types and the key each one's recipients are stored
+// under in a video's notifications. Mirrors ALERT_CHANNELS on the server.
+
+export type ChannelType =
+  | 'email'
+  | 'zalo'
+  | 'sms'
+  | 'slack'
+  | 'discord'
+  | 'telegram'
+  | 'webhook';
+
+export interface NotificationRecipients {
+  emails: string[];
+  zaloIds: string[];
+  phoneNumbers: string[];
+  slackWebhooks?: string[];
+  discordWebhooks?: string[];
+  telegramChatIds?: string[];
+  webhooks?: string[];
+}
+
+export const CHANNEL_LABELS: Record<ChannelType, string> = {
+  email: 'Email',
+  zalo: 'Zalo',
+  sms: 'SMS',
+  slack: 'Slack',
+  discord: 'Discord',
+  telegram: 'Telegram',
+  webhook: 'Webhook',
+};
+
+export const RECIPIENT_KEYS: Record<ChannelType, keyof NotificationRecipients> = {
+  email: 'emails',
+  zalo: 'zaloIds',
+  sms: 'phoneNumbers',
+  slack: 'slackWebhooks',
+  discord: 'discordWebhooks',
+  telegram: 'telegramChatIds',
+  webhook: 'webhooks',
+};
+
+export const CHANNEL_TYPES = Object.keys(CHANNEL_LABELS) as ChannelType[];
@@ -0,0 +1,191 @@
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  AlertRule,
+  ConditionType,
+  RuleCondition,
+  defaultCondition,
+  defaultRule,
+} from '../alertRules';
+
+interface AlertRuleBuilderProps {
+  value: AlertRule[];
+  onChange: (rules: AlertRule[]) => void;
+}
+
+const inputClass =
+  'w-20 px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg text-sm focus:ring-blue-500 focus:border-blue-500';
+const selectClass =
+  'bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-sm focus:ring-blue-500 focus:border-blue-500';
+
+interface ConditionEditorProps {
+  condition: RuleCondition;
+  onChange: (condition: RuleCondition) => void;
+}
+
+// Edits a single leaf condition. Nested groups created through the API are
+// shown read-only.
+const ConditionEditor = ({ condition, onChange }: ConditionEditorProps) => {
+  if ('conditions' in condition) {
+    return <span className="text-sm text-gray-400">Nested group (edit through the API)</span>;
+  }
+
+  const numberInput = (value: number, update: (value: number) => void, step = 1) => (
+    <input
+      type="number"
+      min={step}
+      step={step}
+      value={value}
+      onChange={e => update(Number(e.target.value))}
+      className={inputClass}
+    />
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <select
+        value={condition.type}
+        onChange={e => onChange(defaultCondition(e.target.value as ConditionType))}
+        className={selectClass}
+      >
+        <option value="rate">Rate at least</option>
+        <option value="growth">Rate grew by</option>
+        <option value="anomaly">Rate above baseline by</option>
+      </select>
+      
+      {condition.type === 'rate' && (
+        <>
+          {numberInput(condition.min, min => onChange({ ...condition, min }))}
+          <span className="text-gray-400">views/min for</span>
+          {numberInput(condition.samples, samples => onChange({ ...condition, samples }))}
+          <span className="text-gray-400">consecutive samples</span>
+        </>
+      )}
+      
+      {condition.type === 'growth' && (
+        <>
+          {numberInput(condition.percent, percent => onChange({ ...condition, percent }))}
+          <span className="text-gray-400">% over</span>
+          {numberInput(condition.minutes, minutes => onChange({ ...condition, minutes }))}
+          <span className="text-gray-400">minutes</span>
+        </>
+      )}
+      
+      {condition.type === 'anomaly' && (
+        <>
+          {numberInput(condition.sigma, sigma => onChange({ ...condition, sigma }), 0.5)}
+          <span className="text-gray-400">standard deviations</span>
+        </>
+      )}
+    </div>
+  );
+};
+
+const AlertRuleBuilder = ({ value, onChange }: AlertRuleBuilderProps) => {
+  const updateRule = (index: number, rule: AlertRule) => {
+    const rules = [...value];
+    rules[index] = rule;
+    onChange(rules);
+  };
+  
+  const removeRule = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+  
+  return (
+    <div className="space-y-4">
+      {value.map((rule, ruleIndex) => (
+        <div
+          key={ruleIndex}
+          className={`bg-gray-700 rounded-lg p-4 border-l-4 ${
+            rule.level === 'emergency' ? 'border-red-500' : 'border-yellow-500'
+          }`}
+        >
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-3 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <span>When</span>
+              <select
+                value={rule.match}
+                onChange={e => updateRule(ruleIndex, { ...rule, match: e.target.value as 'all' | 'any' })}
+                className={selectClass}
+              >
+                <option value="all">all</option>
+                <option value="any">any</option>
+              </select>
+              <span>of these are true, raise</span>
+              <select
+                value={rule.level}
+                onChange={e => updateRule(ruleIndex, { ...rule, level: e.target.value as AlertRule['level'] })}
+                className={selectClass}
+              >
+                <option value="warning">Warning</option>
+                <option value="emergency">Emergency</option>
+              </select>
+            </div>
+            <button
+              type="button"
+              onClick={() => removeRule(ruleIndex)}
+              className="p-1.5 bg-gray-600 hover:bg-red-600 rounded-lg transition-colors"
+              title="Remove rule"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+          
+          <div className="space-y-2">
+            {rule.conditions.map((condition, conditionIndex) => (
+              <div key={conditionIndex} className="flex items-center justify-between gap-2">
+                <ConditionEditor
+                  condition={condition}
+                  onChange={updated => {
+                    const conditions = [...rule.conditions];
+                    conditions[conditionIndex] = updated;
+                    updateRule(ruleIndex, { ...rule, conditions });
+                  }}
+                />
+                {rule.conditions.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateRule(ruleIndex, {
+                        ...rule,
+                        conditions: rule.conditions.filter((_, i) => i !== conditionIndex),
+                      })
+                    }
+                    className="px-3 py-1 bg-gray-600 text-white rounded-lg hover:bg-red-600 transition-colors"
+                  >
+                    -
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          
+          <button
+            type="button"
+            onClick={() =>
+              updateRule(ruleIndex, {
+                ...rule,
+                conditions: [...rule.conditions, defaultCondition('rate')],
+              })
+            }
+            className="mt-3 text-sm text-blue-400 hover:text-blue-300 flex items-center"
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Add condition
+          </button>
+        </div>
+      ))}
+      
+      <button
+        type="button"
+        onClick={() => onChange([...value, defaultRule()])}
+        className="px-3 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm flex items-center"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add rule
+      </button>
+    </div>
+  );
+};
+
+export default AlertRuleBuilder;
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import toast from 'react-hot-toast';
+import axios from 'axios';
+import { API_URL } from '../config';
+
+type ExportFormat = 'csv' | 'json';
+
+interface ExportButtonsProps {
+  // Export endpoint under the API, e.g. /notifications/export
+  path: string;
+  params: Record<string, string | undefined>;
+  filename: string;
+}
+
+// Downloads an export in either format. The request carries the auth
+// header, so the file is fetched with axios rather than linked to.
+const ExportButtons = ({ path, params, filename }: ExportButtonsProps) => {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const download = async (format: ExportFormat) => {
+    try {
+      setExporting(format);
+      const response = await axios.get(`${API_URL}${path}`, {
+        params: { ...params, format },
+        responseType: 'blob',
+      });
+
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${filename}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      toast.error('Failed to export data');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="flex items-center rounded-lg overflow-hidden border border-gray-600 text-sm">
+      <span className="flex items-center px-3 py-1 bg-gray-700 text-gray-300">
+        <Download className="h-4 w-4 mr-1" />
+        Export
+      </span>
+      {(['csv', 'json'] as ExportFormat[]).map(format => (
+        <button
+          key={format}
+          type="button"
+          onClick={() => download(format)}
+          disabled={exporting !== null}
+          className="px-3 py-1 bg-gray-700 border-l border-gray-600 hover:bg-gray-600 transition-colors uppercase disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {exporting === format ? '…' : format}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ExportButtons;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import {
+  HistoryBucket,
+  HistoryPreset,
+  HistoryRange,
+  HISTORY_BUCKET_LABELS,
+  HISTORY_PRESET_MS,
+  getAllowedBuckets,
+  getDefaultBucket,
+  getRangeTimes,
+} from '../viewHistory';
+
+interface HistoryRangePickerProps {
+  value: HistoryRange;
+  onChange: (range: HistoryRange) => void;
+}
+
+const PRESET_LABELS: Record<HistoryPreset, string> = {
+  '1h': '1h',
+  '24h': '24h',
+  '7d': '7d',
+  '30d': '30d',
+  custom: 'Custom',
+};
+
+// datetime-local inputs take local time without a zone
+const toInputValue = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+// Range presets ending now, or a custom from/to, and the bucket size the
+// history is aggregated by
+const HistoryRangePicker = ({ value, onChange }: HistoryRangePickerProps) => {
+  const [customFrom, setCustomFrom] = useState(value.from);
+  const [customTo, setCustomTo] = useState(value.to);
+
+  const { from, to } = getRangeTimes(value);
+  const allowedBuckets = getAllowedBuckets(to.getTime() - from.getTime());
+
+  const selectPreset = (preset: HistoryPreset) => {
+    if (preset === 'custom') {
+      // Start from the range shown so far
+      const fromValue = customFrom || toInputValue(from);
+      const toValue = customTo || toInputValue(to);
+      setCustomFrom(fromValue);
+      setCustomTo(toValue);
+      onChange({ preset, from: fromValue, to: toValue, bucket: value.bucket });
+      return;
+    }
+
+    onChange({ ...value, preset, bucket: getDefaultBucket(HISTORY_PRESET_MS[preset]) });
+  };
+
+  const customRangeMs = new Date(customTo).getTime() - new Date(customFrom).getTime();
+  const isCustomValid = customRangeMs > 0;
+
+  const applyCustomRange = () => {
+    onChange({ preset: 'custom', from: customFrom, to: customTo, bucket: getDefaultBucket(customRangeMs) });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6">
+      <div className="flex rounded-lg overflow-hidden border border-gray-600">
+        {(Object.keys(PRESET_LABELS) as HistoryPreset[]).map(preset => (
+          <button
+            key={preset}
+            type="button"
+            onClick={() => selectPreset(preset)}
+            className={`px-3 py-1 text-sm transition-colors ${
+              value.preset === preset ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {PRESET_LABELS[preset]}
+          </button>
+        ))}
+      </div>
+
+      {value.preset === 'custom' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="datetime-local"
+            value={customFrom}
+            onChange={(e) => setCustomFrom(e.target.value)}
+            className="px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg text-sm"
+          />
+          <span className="text-gray-400 text-sm">to</span>
+          <input
+            type="datetime-local"
+            value={customTo}
+            onChange={(e) => setCustomTo(e.target.value)}
+            className="px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg text-sm"
+          />
+          <button
+            type="button"
+            onClick={applyCustomRange}
+            disabled={!isCustomValid}
+            className="px-3 py-1 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Apply
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 ml-auto">
+        <label htmlFor="historyBucket" className="text-sm text-gray-400">Per:</label>
+        <select
+          id="historyBucket"
+          value={value.bucket}
+          onChange={(e) => onChange({ ...value, bucket: e.target.value as HistoryBucket })}
+          className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-sm focus:ring-blue-500 focus:border-blue-500"
+        >
+          {allowedBuckets.map(bucket => (
+            <option key={bucket} value={bucket}>{HISTORY_BUCKET_LABELS[bucket]}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryRangePicker;
@@ -0,0 +1,185 @@
+import React, { useState, useEffect } from 'react';
+import { Send } from 'lucide-react';
+import toast from 'react-hot-toast';
+import axios from 'axios';
+import { API_URL } from '../config';
+import { ChannelType, CHANNEL_LABELS, CHANNEL_TYPES } from '../channels';
+import { Contact, CONTACT_HANDLES } from '../contacts';
+
+type Verification = 'not_required' | 'unrequested' | 'pending' | 'verified';
+
+interface RecipientStatus {
+  type: ChannelType;
+  recipient: string;
+  verification: Verification;
+  verificationMethod: 'link' | 'code' | null;
+  requestedAt: string | null;
+  optedOut: 'video' | 'all' | null;
+}
+
+interface RecipientStatusListProps {
+  videoId: string;
+  contacts: Contact[];
+}
+
+// Webhook URLs carry their credentials in the path, so only the host is shown
+const maskRecipient = (recipient: string) => {
+  try {
+    return `${new URL(recipient).host}/…`;
+  } catch {
+    return recipient;
+  }
+};
+
+const getBadge = (status: RecipientStatus) => {
+  if (status.optedOut) {
+    return {
+      label: status.optedOut === 'video' ? 'Unsubscribed from this video' : 'Unsubscribed from all alerts',
+      className: 'bg-red-500 text-white',
+    };
+  }
+
+  switch (status.verification) {
+    case 'verified':
+      return { label: 'Confirmed', className: 'bg-green-500 text-white' };
+    case 'pending':
+      return { label: 'Awaiting confirmation', className: 'bg-yellow-500 text-gray-900' };
+    case 'unrequested':
+      return { label: 'Not confirmed', className: 'bg-gray-700 text-gray-300' };
+    default:
+      return null;
+  }
+};
+
+// Every recipient of a video, from its contacts and groups or typed in, with
+// whether they confirmed they want alerts or unsubscribed
+const RecipientStatusList = ({ videoId, contacts }: RecipientStatusListProps) => {
+  const [statuses, setStatuses] = useState<RecipientStatus[]>([]);
+  const [codes, setCodes] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    axios.get(`${API_URL}/videos/${videoId}/recipients`)
+      .then(response => setStatuses(response.data))
+      .catch(error => console.error('Error fetching recipient status:', error));
+  }, [videoId]);
+
+  const keyOf = (status: RecipientStatus) => `${status.type}:${status.recipient}`;
+
+  const updateStatus = (status: RecipientStatus, changes: Partial<RecipientStatus>) => {
+    setStatuses(statuses.map(item => (keyOf(item) === keyOf(status) ? { ...item, ...changes } : item)));
+  };
+
+  const sendConfirmation = async (status: RecipientStatus) => {
+    try {
+      const response = await axios.post(`${API_URL}/recipient-verifications`, {
+        type: status.type,
+        recipient: status.recipient,
+      });
+      updateStatus(status, {
+        verification: response.data.status,
+        requestedAt: response.data.requestedAt,
+      });
+      toast.success(
+        status.verificationMethod === 'code'
+          ? `Code sent to ${status.recipient}`
+          : `Confirmation link sent to ${status.recipient}`
+      );
+    } catch (error) {
+      console.error('Error requesting confirmation:', error);
+      const message = axios.isAxiosError(error) && error.response?.data?.error;
+      toast.error(message || 'Failed to send confirmation');
+    }
+  };
+
+  const confirmCode = async (status: RecipientStatus) => {
+    try {
+      const response = await axios.post(`${API_URL}/recipient-verifications/confirm`, {
+        type: status.type,
+        recipient: status.recipient,
+        code: codes[keyOf(status)] || '',
+      });
+      // Confirming again also lifts the recipient's opt-outs
+      updateStatus(status, { verification: response.data.status, optedOut: null });
+      setCodes({ ...codes, [keyOf(status)]: '' });
+      toast.success(`${status.recipient} confirmed`);
+    } catch (error) {
+      console.error('Error confirming recipient:', error);
+      const message = axios.isAxiosError(error) && error.response?.data?.error;
+      toast.error(message || 'Failed to confirm recipient');
+    }
+  };
+
+  const contactName = (status: RecipientStatus) =>
+    contacts.find(contact => contact[CONTACT_HANDLES[status.type]] === status.recipient)?.name;
+
+  if (statuses.length === 0) {
+    return <p className="text-sm text-gray-500">No recipients configured</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {CHANNEL_TYPES.map(type => {
+        const channelStatuses = statuses.filter(status => status.type === type);
+
+        return channelStatuses.length > 0 && (
+          <div key={type}>
+            <h4 className="text-sm font-medium text-gray-400 mb-2">{CHANNEL_LABELS[type]} Notifications</h4>
+            <ul className="space-y-2">
+              {channelStatuses.map(status => {
+                const badge = getBadge(status);
+                const name = contactName(status);
+                const canResend =
+                  status.verificationMethod && (status.verification !== 'verified' || status.optedOut);
+                const awaitingCode = status.verificationMethod === 'code' && status.requestedAt && canResend;
+
+                return (
+                  <li key={status.recipient} className="text-sm space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span>{status.verificationMethod ? status.recipient : maskRecipient(status.recipient)}</span>
+                      {name && <span className="text-gray-500">({name})</span>}
+                      {badge && (
+                        <span className={`px-2 py-0.5 rounded-md text-xs font-medium ${badge.className}`}>
+                          {badge.label}
+                        </span>
+                      )}
+                      {canResend && (
+                        <button
+                          onClick={() => sendConfirmation(status)}
+                          className="flex items-center text-xs text-blue-400 hover:text-blue-300"
+                        >
+                          <Send className="h-3 w-3 mr-1" />
+                          {status.verificationMethod === 'code' ? 'Send code' : 'Send link'}
+                        </button>
+                      )}
+                    </div>
+                    {awaitingCode && (
+                      <div className="flex space-x-2">
+                        <input
+                          type="text"
+                          inputMode="numeric"
+                          value={codes[keyOf(status)] || ''}
+                          onChange={(e) => setCodes({ ...codes, [keyOf(status)]: e.target.value })}
+                          placeholder="6-digit code"
+                          className="w-32 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm"
+                        />
+                        <button
+                          onClick={() => confirmCode(status)}
+                          disabled={!codes[keyOf(status)]}
+                          className="px-3 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Confirm
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RecipientStatusList;
@@ -1,6 +1,6 @@
 import React from 'react';
 import { NavLink } from 'react-router-dom';
-import { Home, PlusCircle, Bell, LogOut } from 'lucide-react';
+import { Home, PlusCircle, Bell, Users, Siren, Moon, FileText, Newspaper, Database, LogOut } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 
 const Sidebar = () => {
@@ -64,6 +64,96 @@ const Sidebar = () => {
               <span>Notifications</span>
             </NavLink>
           </li>
+          <li>
+            <NavLink 
+              to="/contacts" 
+              className={({ isActive }) => 
+                `flex items-center p-3 rounded-lg transition-colors ${
+                  isActive 
+                    ? 'bg-gray-700 text-white' 
+                    : 'text-gray-300 hover:bg-gray-700'
+                }`
+              }
+            >
+              <Users className="mr-3 h-5 w-5" />
+              <span>Contacts</span>
+            </NavLink>
+          </li>
+          <li>
+            <NavLink 
+              to="/escalation" 
+              className={({ isActive }) => 
+                `flex items-center p-3 rounded-lg transition-colors ${
+                  isActive 
+                    ? 'bg-gray-700 text-white' 
+                    : 'text-gray-300 hover:bg-gray-700'
+                }`
+              }
+            >
+              <Siren className="mr-3 h-5 w-5" />
+              <span>Escalation</span>
+            </NavLink>
+          </li>
+          <li>
+            <NavLink 
+              to="/quiet-hours" 
+              className={({ isActive }) => 
+                `flex items-center p-3 rounded-lg transition-colors ${
+                  isActive 
+                    ? 'bg-gray-700 text-white' 
+                    : 'text-gray-300 hover:bg-gray-700'
+                }`
+              }
+            >
+              <Moon className="mr-3 h-5 w-5" />
+              <span>Quiet Hours</span>
+            </NavLink>
+          </li>
+          <li>
+            <NavLink 
+              to="/templates" 
+              className={({ isActive }) => 
+                `flex items-center p-3 rounded-lg transition-colors ${
+                  isActive 
+                    ? 'bg-gray-700 text-white' 
+                    : 'text-gray-300 hover:bg-gray-700'
+                }`
+              }
+            >
+              <FileText className="mr-3 h-5 w-5" />
+              <span>Templates</span>
+            </NavLink>
+          </li>
+          <li>
+            <NavLink 
+              to="/digest" 
+              className={({ isActive }) => 
+                `flex items-center p-3 rounded-lg transition-colors ${
+                  isActive 
+                    ? 'bg-gray-700 text-white' 
+                    : 'text-gray-300 hover:bg-gray-700'
+                }`
+              }
+            >
+              <Newspaper className="mr-3 h-5 w-5" />
+              <span>Digest</span>
+            </NavLink>
+          </li>
+          <li>
+            <NavLink 
+              to="/retention" 
+              className={({ isActive }) => 
+                `flex items-center p-3 rounded-lg transition-colors ${
+                  isActive 
+                    ? 'bg-gray-700 text-white' 
+                    : 'text-gray-300 hover:bg-gray-700'
+                }`
+              }
+            >
+              <Database className="mr-3 h-5 w-5" />
+              <span>Data Retention</span>
+            </NavLink>
+          </li>
         </ul>
       </nav>
       
@@ -1,2 +1,10 @@
 // Configuration for the application
-export const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
\ No newline at end of file
+export const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+
+// Polling intervals a video can be tracked at, in seconds
+export const POLL_INTERVAL_OPTIONS = [
+  { value: 30, label: 'Every 30 seconds' },
+  { value: 60, label: 'Every minute' },
+  { value: 300, label: 'Every 5 minutes' },
+  { value: 900, label: 'Every 15 minutes' },
+];
@@ -0,0 +1,73 @@
+// Contact directory model shared by the contacts page, the add video form
+// and the video details page. Mirrors the contacts endpoints on the server.
+
+import { ChannelType, NotificationRecipients } from './channels';
+
+export interface Contact {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  zaloId: string | null;
+  slackWebhook: string | null;
+  discordWebhook: string | null;
+  telegramChatId: string | null;
+  webhookUrl: string | null;
+  createdAt: string;
+}
+
+export type ContactHandle = Exclude<keyof Contact, 'id' | 'name' | 'createdAt'>;
+
+export interface ContactGroup {
+  id: string;
+  name: string;
+  contactIds: string[];
+  createdAt: string;
+}
+
+// Contacts and groups a video's alerts go to, besides its literal recipients
+export interface ContactReferences {
+  contactIds?: string[];
+  groupIds?: string[];
+}
+
+export type VideoRecipients = NotificationRecipients & ContactReferences;
+
+// The contact handle each channel delivers to
+export const CONTACT_HANDLES: Record<ChannelType, ContactHandle> = {
+  email: 'email',
+  zalo: 'zaloId',
+  sms: 'phone',
+  slack: 'slackWebhook',
+  discord: 'discordWebhook',
+  telegram: 'telegramChatId',
+  webhook: 'webhookUrl',
+};
+
+// Contacts referenced directly or through a group, each once
+export const getReferencedContacts = (
+  references: ContactReferences,
+  contacts: Contact[],
+  groups: ContactGroup[]
+): Contact[] => {
+  const ids = new Set(references.contactIds || []);
+
+  for (const group of groups) {
+    if (references.groupIds?.includes(group.id)) {
+      group.contactIds.forEach((id) => ids.add(id));
+    }
+  }
+
+  return contacts.filter((contact) => ids.has(contact.id));
+};
+
+// Handles on one channel of the referenced contacts
+export const getContactRecipients = (
+  type: ChannelType,
+  references: ContactReferences,
+  contacts: Contact[],
+  groups: ContactGroup[]
+): string[] =>
+  getReferencedContacts(references, contacts, groups)
+    .map((contact) => contact[CONTACT_HANDLES[type]])
+    .filter((handle): handle is string => Boolean(handle));
@@ -0,0 +1,38 @@
+// Escalation policy model shared by the policies page, the add video form
+// and the video details page. Mirrors the steps run by the server.
+
+import { ChannelType, CHANNEL_LABELS, NotificationRecipients } from './channels';
+
+export type EscalationRecipients = Partial<NotificationRecipients>;
+
+export interface EscalationStep {
+  delayMinutes: number;
+  channels: ChannelType[];
+  extraRecipients?: EscalationRecipients;
+}
+
+export interface EscalationPolicy {
+  id: string;
+  name: string;
+  steps: EscalationStep[];
+  createdAt: string;
+}
+
+export const defaultStep = (delayMinutes = 0): EscalationStep => ({
+  delayMinutes,
+  channels: ['email'],
+  extraRecipients: {},
+});
+
+export const describeStep = (step: EscalationStep): string => {
+  const when = step.delayMinutes === 0 ? 'Immediately' : `After ${step.delayMinutes} min`;
+  const channels = step.channels.map((channel) => CHANNEL_LABELS[channel]).join(', ');
+  const extra = Object.values(step.extraRecipients || {}).flat();
+
+  const targets = [
+    channels && `video ${channels} recipients`,
+    extra.length > 0 && extra.join(', '),
+  ].filter(Boolean);
+
+  return `${when}: ${targets.join(' + ') || 'nobody'}`;
+};
@@ -1,5 +1,5 @@
-import React, { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import React, { useState, useEffect } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
 import { useForm, Controller } from "react-hook-form";
 import {
   Youtube,
@@ -8,28 +8,109 @@ import {
   Phone,
   AlertTriangle,
   Send,
+  Clock,
+  Siren,
+  Slack,
+  MessageCircle,
+  Bot,
+  Webhook,
+  Users,
+  User,
+  LucideIcon,
 } from "lucide-react";
 import toast from "react-hot-toast";
 import axios from "axios";
-import { API_URL } from "../config";
+import { API_URL, POLL_INTERVAL_OPTIONS } from "../config";
+import { AlertRule, defaultRule } from "../alertRules";
+import AlertRuleBuilder from "../components/AlertRuleBuilder";
+import { EscalationPolicy } from "../escalationPolicies";
+import { ChannelType, CHANNEL_LABELS, RECIPIENT_KEYS } from "../channels";
+import {
+  Contact,
+  ContactGroup,
+  VideoRecipients,
+  getContactRecipients,
+} from "../contacts";
 
 interface FormData {
   videoUrl: string;
   warningThreshold: number;
   emergencyThreshold: number;
+  pollIntervalSeconds: number;
+  alertMode: "threshold" | "anomaly" | "rules";
+  anomalyWindowHours: number;
+  anomalyWarningSigma: number;
+  anomalyEmergencySigma: number;
+  alertRules: AlertRule[];
+  escalationPolicyId: string;
+  alertCooldownMinutes: number;
+  renotifyMode: "none" | "interval" | "rate_increase";
+  renotifyIntervalMinutes: number;
+  renotifyRateIncreasePercent: number;
+  contactIds: string[];
+  groupIds: string[];
   emails: { value: string }[];
   zaloIds: { value: string }[];
   phoneNumbers: { value: string }[];
+  slackWebhooks: { value: string }[];
+  discordWebhooks: { value: string }[];
+  telegramChatIds: { value: string }[];
+  webhooks: { value: string }[];
 }
 
+const CHAT_CHANNELS: {
+  type: ChannelType;
+  name: "slackWebhooks" | "discordWebhooks" | "telegramChatIds" | "webhooks";
+  icon: LucideIcon;
+  placeholder: string;
+}[] = [
+  {
+    type: "slack",
+    name: "slackWebhooks",
+    icon: Slack,
+    placeholder: "https://hooks.slack.com/services/...",
+  },
+  {
+    type: "discord",
+    name: "discordWebhooks",
+    icon: MessageCircle,
+    placeholder: "https://discord.com/api/webhooks/...",
+  },
+  {
+    type: "telegram",
+    name: "telegramChatIds",
+    icon: Bot,
+    placeholder: "Telegram chat ID, e.g. -1001234567890",
+  },
+  {
+    type: "webhook",
+    name: "webhooks",
+    icon: Webhook,
+    placeholder: "https://example.com/alerts (JSON, HMAC-signed)",
+  },
+];
+
+const toRecipientList = (fields: { value: string }[]) =>
+  fields.filter((field) => field.value).map((field) => field.value);
+
+const toRecipientFields = (recipients: string[] = []) =>
+  recipients.length > 0
+    ? recipients.map((value) => ({ value }))
+    : [{ value: "" }];
+
+// Adds a video, or edits the tracking settings of one at /video/:id/edit
 const AddVideo = () => {
   const navigate = useNavigate();
+  const { id: editId } = useParams<{ id: string }>();
   const [loading, setLoading] = useState(false);
   const [videoPreview, setVideoPreview] = useState<{
     id: string;
     title: string;
     thumbnail: string;
   } | null>(null);
+  const [policies, setPolicies] = useState<EscalationPolicy[]>([]);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [groups, setGroups] = useState<ContactGroup[]>([]);
 
   const {
     register,
@@ -38,18 +119,106 @@ const AddVideo = () => {
     watch,
     formState: { errors },
     setError,
+    reset,
   } = useForm<FormData>({
     defaultValues: {
       videoUrl: "",
       warningThreshold: 50,
       emergencyThreshold: 100,
+      pollIntervalSeconds: 60,
+      alertMode: "threshold",
+      anomalyWindowHours: 6,
+      anomalyWarningSigma: 3,
+      anomalyEmergencySigma: 5,
+      alertRules: [defaultRule("warning"), defaultRule("emergency")],
+      escalationPolicyId: "",
+      alertCooldownMinutes: 5,
+      renotifyMode: "interval",
+      renotifyIntervalMinutes: 5,
+      renotifyRateIncreasePercent: 50,
+      contactIds: [],
+      groupIds: [],
       emails: [{ value: "" }],
       zaloIds: [{ value: "" }],
       phoneNumbers: [{ value: "" }],
+      slackWebhooks: [{ value: "" }],
+      discordWebhooks: [{ value: "" }],
+      telegramChatIds: [{ value: "" }],
+      webhooks: [{ value: "" }],
     },
   });
 
   const videoUrl = watch("videoUrl");
+  const alertMode = watch("alertMode");
+  const renotifyMode = watch("renotifyMode");
+
+  useEffect(() => {
+    axios
+      .get(`${API_URL}/escalation-policies`)
+      .then((response) => setPolicies(response.data))
+      .catch((error) =>
+        console.error("Error fetching escalation policies:", error)
+      );
+
+    Promise.all([
+      axios.get(`${API_URL}/contacts`),
+      axios.get(`${API_URL}/contact-groups`),
+    ])
+      .then(([contactsResponse, groupsResponse]) => {
+        setContacts(contactsResponse.data);
+        setGroups(groupsResponse.data);
+      })
+      .catch((error) => console.error("Error fetching contacts:", error));
+  }, []);
+
+  useEffect(() => {
+    if (!editId) return;
+
+    axios
+      .get(`${API_URL}/videos/${editId}`)
+      .then((response) => {
+        const video = response.data;
+        const notifications: VideoRecipients = video.notifications || {};
+
+        setVideoPreview({
+          id: video.id,
+          title: video.title,
+          thumbnail: video.thumbnail,
+        });
+        reset({
+          videoUrl: "",
+          warningThreshold: video.warningThreshold,
+          emergencyThreshold: video.emergencyThreshold,
+          pollIntervalSeconds: video.pollIntervalSeconds,
+          alertMode: video.alertMode,
+          anomalyWindowHours: video.anomalyWindowHours,
+          anomalyWarningSigma: video.anomalyWarningSigma,
+          anomalyEmergencySigma: video.anomalyEmergencySigma,
+          alertRules:
+            video.alertMode === "rules"
+              ? video.alertRules
+              : [defaultRule("warning"), defaultRule("emergency")],
+          escalationPolicyId: video.escalationPolicyId || "",
+          alertCooldownMinutes: video.alertCooldownMinutes,
+          renotifyMode: video.renotifyMode,
+          renotifyIntervalMinutes: video.renotifyIntervalMinutes,
+          renotifyRateIncreasePercent: video.renotifyRateIncreasePercent,
+          contactIds: notifications.contactIds || [],
+          groupIds: notifications.groupIds || [],
+          emails: toRecipientFields(notifications.emails),
+          zaloIds: toRecipientFields(notifications.zaloIds),
+          phoneNumbers: toRecipientFields(notifications.phoneNumbers),
+          slackWebhooks: toRecipientFields(notifications.slackWebhooks),
+          discordWebhooks: toRecipientFields(notifications.discordWebhooks),
+          telegramChatIds: toRecipientFields(notifications.telegramChatIds),
+          webhooks: toRecipientFields(notifications.webhooks),
+        });
+      })
+      .catch((error) => {
+        console.error("Error fetching video settings:", error);
+        toast.error("Failed to load video settings");
+      });
+  }, [editId, reset]);
 
   // Function to extract video ID from YouTube URL
   const extractVideoId = (url: string) => {
@@ -103,13 +272,23 @@ const AddVideo = () => {
       setLoading(true);
 
       // Format the data as expected by the API
-      const formattedData = {
-        videoId: videoPreview.id,
-        title: videoPreview.title,
-        thumbnail: videoPreview.thumbnail,
+      const settings = {
         warningThreshold: data.warningThreshold,
         emergencyThreshold: data.emergencyThreshold,
+        pollIntervalSeconds: data.pollIntervalSeconds,
+        alertMode: data.alertMode,
+        anomalyWindowHours: data.anomalyWindowHours,
+        anomalyWarningSigma: data.anomalyWarningSigma,
+        anomalyEmergencySigma: data.anomalyEmergencySigma,
+        alertRules: data.alertRules,
+        escalationPolicyId: data.escalationPolicyId || null,
+        alertCooldownMinutes: data.alertCooldownMinutes,
+        renotifyMode: data.renotifyMode,
+        renotifyIntervalMinutes: data.renotifyIntervalMinutes,
+        renotifyRateIncreasePercent: data.renotifyRateIncreasePercent,
         notifications: {
+          contactIds: data.contactIds,
+          groupIds: data.groupIds,
           emails: data.emails
             .filter((email) => email.value)
             .map((email) => email.value),
@@ -119,34 +298,58 @@ const AddVideo = () => {
           phoneNumbers: data.phoneNumbers
             .filter((phone) => phone.value)
             .map((phone) => phone.value),
+          slackWebhooks: toRecipientList(data.slackWebhooks),
+          discordWebhooks: toRecipientList(data.discordWebhooks),
+          telegramChatIds: toRecipientList(data.telegramChatIds),
+          webhooks: toRecipientList(data.webhooks),
         },
       };
 
-      await axios.post(`${API_URL}/videos`, formattedData);
+      if (editId) {
+        await axios.patch(`${API_URL}/videos/${editId}`, settings);
+
+        toast.success("Tracking settings updated");
+        navigate(`/video/${editId}`);
+      } else {
+        await axios.post(`${API_URL}/videos`, {
+          videoId: videoPreview.id,
+          title: videoPreview.title,
+          thumbnail: videoPreview.thumbnail,
+          ...settings,
+        });
 
-      toast.success("Video tracking started successfully");
-      navigate("/");
+        toast.success("Video tracking started successfully");
+        navigate("/");
+      }
     } catch (error) {
-      console.error("Error adding video:", error);
-      toast.error("Failed to start video tracking");
+      console.error(
+        editId ? "Error updating video:" : "Error adding video:",
+        error
+      );
+      const message = axios.isAxiosError(error) && error.response?.data?.error;
+      toast.error(
+        message ||
+          (editId
+            ? "Failed to update tracking settings"
+            : "Failed to start video tracking")
+      );
     } finally {
       setLoading(false);
     }
   };
 
-  const testNotification = async (type: "email" | "zalo" | "sms") => {
-    const recipients =
-      type === "email"
-        ? watch("emails")
-            .filter((e) => e.value)
-            .map((e) => e.value)
-        : type === "zalo"
-        ? watch("zaloIds")
-            .filter((z) => z.value)
-            .map((z) => z.value)
-        : watch("phoneNumbers")
-            .filter((p) => p.value)
-            .map((p) => p.value);
+  const testNotification = async (type: ChannelType) => {
+    const recipients = [
+      ...new Set([
+        ...getContactRecipients(
+          type,
+          { contactIds: watch("contactIds"), groupIds: watch("groupIds") },
+          contacts,
+          groups
+        ),
+        ...toRecipientList(watch(RECIPIENT_KEYS[type]) || []),
+      ]),
+    ];
 
     if (recipients.length === 0) {
       toast.error(`No ${type} recipients specified`);
@@ -155,7 +358,7 @@ const AddVideo = () => {
 
     try {
       setLoading(true);
-      await axios.post(`${API_URL}/notifications/test`, {
+      const response = await axios.post(`${API_URL}/notifications/test`, {
         type,
         recipients,
         videoInfo: videoPreview || {
@@ -165,10 +368,16 @@ const AddVideo = () => {
         },
       });
 
-      toast.success(`Test ${type} notification sent successfully`);
+      // Recipients who haven't confirmed are sent a confirmation instead
+      if (response.data.confirmationsSent?.length > 0) {
+        toast(response.data.message, { icon: "✉️" });
+      } else {
+        toast.success(`Test ${type} notification sent successfully`);
+      }
     } catch (error) {
       console.error(`Error sending test ${type}:`, error);
-      toast.error(`Failed to send test ${type} notification`);
+      const message = axios.isAxiosError(error) && error.response?.data?.error;
+      toast.error(message || `Failed to send test ${type} notification`);
     } finally {
       setLoading(false);
     }
@@ -181,43 +390,45 @@ const AddVideo = () => {
           <section>
             <h3 className="text-lg font-semibold mb-4">Video Information</h3>
             <div className="space-y-4">
-              <div>
-                <label
-                  htmlFor="videoUrl"
-                  className="block text-sm font-medium mb-1"
-                >
-                  YouTube Video URL
-                </label>
-                <div className="flex space-x-2">
-                  <div className="flex-1 relative">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <Youtube className="h-5 w-5 text-gray-400" />
+              {!editId && (
+                <div>
+                  <label
+                    htmlFor="videoUrl"
+                    className="block text-sm font-medium mb-1"
+                  >
+                    YouTube Video URL
+                  </label>
+                  <div className="flex space-x-2">
+                    <div className="flex-1 relative">
+                      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                        <Youtube className="h-5 w-5 text-gray-400" />
+                      </div>
+                      <input
+                        id="videoUrl"
+                        type="text"
+                        placeholder="https://www.youtube.com/watch?v=..."
+                        {...register("videoUrl", {
+                          required: "Video URL is required",
+                        })}
+                        className="w-full pl-10 pr-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                      />
                     </div>
-                    <input
-                      id="videoUrl"
-                      type="text"
-                      placeholder="https://www.youtube.com/watch?v=..."
-                      {...register("videoUrl", {
-                        required: "Video URL is required",
-                      })}
-                      className="w-full pl-10 pr-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
-                    />
+                    <button
+                      type="button"
+                      onClick={fetchVideoDetails}
+                      disabled={loading || !videoUrl}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Fetch Details
+                    </button>
                   </div>
-                  <button
-                    type="button"
-                    onClick={fetchVideoDetails}
-                    disabled={loading || !videoUrl}
-                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    Fetch Details
-                  </button>
+                  {errors.videoUrl && (
+                    <p className="mt-1 text-sm text-red-500">
+                      {errors.videoUrl.message}
+                    </p>
+                  )}
                 </div>
-                {errors.videoUrl && (
-                  <p className="mt-1 text-sm text-red-500">
-                    {errors.videoUrl.message}
-                  </p>
-                )}
-              </div>
+              )}
 
               {videoPreview && (
                 <div className="bg-gray-700 rounded-lg p-4 flex items-start space-x-4">
@@ -238,74 +449,396 @@ const AddVideo = () => {
           </section>
 
           <section>
-            <h3 className="text-lg font-semibold mb-4">Alert Thresholds</h3>
+            <h3 className="text-lg font-semibold mb-4">Alert Settings</h3>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div>
                 <label
-                  htmlFor="warningThreshold"
+                  htmlFor="alertMode"
                   className="block text-sm font-medium mb-1"
                 >
-                  Warning Threshold (views/minute)
+                  Alert Mode
+                </label>
+                <select
+                  id="alertMode"
+                  {...register("alertMode")}
+                  className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="threshold">Static thresholds</option>
+                  <option value="anomaly">Anomaly detection</option>
+                  <option value="rules">Custom rules</option>
+                </select>
+                <p className="mt-1 text-xs text-gray-400">
+                  {alertMode === "anomaly"
+                    ? "Alerts when the rate rises the chosen number of standard deviations above its recent average."
+                    : alertMode === "rules"
+                    ? "Alerts when any of the rules below match. Emergency rules win over warning rules."
+                    : "Alerts when the rate reaches a fixed number of views per minute."}
+                </p>
+              </div>
+
+              {alertMode === "threshold" ? (
+                <>
+                  <div>
+                    <label
+                      htmlFor="warningThreshold"
+                      className="block text-sm font-medium mb-1"
+                    >
+                      Warning Threshold (views/minute)
+                    </label>
+                    <div className="relative">
+                      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                        <AlertTriangle className="h-5 w-5 text-yellow-500" />
+                      </div>
+                      <input
+                        id="warningThreshold"
+                        type="number"
+                        min="1"
+                        {...register("warningThreshold", {
+                          required: "Warning threshold is required",
+                          min: { value: 1, message: "Must be at least 1" },
+                          valueAsNumber: true,
+                        })}
+                        className="w-full pl-10 pr-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-yellow-500 focus:border-yellow-500"
+                      />
+                    </div>
+                    {errors.warningThreshold && (
+                      <p className="mt-1 text-sm text-red-500">
+                        {errors.warningThreshold.message}
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label
+                      htmlFor="emergencyThreshold"
+                      className="block text-sm font-medium mb-1"
+                    >
+                      Emergency Threshold (views/minute)
+                    </label>
+                    <div className="relative">
+                      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                        <AlertTriangle className="h-5 w-5 text-red-500" />
+                      </div>
+                      <input
+                        id="emergencyThreshold"
+                        type="number"
+                        min="1"
+                        {...register("emergencyThreshold", {
+                          required: "Emergency threshold is required",
+                          min: { value: 1, message: "Must be at least 1" },
+                          validate: (value) => {
+                            const warning = watch("warningThreshold");
+                            return (
+                              value >= warning ||
+                              "Must be at least the warning threshold"
+                            );
+                          },
+                          valueAsNumber: true,
+                        })}
+                        className="w-full pl-10 pr-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-red-500 focus:border-red-500"
+                      />
+                    </div>
+                    {errors.emergencyThreshold && (
+                      <p className="mt-1 text-sm text-red-500">
+                        {errors.emergencyThreshold.message}
+                      </p>
+                    )}
+                  </div>
+                </>
+              ) : alertMode === "anomaly" ? (
+                <>
+                  <div>
+                    <label
+                      htmlFor="anomalyWindowHours"
+                      className="block text-sm font-medium mb-1"
+                    >
+                      Baseline Window (hours)
+                    </label>
+                    <input
+                      id="anomalyWindowHours"
+                      type="number"
+                      min="1"
+                      max="168"
+                      {...register("anomalyWindowHours", {
+                        required: "Baseline window is required",
+                        min: { value: 1, message: "Must be at least 1 hour" },
+                        max: { value: 168, message: "Must be at most 168 hours" },
+                        valueAsNumber: true,
+                      })}
+                      className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    {errors.anomalyWindowHours && (
+                      <p className="mt-1 text-sm text-red-500">
+                        {errors.anomalyWindowHours.message}
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label
+                      htmlFor="anomalyWarningSigma"
+                      className="block text-sm font-medium mb-1"
+                    >
+                      Warning Sensitivity (standard deviations)
+                    </label>
+                    <div className="relative">
+                      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                        <AlertTriangle className="h-5 w-5 text-yellow-500" />
+                      </div>
+                      <input
+                        id="anomalyWarningSigma"
+                        type="number"
+                        min="0.5"
+                        step="0.5"
+                        {...register("anomalyWarningSigma", {
+                          required: "Warning sensitivity is required",
+                          min: { value: 0.5, message: "Must be at least 0.5" },
+                          valueAsNumber: true,
+                        })}
+                        className="w-full pl-10 pr-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-yellow-500 focus:border-yellow-500"
+                      />
+                    </div>
+                    {errors.anomalyWarningSigma && (
+                      <p className="mt-1 text-sm text-red-500">
+                        {errors.anomalyWarningSigma.message}
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label
+                      htmlFor="anomalyEmergencySigma"
+                      className="block text-sm font-medium mb-1"
+                    >
+                      Emergency Sensitivity (standard deviations)
+                    </label>
+                    <div className="relative">
+                      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                        <AlertTriangle className="h-5 w-5 text-red-500" />
+                      </div>
+                      <input
+                        id="anomalyEmergencySigma"
+                        type="number"
+                        min="0.5"
+                        step="0.5"
+                        {...register("anomalyEmergencySigma", {
+                          required: "Emergency sensitivity is required",
+                          validate: (value) => {
+                            const warning = watch("anomalyWarningSigma");
+                            return (
+                              value > warning ||
+                              "Must be greater than warning sensitivity"
+                            );
+                          },
+                          valueAsNumber: true,
+                        })}
+                        className="w-full pl-10 pr-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-red-500 focus:border-red-500"
+                      />
+                    </div>
+                    {errors.anomalyEmergencySigma && (
+                      <p className="mt-1 text-sm text-red-500">
+                        {errors.anomalyEmergencySigma.message}
+                      </p>
+                    )}
+                  </div>
+                </>
+              ) : null}
+
+              <div>
+                <label
+                  htmlFor="pollIntervalSeconds"
+                  className="block text-sm font-medium mb-1"
+                >
+                  Polling Interval
                 </label>
                 <div className="relative">
                   <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                    <AlertTriangle className="h-5 w-5 text-yellow-500" />
+                    <Clock className="h-5 w-5 text-gray-400" />
                   </div>
-                  <input
-                    id="warningThreshold"
-                    type="number"
-                    min="1"
-                    {...register("warningThreshold", {
-                      required: "Warning threshold is required",
-                      min: { value: 1, message: "Must be at least 1" },
+                  <select
+                    id="pollIntervalSeconds"
+                    {...register("pollIntervalSeconds", {
                       valueAsNumber: true,
                     })}
-                    className="w-full pl-10 pr-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-yellow-500 focus:border-yellow-500"
-                  />
+                    className="w-full pl-10 pr-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {POLL_INTERVAL_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
                 </div>
-                {errors.warningThreshold && (
-                  <p className="mt-1 text-sm text-red-500">
-                    {errors.warningThreshold.message}
-                  </p>
-                )}
+                <p className="mt-1 text-xs text-gray-400">
+                  Thresholds are always in views per minute. Longer intervals
+                  use less API quota.
+                </p>
               </div>
 
               <div>
                 <label
-                  htmlFor="emergencyThreshold"
+                  htmlFor="escalationPolicyId"
                   className="block text-sm font-medium mb-1"
                 >
-                  Emergency Threshold (views/minute)
+                  Escalation Policy
                 </label>
                 <div className="relative">
                   <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                    <AlertTriangle className="h-5 w-5 text-red-500" />
+                    <Siren className="h-5 w-5 text-gray-400" />
                   </div>
+                  <select
+                    id="escalationPolicyId"
+                    {...register("escalationPolicyId")}
+                    className="w-full pl-10 pr-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">None (alert everyone at once)</option>
+                    {policies.map((policy) => (
+                      <option key={policy.id} value={policy.id}>
+                        {policy.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <p className="mt-1 text-xs text-gray-400">
+                  Notifies recipients step by step until someone acknowledges.
+                </p>
+              </div>
+            </div>
+            {alertMode === "rules" && (
+              <div className="mt-6">
+                <Controller
+                  control={control}
+                  name="alertRules"
+                  rules={{
+                    validate: (rules) =>
+                      rules.length > 0 || "Add at least one alert rule",
+                  }}
+                  render={({ field }) => (
+                    <AlertRuleBuilder
+                      value={field.value}
+                      onChange={field.onChange}
+                    />
+                  )}
+                />
+                {errors.alertRules && (
+                  <p className="mt-1 text-sm text-red-500">
+                    {errors.alertRules.message}
+                  </p>
+                )}
+              </div>
+            )}
+          </section>
+
+          <section>
+            <h3 className="text-lg font-semibold mb-4">Re-notification</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div>
+                <label
+                  htmlFor="alertCooldownMinutes"
+                  className="block text-sm font-medium mb-1"
+                >
+                  Cooldown (minutes)
+                </label>
+                <input
+                  id="alertCooldownMinutes"
+                  type="number"
+                  min="0"
+                  {...register("alertCooldownMinutes", {
+                    required: "Cooldown is required",
+                    min: { value: 0, message: "Must be at least 0" },
+                    max: { value: 1440, message: "Must be at most 1440" },
+                    valueAsNumber: true,
+                  })}
+                  className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                />
+                {errors.alertCooldownMinutes && (
+                  <p className="mt-1 text-sm text-red-500">
+                    {errors.alertCooldownMinutes.message}
+                  </p>
+                )}
+                <p className="mt-1 text-xs text-gray-400">
+                  Alerts of the same level inside this window are logged as
+                  suppressed. Emergencies are never held back by a warning.
+                </p>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="renotifyMode"
+                  className="block text-sm font-medium mb-1"
+                >
+                  While the spike lasts
+                </label>
+                <select
+                  id="renotifyMode"
+                  {...register("renotifyMode")}
+                  className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="interval">Re-notify every N minutes</option>
+                  <option value="rate_increase">
+                    Re-notify when the rate rises
+                  </option>
+                  <option value="none">Don&apos;t re-notify</option>
+                </select>
+              </div>
+
+              {renotifyMode === "interval" && (
+                <div>
+                  <label
+                    htmlFor="renotifyIntervalMinutes"
+                    className="block text-sm font-medium mb-1"
+                  >
+                    Every (minutes)
+                  </label>
                   <input
-                    id="emergencyThreshold"
+                    id="renotifyIntervalMinutes"
                     type="number"
                     min="1"
-                    {...register("emergencyThreshold", {
-                      required: "Emergency threshold is required",
+                    {...register("renotifyIntervalMinutes", {
+                      required: "Interval is required",
                       min: { value: 1, message: "Must be at least 1" },
-                      validate: (value) => {
-                        const warning = watch("warningThreshold");
-                        return (
-                          value > warning ||
-                          "Must be greater than warning threshold"
-                        );
-                      },
+                      max: { value: 1440, message: "Must be at most 1440" },
                       valueAsNumber: true,
                     })}
-                    className="w-full pl-10 pr-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-red-500 focus:border-red-500"
+                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
                   />
+                  {errors.renotifyIntervalMinutes && (
+                    <p className="mt-1 text-sm text-red-500">
+                      {errors.renotifyIntervalMinutes.message}
+                    </p>
+                  )}
                 </div>
-                {errors.emergencyThreshold && (
-                  <p className="mt-1 text-sm text-red-500">
-                    {errors.emergencyThreshold.message}
+              )}
+
+              {renotifyMode === "rate_increase" && (
+                <div>
+                  <label
+                    htmlFor="renotifyRateIncreasePercent"
+                    className="block text-sm font-medium mb-1"
+                  >
+                    Rate increase (%)
+                  </label>
+                  <input
+                    id="renotifyRateIncreasePercent"
+                    type="number"
+                    min="1"
+                    {...register("renotifyRateIncreasePercent", {
+                      required: "Increase is required",
+                      min: { value: 1, message: "Must be at least 1" },
+                      valueAsNumber: true,
+                    })}
+                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  {errors.renotifyRateIncreasePercent && (
+                    <p className="mt-1 text-sm text-red-500">
+                      {errors.renotifyRateIncreasePercent.message}
+                    </p>
+                  )}
+                  <p className="mt-1 text-xs text-gray-400">
+                    Compared with the rate in the last alert.
                   </p>
-                )}
-              </div>
+                </div>
+              )}
             </div>
           </section>
 
@@ -315,6 +848,78 @@ const AddVideo = () => {
             </h3>
 
             <div className="space-y-6">
+              {/* Contacts and groups from the directory */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {[
+                  {
+                    name: "groupIds" as const,
+                    label: "Groups",
+                    icon: Users,
+                    options: groups,
+                  },
+                  {
+                    name: "contactIds" as const,
+                    label: "Contacts",
+                    icon: User,
+                    options: contacts,
+                  },
+                ].map(({ name, label, icon: Icon, options }) => (
+                  <div key={name}>
+                    <label className="flex items-center text-sm font-medium mb-2">
+                      <Icon className="h-4 w-4 mr-2 text-gray-400" />
+                      {label}
+                    </label>
+                    <Controller
+                      control={control}
+                      name={name}
+                      render={({ field }) =>
+                        options.length > 0 ? (
+                          <div className="space-y-1 max-h-40 overflow-y-auto bg-gray-700 border border-gray-600 rounded-lg p-3">
+                            {options.map((option) => (
+                              <label
+                                key={option.id}
+                                className="flex items-center text-sm"
+                              >
+                                <input
+                                  type="checkbox"
+                                  checked={field.value.includes(option.id)}
+                                  onChange={() =>
+                                    field.onChange(
+                                      field.value.includes(option.id)
+                                        ? field.value.filter(
+                                            (id) => id !== option.id
+                                          )
+                                        : [...field.value, option.id]
+                                    )
+                                  }
+                                  className="mr-2"
+                                />
+                                {option.name}
+                              </label>
+                            ))}
+                          </div>
+                        ) : (
+                          <p className="text-sm text-gray-500">
+                            No {label.toLowerCase()} yet. Add them on the{" "}
+                            <Link
+                              to="/contacts"
+                              className="text-blue-400 hover:text-blue-300"
+                            >
+                              Contacts
+                            </Link>{" "}
+                            page.
+                          </p>
+                        )
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <p className="text-sm text-gray-400">
+                Other recipients, alerted as well as the contacts above:
+              </p>
+
               {/* Email Recipients */}
               <div>
                 <div className="flex justify-between items-center mb-2">
@@ -527,13 +1132,89 @@ const AddVideo = () => {
                   )}
                 />
               </div>
+
+              {/* Chat and webhook recipients */}
+              {CHAT_CHANNELS.map(({ type, name, icon: Icon, placeholder }) => (
+                <div key={type}>
+                  <div className="flex justify-between items-center mb-2">
+                    <label className="block text-sm font-medium">
+                      {CHANNEL_LABELS[type]} (max 2)
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => testNotification(type)}
+                      className="text-sm text-blue-400 hover:text-blue-300 flex items-center"
+                      disabled={loading}
+                    >
+                      <Send className="h-3 w-3 mr-1" />
+                      Test {CHANNEL_LABELS[type]}
+                    </button>
+                  </div>
+
+                  <Controller
+                    control={control}
+                    name={name}
+                    render={({ field }) => (
+                      <div className="space-y-2">
+                        {field.value.map((recipient, index) => (
+                          <div key={index} className="flex space-x-2">
+                            <div className="flex-1 relative">
+                              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                                <Icon className="h-5 w-5 text-gray-400" />
+                              </div>
+                              <input
+                                type="text"
+                                value={recipient.value}
+                                onChange={(e) => {
+                                  const newRecipients = [...field.value];
+                                  newRecipients[index].value = e.target.value;
+                                  field.onChange(newRecipients);
+                                }}
+                                placeholder={placeholder}
+                                className="w-full pl-10 pr-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                              />
+                            </div>
+
+                            {index === field.value.length - 1 && index < 1 ? (
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  field.onChange([
+                                    ...field.value,
+                                    { value: "" },
+                                  ])
+                                }
+                                className="px-3 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+                              >
+                                +
+                              </button>
+                            ) : (
+                              <button
+                                type="button"
+                                onClick={() => {
+                                  const newRecipients = [...field.value];
+                                  newRecipients.splice(index, 1);
+                                  field.onChange(newRecipients);
+                                }}
+                                className="px-3 py-2 bg-gray-700 text-white rounded-lg hover:bg-red-600 transition-colors"
+                              >
+                                -
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  />
+                </div>
+              ))}
             </div>
           </section>
 
           <div className="flex justify-end space-x-4 pt-4">
             <button
               type="button"
-              onClick={() => navigate("/")}
+              onClick={() => navigate(editId ? `/video/${editId}` : "/")}
               className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
             >
               Cancel
@@ -543,7 +1224,7 @@ const AddVideo = () => {
               disabled={loading || !videoPreview}
               className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              Start Tracking
+              {editId ? "Save Changes" : "Start Tracking"}
             </button>
           </div>
         </form>
@@ -0,0 +1,400 @@
+import React, { useState, useEffect } from 'react';
+import { PlusCircle, Trash2, Pencil, Save, X, User, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import axios from 'axios';
+import { API_URL } from '../config';
+import { CHANNEL_LABELS, CHANNEL_TYPES } from '../channels';
+import { Contact, ContactGroup, ContactHandle, CONTACT_HANDLES } from '../contacts';
+
+type ContactDraft = Record<ContactHandle, string> & { id: string | null; name: string };
+
+interface GroupDraft {
+  id: string | null;
+  name: string;
+  contactIds: string[];
+}
+
+const HANDLE_PLACEHOLDERS: Record<ContactHandle, string> = {
+  email: 'email@example.com',
+  zaloId: 'Zalo ID',
+  phone: '+84901234567',
+  slackWebhook: 'https://hooks.slack.com/services/...',
+  discordWebhook: 'https://discord.com/api/webhooks/...',
+  telegramChatId: '-1001234567890',
+  webhookUrl: 'https://example.com/alerts',
+};
+
+const toContactDraft = (contact?: Contact): ContactDraft => ({
+  id: contact?.id || null,
+  name: contact?.name || '',
+  ...(Object.fromEntries(
+    CHANNEL_TYPES.map((type) => [CONTACT_HANDLES[type], contact?.[CONTACT_HANDLES[type]] || ''])
+  ) as Record<ContactHandle, string>),
+});
+
+const Contacts = () => {
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [groups, setGroups] = useState<ContactGroup[]>([]);
+  const [contactDraft, setContactDraft] = useState<ContactDraft | null>(null);
+  const [groupDraft, setGroupDraft] = useState<GroupDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchDirectory();
+  }, []);
+
+  const fetchDirectory = async () => {
+    try {
+      setLoading(true);
+      const [contactsResponse, groupsResponse] = await Promise.all([
+        axios.get(`${API_URL}/contacts`),
+        axios.get(`${API_URL}/contact-groups`),
+      ]);
+      setContacts(contactsResponse.data);
+      setGroups(groupsResponse.data);
+    } catch (error) {
+      console.error('Error fetching contacts:', error);
+      toast.error('Failed to load contacts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveContact = async () => {
+    if (!contactDraft) return;
+
+    const { id, ...payload } = contactDraft;
+
+    try {
+      setSaving(true);
+      if (id) {
+        await axios.put(`${API_URL}/contacts/${id}`, payload);
+      } else {
+        await axios.post(`${API_URL}/contacts`, payload);
+      }
+      toast.success('Contact saved');
+      setContactDraft(null);
+      fetchDirectory();
+    } catch (error) {
+      console.error('Error saving contact:', error);
+      const message = axios.isAxiosError(error) && error.response?.data?.error;
+      toast.error(message || 'Failed to save contact');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteContact = async (id: string) => {
+    if (!window.confirm('Delete this contact? Videos and groups using it will stop alerting them.')) {
+      return;
+    }
+
+    try {
+      await axios.delete(`${API_URL}/contacts/${id}`);
+      setContacts(contacts.filter((contact) => contact.id !== id));
+      setGroups(groups.map((group) => ({
+        ...group,
+        contactIds: group.contactIds.filter((contactId) => contactId !== id),
+      })));
+      toast.success('Contact deleted');
+    } catch (error) {
+      console.error('Error deleting contact:', error);
+      toast.error('Failed to delete contact');
+    }
+  };
+
+  const toggleMember = (contactId: string) => {
+    if (!groupDraft) return;
+    const { contactIds } = groupDraft;
+    setGroupDraft({
+      ...groupDraft,
+      contactIds: contactIds.includes(contactId)
+        ? contactIds.filter((id) => id !== contactId)
+        : [...contactIds, contactId],
+    });
+  };
+
+  const saveGroup = async () => {
+    if (!groupDraft) return;
+
+    const { id, ...payload } = groupDraft;
+
+    try {
+      setSaving(true);
+      if (id) {
+        await axios.put(`${API_URL}/contact-groups/${id}`, payload);
+      } else {
+        await axios.post(`${API_URL}/contact-groups`, payload);
+      }
+      toast.success('Group saved');
+      setGroupDraft(null);
+      fetchDirectory();
+    } catch (error) {
+      console.error('Error saving contact group:', error);
+      const message = axios.isAxiosError(error) && error.response?.data?.error;
+      toast.error(message || 'Failed to save group');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteGroup = async (id: string) => {
+    if (!window.confirm('Delete this group? Videos using it will stop alerting its members.')) {
+      return;
+    }
+
+    try {
+      await axios.delete(`${API_URL}/contact-groups/${id}`);
+      setGroups(groups.filter((group) => group.id !== id));
+      toast.success('Group deleted');
+    } catch (error) {
+      console.error('Error deleting contact group:', error);
+      toast.error('Failed to delete group');
+    }
+  };
+
+  const describeContact = (contact: Contact) =>
+    CHANNEL_TYPES.filter((type) => contact[CONTACT_HANDLES[type]])
+      .map((type) => CHANNEL_LABELS[type])
+      .join(', ');
+
+  const contactName = (id: string) => contacts.find((contact) => contact.id === id)?.name;
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8">
+      <section className="space-y-4">
+        <div className="flex justify-between items-center">
+          <div>
+            <h3 className="text-xl font-semibold">Contacts</h3>
+            <p className="text-sm text-gray-400 mt-1">
+              Changes to a contact apply to every video and group that uses it.
+            </p>
+          </div>
+          {!contactDraft && (
+            <button
+              onClick={() => setContactDraft(toContactDraft())}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <PlusCircle className="h-4 w-4 mr-2" />
+              New Contact
+            </button>
+          )}
+        </div>
+
+        {contactDraft && (
+          <div className="bg-gray-800 rounded-lg p-6 shadow-lg space-y-4">
+            <div>
+              <label htmlFor="contactName" className="block text-sm font-medium mb-1">Name</label>
+              <input
+                id="contactName"
+                type="text"
+                value={contactDraft.name}
+                onChange={(e) => setContactDraft({ ...contactDraft, name: e.target.value })}
+                placeholder="e.g. Linh Nguyen"
+                className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {CHANNEL_TYPES.map((type) => {
+                const handle = CONTACT_HANDLES[type];
+                return (
+                  <div key={type}>
+                    <label htmlFor={`contact-${handle}`} className="block text-sm font-medium mb-1">
+                      {CHANNEL_LABELS[type]}
+                    </label>
+                    <input
+                      id={`contact-${handle}`}
+                      type="text"
+                      value={contactDraft[handle]}
+                      onChange={(e) => setContactDraft({ ...contactDraft, [handle]: e.target.value })}
+                      placeholder={HANDLE_PLACEHOLDERS[handle]}
+                      className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => setContactDraft(null)}
+                className="flex items-center px-4 py-2 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+              >
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={saveContact}
+                disabled={saving || !contactDraft.name.trim()}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save Contact
+              </button>
+            </div>
+          </div>
+        )}
+
+        {contacts.length === 0 && !contactDraft ? (
+          <div className="flex flex-col items-center justify-center h-32 text-center">
+            <User className="h-12 w-12 text-gray-400 mb-4" />
+            <p className="text-gray-400">No contacts yet.</p>
+          </div>
+        ) : (
+          <div className="bg-gray-800 rounded-lg shadow-lg divide-y divide-gray-700">
+            {contacts.map((contact) => (
+              <div key={contact.id} className="flex justify-between items-center p-4">
+                <div>
+                  <h4 className="font-medium">{contact.name}</h4>
+                  <p className="text-sm text-gray-400">{describeContact(contact)}</p>
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => setContactDraft(toContactDraft(contact))}
+                    className="p-2 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+                    title="Edit contact"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => deleteContact(contact.id)}
+                    className="p-2 bg-gray-700 rounded-lg hover:bg-red-900 transition-colors"
+                    title="Delete contact"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="space-y-4">
+        <div className="flex justify-between items-center">
+          <div>
+            <h3 className="text-xl font-semibold">Groups</h3>
+            <p className="text-sm text-gray-400 mt-1">
+              Alert a whole team, such as "Marketing on-call", by picking its group on a video.
+            </p>
+          </div>
+          {!groupDraft && (
+            <button
+              onClick={() => setGroupDraft({ id: null, name: '', contactIds: [] })}
+              disabled={contacts.length === 0}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <PlusCircle className="h-4 w-4 mr-2" />
+              New Group
+            </button>
+          )}
+        </div>
+
+        {groupDraft && (
+          <div className="bg-gray-800 rounded-lg p-6 shadow-lg space-y-4">
+            <div>
+              <label htmlFor="groupName" className="block text-sm font-medium mb-1">Group Name</label>
+              <input
+                id="groupName"
+                type="text"
+                value={groupDraft.name}
+                onChange={(e) => setGroupDraft({ ...groupDraft, name: e.target.value })}
+                placeholder="e.g. Marketing on-call"
+                className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div>
+              <span className="block text-sm font-medium mb-1">Members</span>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                {contacts.map((contact) => (
+                  <label key={contact.id} className="flex items-center text-sm">
+                    <input
+                      type="checkbox"
+                      checked={groupDraft.contactIds.includes(contact.id)}
+                      onChange={() => toggleMember(contact.id)}
+                      className="mr-2"
+                    />
+                    {contact.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => setGroupDraft(null)}
+                className="flex items-center px-4 py-2 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+              >
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={saveGroup}
+                disabled={saving || !groupDraft.name.trim()}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save Group
+              </button>
+            </div>
+          </div>
+        )}
+
+        {groups.length === 0 && !groupDraft ? (
+          <div className="flex flex-col items-center justify-center h-32 text-center">
+            <Users className="h-12 w-12 text-gray-400 mb-4" />
+            <p className="text-gray-400">No groups yet.</p>
+          </div>
+        ) : (
+          <div className="bg-gray-800 rounded-lg shadow-lg divide-y divide-gray-700">
+            {groups.map((group) => (
+              <div key={group.id} className="flex justify-between items-center p-4">
+                <div>
+                  <h4 className="font-medium">{group.name}</h4>
+                  <p className="text-sm text-gray-400">
+                    {group.contactIds.map(contactName).filter(Boolean).join(', ') || 'No members'}
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() =>
+                      setGroupDraft({ id: group.id, name: group.name, contactIds: group.contactIds })
+                    }
+                    className="p-2 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+                    title="Edit group"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => deleteGroup(group.id)}
+                    className="p-2 bg-gray-700 rounded-lg hover:bg-red-900 transition-colors"
+                    title="Delete group"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default Contacts;
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { Play, Pause, Trash2, ExternalLink, AlertTriangle, PlusCircle } from 'lucide-react';
+import { Play, Pause, Trash2, ExternalLink, AlertTriangle, PlusCircle, CheckCircle2 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import axios from 'axios';
 import { API_URL } from '../config';
@@ -16,14 +16,41 @@ interface Video {
   viewsPerMinute: number;
   warningThreshold: number;
   emergencyThreshold: number;
+  alertMode: 'threshold' | 'anomaly' | 'rules';
+}
+
+interface Incident {
+  id: string;
+  videoId: string;
+  videoTitle: string;
+  level: 'warning' | 'emergency';
+  status: 'open' | 'acknowledged' | 'resolved';
+  peakViewsPerMinute: number;
+  openedAt: string;
+  acknowledgedBy: string | null;
+}
+
+interface QuotaUsage {
+  day: string;
+  dailyQuota: number;
+  budget: number;
+  used: number;
+  remaining: number;
+  userUsed: number;
+  pollingPaused: boolean;
+  pollingSlowdown: number | null;
 }
 
 const Dashboard = () => {
   const [videos, setVideos] = useState<Video[]>([]);
+  const [quota, setQuota] = useState<QuotaUsage | null>(null);
+  const [incidents, setIncidents] = useState<Incident[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     fetchVideos();
+    fetchQuota();
+    fetchIncidents();
   }, []);
 
   const fetchVideos = async () => {
@@ -39,6 +66,40 @@ const Dashboard = () => {
     }
   };
 
+  const fetchQuota = async () => {
+    try {
+      const response = await axios.get(`${API_URL}/quota`);
+      setQuota(response.data);
+    } catch (error) {
+      console.error('Error fetching quota usage:', error);
+    }
+  };
+
+  const fetchIncidents = async () => {
+    try {
+      const response = await axios.get(`${API_URL}/incidents`);
+      setIncidents(response.data);
+    } catch (error) {
+      console.error('Error fetching incidents:', error);
+    }
+  };
+
+  const acknowledgeIncident = async (id: string) => {
+    try {
+      const response = await axios.post(`${API_URL}/incidents/${id}/acknowledge`);
+      
+      // Update local state
+      setIncidents(prevIncidents =>
+        prevIncidents.map(incident => incident.id === id ? response.data : incident)
+      );
+      
+      toast.success('Incident acknowledged');
+    } catch (error) {
+      console.error('Error acknowledging incident:', error);
+      toast.error('Failed to acknowledge incident');
+    }
+  };
+
   const toggleVideoStatus = async (id: string, currentStatus: string) => {
     try {
       const newStatus = currentStatus === 'active' ? 'paused' : 'active';
@@ -116,6 +177,71 @@ const Dashboard = () => {
         </Link>
       </div>
       
+      {incidents.length > 0 && (
+        <div className="bg-gray-800 rounded-lg shadow-lg overflow-hidden">
+          <h4 className="px-4 pt-4 font-semibold">Active Incidents</h4>
+          <ul className="divide-y divide-gray-700">
+            {incidents.map(incident => (
+              <li key={incident.id} className="p-4 flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <AlertTriangle className={`h-5 w-5 ${
+                    incident.level === 'emergency' ? 'text-red-500' : 'text-yellow-500'
+                  }`} />
+                  <div>
+                    <Link to={`/video/${incident.videoId}`} className="font-medium hover:underline">
+                      {incident.videoTitle}
+                    </Link>
+                    <p className="text-sm text-gray-400">
+                      <span className="capitalize">{incident.level}</span> since {new Date(incident.openedAt).toLocaleString()}, peak {incident.peakViewsPerMinute}/min
+                    </p>
+                  </div>
+                </div>
+                {incident.status === 'open' ? (
+                  <button
+                    onClick={() => acknowledgeIncident(incident.id)}
+                    className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    Acknowledge
+                  </button>
+                ) : (
+                  <span className="inline-flex items-center text-sm text-green-400">
+                    <CheckCircle2 className="h-4 w-4 mr-1" />
+                    Acknowledged{incident.acknowledgedBy ? ` by ${incident.acknowledgedBy}` : ''}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      
+      {quota && (
+        <div className="bg-gray-800 rounded-lg p-4 shadow-lg">
+          <div className="flex justify-between text-sm mb-2">
+            <span className="text-gray-400">YouTube API quota ({quota.day})</span>
+            <span className="font-medium">
+              {Math.round(quota.used).toLocaleString()} used / {Math.round(quota.remaining).toLocaleString()} remaining
+            </span>
+          </div>
+          <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${quota.used >= quota.budget ? 'bg-red-500' : 'bg-blue-500'}`}
+              style={{ width: `${Math.min(100, (quota.used / quota.budget) * 100)}%` }}
+            />
+          </div>
+          <div className="flex justify-between text-xs text-gray-400 mt-2">
+            <span>Your videos: {Math.round(quota.userUsed).toLocaleString()} units</span>
+            <span>
+              {quota.pollingPaused
+                ? 'Polling paused until the quota resets'
+                : quota.pollingSlowdown && quota.pollingSlowdown > 1
+                  ? `Polling slowed ${quota.pollingSlowdown}x to stay within budget`
+                  : `Budget: ${quota.budget.toLocaleString()} units/day`}
+            </span>
+          </div>
+        </div>
+      )}
+      
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {videos.map((video) => (
           <div 
@@ -168,14 +294,25 @@ const Dashboard = () => {
                     {video.viewsPerMinute}/min
                   </span>
                 </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-gray-400">Warning at:</span>
-                  <span className="font-medium text-yellow-500">{video.warningThreshold}/min</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-gray-400">Emergency at:</span>
-                  <span className="font-medium text-red-500">{video.emergencyThreshold}/min</span>
-                </div>
+                {video.alertMode !== 'threshold' ? (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-400">Alerts:</span>
+                    <span className="font-medium text-blue-400">
+                      {video.alertMode === 'anomaly' ? 'Anomaly detection' : 'Custom rules'}
+                    </span>
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-400">Warning at:</span>
+                      <span className="font-medium text-yellow-500">{video.warningThreshold}/min</span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-400">Emergency at:</span>
+                      <span className="font-medium text-red-500">{video.emergencyThreshold}/min</span>
+                    </div>
+                  </>
+                )}
               </div>
               
               <div className="flex mt-4 space-x-2">
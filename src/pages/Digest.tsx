@@ -0,0 +1,251 @@
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle, Eye, Save, Send } from 'lucide-react';
+import toast from 'react-hot-toast';
+import axios from 'axios';
+import { API_URL } from '../config';
+
+type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+interface DigestSettings {
+  frequency: DigestFrequency;
+  recipients: string[];
+  sendHour: number;
+  weeklyDay: number;
+  timeZone: string;
+  nextSendAt: string | null;
+  lastSentAt: string | null;
+  lastError: string | null;
+}
+
+interface DigestPreview {
+  subject: string;
+  html: string;
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const Digest = () => {
+  const [settings, setSettings] = useState<DigestSettings | null>(null);
+  const [recipients, setRecipients] = useState('');
+  const [preview, setPreview] = useState<DigestPreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const applySettings = (data: DigestSettings) => {
+    setSettings(data);
+    setRecipients(data.recipients.join('\n'));
+  };
+
+  const fetchSettings = async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get(`${API_URL}/digest-settings`);
+      setSettings(response.data);
+      setRecipients(response.data.recipients.join('\n'));
+    } catch (error) {
+      console.error('Error fetching digest settings:', error);
+      toast.error('Failed to load digest settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!settings) return;
+
+    try {
+      setSaving(true);
+      const response = await axios.put(`${API_URL}/digest-settings`, {
+        frequency: settings.frequency,
+        recipients: recipients.split(/[\s,]+/).filter(Boolean),
+        sendHour: settings.sendHour,
+        weeklyDay: settings.weeklyDay,
+        timeZone: settings.timeZone,
+      });
+      applySettings(response.data);
+      toast.success('Digest settings saved');
+    } catch (error) {
+      console.error('Error saving digest settings:', error);
+      const message = axios.isAxiosError(error) && error.response?.data?.error;
+      toast.error(message || 'Failed to save digest settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const previewDigest = async () => {
+    try {
+      const response = await axios.get(`${API_URL}/digest-settings/preview`);
+      setPreview(response.data);
+    } catch (error) {
+      console.error('Error previewing digest:', error);
+      toast.error('Failed to preview digest');
+    }
+  };
+
+  const sendDigest = async () => {
+    try {
+      setSending(true);
+      await axios.post(`${API_URL}/digest-settings/send`);
+      toast.success('Digest sent');
+    } catch (error) {
+      console.error('Error sending digest:', error);
+      const message = axios.isAxiosError(error) && error.response?.data?.error;
+      toast.error(message || 'Failed to send digest');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (loading || !settings) {
+    return (
+      <div className="flex justify-center items-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div>
+        <h3 className="text-xl font-semibold">Digest Reports</h3>
+        <p className="text-sm text-gray-400 mt-1">
+          A summary email of every video: views gained, peak views per minute, alerts sent and
+          current status.
+        </p>
+      </div>
+
+      <form onSubmit={saveSettings} className="bg-gray-800 rounded-lg p-6 shadow-lg space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="frequency" className="block text-sm font-medium mb-1">Frequency</label>
+            <select
+              id="frequency"
+              value={settings.frequency}
+              onChange={(e) => setSettings({ ...settings, frequency: e.target.value as DigestFrequency })}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="off">Off</option>
+              <option value="daily">Daily</option>
+              <option value="weekly">Weekly</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="timeZone" className="block text-sm font-medium mb-1">Time Zone</label>
+            <input
+              id="timeZone"
+              type="text"
+              value={settings.timeZone}
+              onChange={(e) => setSettings({ ...settings, timeZone: e.target.value })}
+              placeholder="Asia/Ho_Chi_Minh"
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="sendHour" className="block text-sm font-medium mb-1">Send At</label>
+            <select
+              id="sendHour"
+              value={settings.sendHour}
+              onChange={(e) => setSettings({ ...settings, sendHour: Number(e.target.value) })}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+            >
+              {Array.from({ length: 24 }, (_, hour) => (
+                <option key={hour} value={hour}>{String(hour).padStart(2, '0')}:00</option>
+              ))}
+            </select>
+          </div>
+          {settings.frequency === 'weekly' && (
+            <div>
+              <label htmlFor="weeklyDay" className="block text-sm font-medium mb-1">On</label>
+              <select
+                id="weeklyDay"
+                value={settings.weeklyDay}
+                onChange={(e) => setSettings({ ...settings, weeklyDay: Number(e.target.value) })}
+                className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+              >
+                {WEEKDAYS.map((day, index) => (
+                  <option key={day} value={index}>{day}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="md:col-span-2">
+            <label htmlFor="recipients" className="block text-sm font-medium mb-1">Recipients</label>
+            <textarea
+              id="recipients"
+              value={recipients}
+              onChange={(e) => setRecipients(e.target.value)}
+              rows={3}
+              placeholder="One email address per line"
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+        </div>
+
+        <div className="text-sm text-gray-400 space-y-1">
+          {settings.nextSendAt && (
+            <p>Next digest: {new Date(settings.nextSendAt).toLocaleString()}</p>
+          )}
+          {settings.lastSentAt && (
+            <p>Last sent: {new Date(settings.lastSentAt).toLocaleString()}</p>
+          )}
+          {settings.lastError && (
+            <p className="flex items-center text-red-400">
+              <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+              {settings.lastError}
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={previewDigest}
+            className="flex items-center px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            <Eye className="h-4 w-4 mr-2" />
+            Preview
+          </button>
+          <button
+            type="button"
+            onClick={sendDigest}
+            disabled={sending || settings.recipients.length === 0}
+            className="flex items-center px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Send the digest of the last period to the saved recipients"
+          >
+            <Send className="h-4 w-4 mr-2" />
+            Send Now
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            Save
+          </button>
+        </div>
+      </form>
+
+      {preview && (
+        <div className="bg-gray-800 rounded-lg p-6 shadow-lg space-y-2">
+          <h4 className="text-sm font-medium text-gray-300">{preview.subject}</h4>
+          <iframe
+            title="Digest preview"
+            sandbox=""
+            srcDoc={preview.html}
+            className="w-full h-96 bg-white rounded-lg"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Digest;
@@ -0,0 +1,320 @@
+import React, { useState, useEffect } from 'react';
+import { PlusCircle, Trash2, Pencil, Clock, Save, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import axios from 'axios';
+import { API_URL } from '../config';
+import { ChannelType, CHANNEL_LABELS, CHANNEL_TYPES, RECIPIENT_KEYS } from '../channels';
+import { EscalationPolicy, defaultStep, describeStep } from '../escalationPolicies';
+
+interface DraftStep {
+  delayMinutes: number;
+  channels: ChannelType[];
+  // Comma-separated extra contacts per channel, as typed
+  extra: Record<ChannelType, string>;
+}
+
+interface Draft {
+  id: string | null;
+  name: string;
+  steps: DraftStep[];
+}
+
+const toDraftStep = (step: EscalationPolicy['steps'][number]): DraftStep => ({
+  delayMinutes: step.delayMinutes,
+  channels: step.channels,
+  extra: Object.fromEntries(
+    CHANNEL_TYPES.map((channel) => [
+      channel,
+      (step.extraRecipients?.[RECIPIENT_KEYS[channel]] || []).join(', '),
+    ])
+  ) as Record<ChannelType, string>,
+});
+
+const splitList = (text: string) =>
+  text.split(',').map((value) => value.trim()).filter(Boolean);
+
+const EscalationPolicies = () => {
+  const [policies, setPolicies] = useState<EscalationPolicy[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, []);
+
+  const fetchPolicies = async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get(`${API_URL}/escalation-policies`);
+      setPolicies(response.data);
+    } catch (error) {
+      console.error('Error fetching escalation policies:', error);
+      toast.error('Failed to load escalation policies');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startNew = () => {
+    setDraft({
+      id: null,
+      name: '',
+      steps: [toDraftStep(defaultStep(0)), toDraftStep({ ...defaultStep(10), channels: ['sms'] })],
+    });
+  };
+
+  const startEdit = (policy: EscalationPolicy) => {
+    setDraft({ id: policy.id, name: policy.name, steps: policy.steps.map(toDraftStep) });
+  };
+
+  const updateStep = (index: number, changes: Partial<DraftStep>) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      steps: draft.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)),
+    });
+  };
+
+  const toggleChannel = (index: number, channel: ChannelType) => {
+    if (!draft) return;
+    const { channels } = draft.steps[index];
+    updateStep(index, {
+      channels: channels.includes(channel)
+        ? channels.filter((c) => c !== channel)
+        : [...channels, channel],
+    });
+  };
+
+  const savePolicy = async () => {
+    if (!draft) return;
+
+    const payload = {
+      name: draft.name,
+      steps: draft.steps.map((step) => ({
+        delayMinutes: step.delayMinutes,
+        channels: step.channels,
+        extraRecipients: Object.fromEntries(
+          CHANNEL_TYPES.map((channel) => [RECIPIENT_KEYS[channel], splitList(step.extra[channel])])
+            .filter(([, values]) => values.length > 0)
+        ),
+      })),
+    };
+
+    try {
+      setSaving(true);
+      if (draft.id) {
+        await axios.put(`${API_URL}/escalation-policies/${draft.id}`, payload);
+      } else {
+        await axios.post(`${API_URL}/escalation-policies`, payload);
+      }
+      toast.success('Escalation policy saved');
+      setDraft(null);
+      fetchPolicies();
+    } catch (error) {
+      console.error('Error saving escalation policy:', error);
+      const message = axios.isAxiosError(error) && error.response?.data?.error;
+      toast.error(message || 'Failed to save escalation policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deletePolicy = async (id: string) => {
+    if (!window.confirm('Delete this policy? Videos using it will alert all recipients at once.')) {
+      return;
+    }
+
+    try {
+      await axios.delete(`${API_URL}/escalation-policies/${id}`);
+      setPolicies(policies.filter((policy) => policy.id !== id));
+      toast.success('Escalation policy deleted');
+    } catch (error) {
+      console.error('Error deleting escalation policy:', error);
+      toast.error('Failed to delete escalation policy');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-xl font-semibold">Escalation Policies</h3>
+          <p className="text-sm text-gray-400 mt-1">
+            Steps run in order until someone acknowledges the incident.
+          </p>
+        </div>
+        {!draft && (
+          <button
+            onClick={startNew}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <PlusCircle className="h-4 w-4 mr-2" />
+            New Policy
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <div className="bg-gray-800 rounded-lg p-6 shadow-lg space-y-4">
+          <div>
+            <label htmlFor="policyName" className="block text-sm font-medium mb-1">
+              Policy Name
+            </label>
+            <input
+              id="policyName"
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="e.g. Launch night on-call"
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          {draft.steps.map((step, index) => (
+            <div key={index} className="bg-gray-700 rounded-lg p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm font-medium">Step {index + 1}</span>
+                  <Clock className="h-4 w-4 text-gray-400" />
+                  <span className="text-sm text-gray-400">after</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={step.delayMinutes}
+                    onChange={(e) => updateStep(index, { delayMinutes: Number(e.target.value) })}
+                    className="w-20 px-2 py-1 bg-gray-600 border border-gray-500 rounded text-sm"
+                  />
+                  <span className="text-sm text-gray-400">min</span>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setDraft({ ...draft, steps: draft.steps.filter((_, i) => i !== index) })}
+                  disabled={draft.steps.length === 1}
+                  className="p-1 text-gray-400 hover:text-red-400 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Remove step"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                {CHANNEL_TYPES.map((channel) => (
+                  <div key={channel}>
+                    <label className="flex items-center text-sm mb-1">
+                      <input
+                        type="checkbox"
+                        checked={step.channels.includes(channel)}
+                        onChange={() => toggleChannel(index, channel)}
+                        className="mr-2"
+                      />
+                      {CHANNEL_LABELS[channel]} recipients of the video
+                    </label>
+                    <input
+                      type="text"
+                      value={step.extra[channel]}
+                      onChange={(e) =>
+                        updateStep(index, { extra: { ...step.extra, [channel]: e.target.value } })
+                      }
+                      placeholder={`Extra ${CHANNEL_LABELS[channel]} contacts`}
+                      className="w-full px-2 py-1 bg-gray-600 border border-gray-500 rounded text-sm"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div className="flex justify-between">
+            <button
+              type="button"
+              onClick={() => {
+                const last = draft.steps[draft.steps.length - 1];
+                setDraft({
+                  ...draft,
+                  steps: [...draft.steps, toDraftStep(defaultStep((last?.delayMinutes || 0) + 10))],
+                });
+              }}
+              className="flex items-center text-sm text-blue-400 hover:text-blue-300"
+            >
+              <PlusCircle className="h-4 w-4 mr-1" />
+              Add step
+            </button>
+
+            <div className="flex space-x-2">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="flex items-center px-4 py-2 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+              >
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={savePolicy}
+                disabled={saving || !draft.name.trim()}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save Policy
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {policies.length === 0 && !draft ? (
+        <div className="flex flex-col items-center justify-center h-64 text-center">
+          <Clock className="h-12 w-12 text-gray-400 mb-4" />
+          <p className="text-gray-400">
+            No escalation policies yet. Without one, every recipient is alerted at once.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {policies.map((policy) => (
+            <div key={policy.id} className="bg-gray-800 rounded-lg p-4 shadow-lg">
+              <div className="flex justify-between items-start">
+                <div>
+                  <h4 className="font-medium">{policy.name}</h4>
+                  <ol className="mt-2 space-y-1 text-sm text-gray-400 list-decimal list-inside">
+                    {policy.steps.map((step, index) => (
+                      <li key={index}>{describeStep(step)}</li>
+                    ))}
+                  </ol>
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => startEdit(policy)}
+                    className="p-2 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+                    title="Edit policy"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => deletePolicy(policy.id)}
+                    className="p-2 bg-gray-700 rounded-lg hover:bg-red-900 transition-colors"
+                    title="Delete policy"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EscalationPolicies;
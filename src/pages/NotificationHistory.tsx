@@ -1,46 +1,192 @@
-import React, { useState, useEffect } from 'react';
-import { Mail, MessageSquare, Phone, AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Mail, MessageSquare, Phone, AlertTriangle, CheckCircle2, XCircle, BellOff, Moon, Slack, MessageCircle, Bot, Webhook, Clock, RefreshCw, Skull, RotateCcw, Search } from 'lucide-react';
 import toast from 'react-hot-toast';
 import axios from 'axios';
 import { API_URL } from '../config';
+import { CHANNEL_LABELS, CHANNEL_TYPES, ChannelType } from '../channels';
+import ExportButtons from '../components/ExportButtons';
 
 interface Notification {
   id: string;
-  videoId: string;
+  // Null for tests sent before the video was tracked
+  videoId: string | null;
   videoTitle: string;
-  type: 'email' | 'zalo' | 'sms';
+  type: ChannelType;
   recipient: string;
-  alertLevel: 'warning' | 'emergency';
+  alertLevel: 'warning' | 'emergency' | 'recovery';
   message: string;
-  status: 'delivered' | 'failed';
+  status: 'delivered' | 'failed' | 'suppressed' | 'held' | 'pending' | 'retrying' | 'dead';
+  deliveryNote: string | null;
+  attempts: number;
   timestamp: string;
   viewsPerMinute: number;
   threshold: number;
+  isTest: boolean;
+  incidentId: string | null;
+  escalationStep: number | null;
+}
+
+// A page of GET /notifications/history; nextCursor is null on the last page
+interface NotificationHistoryPage {
+  items: Notification[];
+  nextCursor: string | null;
+}
+
+interface VideoOption {
+  id: string;
+  title: string;
+}
+
+interface Filters {
+  type: string;
+  status: string;
+  alertLevel: string;
+  videoId: string;
+  recipient: string;
+  q: string;
+  // Days (yyyy-mm-dd) in local time, both included
+  from: string;
+  to: string;
 }
 
+const DEFAULT_FILTERS: Filters = {
+  type: 'all',
+  status: 'all',
+  alertLevel: 'all',
+  videoId: 'all',
+  recipient: '',
+  q: '',
+  from: '',
+  to: '',
+};
+
+// Typing in the recipient and search boxes waits this long before fetching
+const SEARCH_DELAY_MS = 300;
+
+// Query parameters for the history and export endpoints
+const toQueryParams = (filters: Filters): Record<string, string | undefined> => {
+  let to: string | undefined;
+  if (filters.to) {
+    const end = new Date(`${filters.to}T00:00`);
+    end.setDate(end.getDate() + 1);
+    to = end.toISOString();
+  }
+
+  return {
+    type: filters.type,
+    status: filters.status,
+    alertLevel: filters.alertLevel,
+    videoId: filters.videoId,
+    recipient: filters.recipient.trim() || undefined,
+    q: filters.q.trim() || undefined,
+    from: filters.from ? new Date(`${filters.from}T00:00`).toISOString() : undefined,
+    to,
+  };
+};
+
 const NotificationHistory = () => {
   const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
-  const [filter, setFilter] = useState({
-    type: 'all',
-    status: 'all',
-    alertLevel: 'all'
-  });
-  
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [videos, setVideos] = useState<VideoOption[]>([]);
+  const [filter, setFilter] = useState<Filters>(DEFAULT_FILTERS);
+  // The recipient and search boxes as typed; copied into the filters once
+  // typing pauses
+  const [searchInput, setSearchInput] = useState({ recipient: '', q: '' });
+  const sentinel = useRef<HTMLDivElement>(null);
+  // Bumped when the filters change, so a page still loading for the old
+  // filters is dropped
+  const generation = useRef(0);
+
   useEffect(() => {
-    fetchNotifications();
+    const timeout = setTimeout(() => setFilter(current =>
+      current.recipient === searchInput.recipient && current.q === searchInput.q
+        ? current
+        : { ...current, ...searchInput }
+    ), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const params = useMemo(() => toQueryParams(filter), [filter]);
+
+  useEffect(() => {
+    axios.get(`${API_URL}/videos`)
+      .then(response => setVideos(response.data))
+      .catch(error => console.error('Error fetching videos:', error));
   }, []);
-  
-  const fetchNotifications = async () => {
+
+  // Filters changed: start again from the first page
+  useEffect(() => {
+    let cancelled = false;
+    generation.current += 1;
+    setLoading(true);
+
+    axios.get<NotificationHistoryPage>(`${API_URL}/notifications/history`, { params })
+      .then(response => {
+        if (cancelled) return;
+        setNotifications(response.data.items);
+        setNextCursor(response.data.nextCursor);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Error fetching notifications:', error);
+        toast.error('Failed to load notification history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [params]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loading || loadingMore) return;
+
+    const requested = generation.current;
     try {
-      setLoading(true);
-      const response = await axios.get(`${API_URL}/notifications/history`);
-      setNotifications(response.data);
+      setLoadingMore(true);
+      const response = await axios.get<NotificationHistoryPage>(`${API_URL}/notifications/history`, {
+        params: { ...params, cursor: nextCursor },
+      });
+      if (requested !== generation.current) return;
+      setNotifications(current => [...current, ...response.data.items]);
+      setNextCursor(response.data.nextCursor);
     } catch (error) {
       console.error('Error fetching notifications:', error);
-      toast.error('Failed to load notification history');
+      toast.error('Failed to load more notifications');
     } finally {
-      setLoading(false);
+      setLoadingMore(false);
+    }
+  }, [params, nextCursor, loading, loadingMore]);
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const element = sentinel.current;
+    if (!element || !nextCursor) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: '200px' });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [loadMore, nextCursor]);
+  
+  const retryNotification = async (id: string) => {
+    try {
+      await axios.post(`${API_URL}/notifications/${id}/retry`);
+      setNotifications(notifications.map((notification) =>
+        notification.id === id
+          ? { ...notification, status: 'pending', deliveryNote: 'Retry requested' }
+          : notification
+      ));
+      toast.success('Notification queued for retry');
+    } catch (error) {
+      console.error('Error retrying notification:', error);
+      const message = axios.isAxiosError(error) && error.response?.data?.error;
+      toast.error(message || 'Failed to retry notification');
     }
   };
   
@@ -52,6 +198,14 @@ const NotificationHistory = () => {
         return <MessageSquare className="h-5 w-5" />;
       case 'sms':
         return <Phone className="h-5 w-5" />;
+      case 'slack':
+        return <Slack className="h-5 w-5" />;
+      case 'discord':
+        return <MessageCircle className="h-5 w-5" />;
+      case 'telegram':
+        return <Bot className="h-5 w-5" />;
+      case 'webhook':
+        return <Webhook className="h-5 w-5" />;
       default:
         return <AlertTriangle className="h-5 w-5" />;
     }
@@ -65,67 +219,158 @@ const NotificationHistory = () => {
         return 'bg-indigo-900 text-indigo-200';
       case 'sms':
         return 'bg-purple-900 text-purple-200';
+      case 'slack':
+        return 'bg-pink-900 text-pink-200';
+      case 'discord':
+        return 'bg-violet-900 text-violet-200';
+      case 'telegram':
+        return 'bg-sky-900 text-sky-200';
+      case 'webhook':
+        return 'bg-teal-900 text-teal-200';
       default:
         return 'bg-gray-800 text-gray-300';
     }
   };
   
-  const filteredNotifications = notifications.filter(notification => {
-    return (
-      (filter.type === 'all' || notification.type === filter.type) &&
-      (filter.status === 'all' || notification.status === filter.status) &&
-      (filter.alertLevel === 'all' || notification.alertLevel === filter.alertLevel)
-    );
-  });
+  const getStatusIcon = (status: Notification['status']) => {
+    switch (status) {
+      case 'delivered':
+        return <CheckCircle2 className="h-3 w-3 mr-1" />;
+      case 'suppressed':
+        return <BellOff className="h-3 w-3 mr-1" />;
+      case 'held':
+        return <Moon className="h-3 w-3 mr-1" />;
+      case 'pending':
+        return <Clock className="h-3 w-3 mr-1" />;
+      case 'retrying':
+        return <RefreshCw className="h-3 w-3 mr-1" />;
+      case 'dead':
+        return <Skull className="h-3 w-3 mr-1" />;
+      default:
+        return <XCircle className="h-3 w-3 mr-1" />;
+    }
+  };
   
-  if (loading) {
-    return (
-      <div className="flex justify-center items-center h-full">
-        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
-      </div>
-    );
-  }
+  const getStatusColor = (status: Notification['status']) => {
+    switch (status) {
+      case 'delivered':
+        return 'bg-green-900 text-green-200';
+      case 'suppressed':
+        return 'bg-gray-700 text-gray-300';
+      case 'held':
+        return 'bg-indigo-900 text-indigo-200';
+      case 'pending':
+        return 'bg-blue-900 text-blue-200';
+      case 'retrying':
+        return 'bg-orange-900 text-orange-200';
+      default:
+        return 'bg-red-900 text-red-200';
+    }
+  };
+  
+  const inputClass = 'bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm focus:ring-blue-500 focus:border-blue-500';
   
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h3 className="text-xl font-semibold">Notification History</h3>
+        <ExportButtons path="/notifications/export" params={params} filename="notifications" />
+      </div>
+      
+      <div className="bg-gray-800 rounded-lg p-4 shadow-lg grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3">
+        <div className="relative md:col-span-2">
+          <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={searchInput.q}
+            onChange={e => setSearchInput({ ...searchInput, q: e.target.value })}
+            placeholder="Search video, recipient, message..."
+            className={`${inputClass} w-full pl-9`}
+          />
+        </div>
+        
+        <input
+          type="text"
+          value={searchInput.recipient}
+          onChange={e => setSearchInput({ ...searchInput, recipient: e.target.value })}
+          placeholder="Recipient"
+          className={inputClass}
+        />
+        
+        <select
+          value={filter.videoId}
+          onChange={e => setFilter({ ...filter, videoId: e.target.value })}
+          className={inputClass}
+        >
+          <option value="all">All Videos</option>
+          {videos.map(video => (
+            <option key={video.id} value={video.id}>{video.title}</option>
+          ))}
+        </select>
+        
+        <select
+          value={filter.type}
+          onChange={e => setFilter({ ...filter, type: e.target.value })}
+          className={inputClass}
+        >
+          <option value="all">All Types</option>
+          {CHANNEL_TYPES.map(type => (
+            <option key={type} value={type}>{CHANNEL_LABELS[type]}</option>
+          ))}
+        </select>
+        
+        <select
+          value={filter.status}
+          onChange={e => setFilter({ ...filter, status: e.target.value })}
+          className={inputClass}
+        >
+          <option value="all">All Status</option>
+          <option value="delivered">Delivered</option>
+          <option value="failed">Failed</option>
+          <option value="suppressed">Suppressed</option>
+          <option value="held">Held</option>
+          <option value="pending">Pending</option>
+          <option value="retrying">Retrying</option>
+          <option value="dead">Dead</option>
+        </select>
         
-        <div className="flex space-x-4">
-          <select
-            value={filter.type}
-            onChange={e => setFilter({ ...filter, type: e.target.value })}
-            className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm focus:ring-blue-500 focus:border-blue-500"
-          >
-            <option value="all">All Types</option>
-            <option value="email">Email</option>
-            <option value="zalo">Zalo</option>
-            <option value="sms">SMS</option>
-          </select>
-          
-          <select
-            value={filter.status}
-            onChange={e => setFilter({ ...filter, status: e.target.value })}
-            className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm focus:ring-blue-500 focus:border-blue-500"
-          >
-            <option value="all">All Status</option>
-            <option value="delivered">Delivered</option>
-            <option value="failed">Failed</option>
-          </select>
-          
-          <select
-            value={filter.alertLevel}
-            onChange={e => setFilter({ ...filter, alertLevel: e.target.value })}
-            className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm focus:ring-blue-500 focus:border-blue-500"
-          >
-            <option value="all">All Levels</option>
-            <option value="warning">Warning</option>
-            <option value="emergency">Emergency</option>
-          </select>
+        <select
+          value={filter.alertLevel}
+          onChange={e => setFilter({ ...filter, alertLevel: e.target.value })}
+          className={inputClass}
+        >
+          <option value="all">All Levels</option>
+          <option value="warning">Warning</option>
+          <option value="emergency">Emergency</option>
+          <option value="recovery">Recovery</option>
+        </select>
+        
+        <div className="flex items-center space-x-2">
+          <input
+            type="date"
+            value={filter.from}
+            max={filter.to || undefined}
+            onChange={e => setFilter({ ...filter, from: e.target.value })}
+            aria-label="From"
+            className={`${inputClass} w-full`}
+          />
+          <span className="text-gray-400">–</span>
+          <input
+            type="date"
+            value={filter.to}
+            min={filter.from || undefined}
+            onChange={e => setFilter({ ...filter, to: e.target.value })}
+            aria-label="To"
+            className={`${inputClass} w-full`}
+          />
         </div>
       </div>
       
-      {filteredNotifications.length === 0 ? (
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      ) : notifications.length === 0 ? (
         <div className="flex flex-col items-center justify-center h-64 text-center">
           <AlertTriangle className="h-12 w-12 text-gray-400 mb-4" />
           <p className="text-gray-400">
@@ -162,7 +407,7 @@ const NotificationHistory = () => {
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-700">
-                {filteredNotifications.map((notification) => (
+                {notifications.map((notification) => (
                   <tr key={notification.id} className="hover:bg-gray-750">
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
                       {new Date(notification.timestamp).toLocaleString()}
@@ -201,22 +446,41 @@ const NotificationHistory = () => {
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                        notification.status === 'delivered' 
-                          ? 'bg-green-900 text-green-200' 
-                          : 'bg-red-900 text-red-200'
-                      }`}>
-                        {notification.status === 'delivered' 
-                          ? <CheckCircle2 className="h-3 w-3 mr-1" /> 
-                          : <XCircle className="h-3 w-3 mr-1" />}
-                        <span className="capitalize">{notification.status}</span>
-                      </span>
+                      <div className="flex items-center space-x-2">
+                        <span
+                          title={notification.deliveryNote || undefined}
+                          className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(notification.status)}`}
+                        >
+                          {getStatusIcon(notification.status)}
+                          <span className="capitalize">{notification.status}</span>
+                        </span>
+                        {notification.attempts > 1 && (
+                          <span className="text-xs text-gray-400">
+                            {notification.attempts} attempts
+                          </span>
+                        )}
+                        {['failed', 'retrying', 'dead'].includes(notification.status) && (
+                          <button
+                            onClick={() => retryNotification(notification.id)}
+                            className="p-1 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+                            title="Retry now"
+                          >
+                            <RotateCcw className="h-3 w-3" />
+                          </button>
+                        )}
+                      </div>
                     </td>
                   </tr>
                 ))}
               </tbody>
             </table>
           </div>
+          <div ref={sentinel} />
+          {loadingMore && (
+            <div className="flex justify-center py-4">
+              <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-blue-500"></div>
+            </div>
+          )}
         </div>
       )}
     </div>
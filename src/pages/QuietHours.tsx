@@ -0,0 +1,243 @@
+import React, { useState, useEffect } from 'react';
+import { Moon, Trash2, Pencil, Save } from 'lucide-react';
+import toast from 'react-hot-toast';
+import axios from 'axios';
+import { API_URL } from '../config';
+import { ChannelType, CHANNEL_LABELS, CHANNEL_TYPES } from '../channels';
+
+interface RecipientSchedule {
+  id: string;
+  type: ChannelType;
+  recipient: string;
+  timeZone: string;
+  quietStart: string;
+  quietEnd: string;
+  allowEmergencies: boolean;
+}
+
+type ScheduleForm = Omit<RecipientSchedule, 'id'>;
+
+const emptyForm: ScheduleForm = {
+  type: 'sms',
+  recipient: '',
+  timeZone: 'Asia/Ho_Chi_Minh',
+  quietStart: '22:00',
+  quietEnd: '07:00',
+  allowEmergencies: true,
+};
+
+const QuietHours = () => {
+  const [schedules, setSchedules] = useState<RecipientSchedule[]>([]);
+  const [form, setForm] = useState<ScheduleForm>(emptyForm);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, []);
+
+  const fetchSchedules = async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get(`${API_URL}/recipient-schedules`);
+      setSchedules(response.data);
+    } catch (error) {
+      console.error('Error fetching recipient schedules:', error);
+      toast.error('Failed to load quiet hours');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveSchedule = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      await axios.put(`${API_URL}/recipient-schedules`, form);
+      toast.success('Quiet hours saved');
+      setForm(emptyForm);
+      fetchSchedules();
+    } catch (error) {
+      console.error('Error saving recipient schedule:', error);
+      const message = axios.isAxiosError(error) && error.response?.data?.error;
+      toast.error(message || 'Failed to save quiet hours');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteSchedule = async (id: string) => {
+    try {
+      await axios.delete(`${API_URL}/recipient-schedules/${id}`);
+      setSchedules(schedules.filter((schedule) => schedule.id !== id));
+      toast.success('Quiet hours removed');
+    } catch (error) {
+      console.error('Error deleting recipient schedule:', error);
+      toast.error('Failed to remove quiet hours');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div>
+        <h3 className="text-xl font-semibold">Quiet Hours</h3>
+        <p className="text-sm text-gray-400 mt-1">
+          Warnings reaching a recipient during their quiet hours are held and sent as one batch
+          when the quiet hours end.
+        </p>
+      </div>
+
+      <form onSubmit={saveSchedule} className="bg-gray-800 rounded-lg p-6 shadow-lg space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="type" className="block text-sm font-medium mb-1">Channel</label>
+            <select
+              id="type"
+              value={form.type}
+              onChange={(e) => setForm({ ...form, type: e.target.value as ChannelType })}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+            >
+              {CHANNEL_TYPES.map((type) => (
+                <option key={type} value={type}>{CHANNEL_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-2">
+            <label htmlFor="recipient" className="block text-sm font-medium mb-1">Recipient</label>
+            <input
+              id="recipient"
+              type="text"
+              value={form.recipient}
+              onChange={(e) => setForm({ ...form, recipient: e.target.value })}
+              placeholder="Email, Zalo ID or phone number"
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="timeZone" className="block text-sm font-medium mb-1">Time Zone</label>
+            <input
+              id="timeZone"
+              type="text"
+              value={form.timeZone}
+              onChange={(e) => setForm({ ...form, timeZone: e.target.value })}
+              placeholder="Asia/Ho_Chi_Minh"
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="quietStart" className="block text-sm font-medium mb-1">Quiet From</label>
+            <input
+              id="quietStart"
+              type="time"
+              value={form.quietStart}
+              onChange={(e) => setForm({ ...form, quietStart: e.target.value })}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="quietEnd" className="block text-sm font-medium mb-1">Quiet Until</label>
+            <input
+              id="quietEnd"
+              type="time"
+              value={form.quietEnd}
+              onChange={(e) => setForm({ ...form, quietEnd: e.target.value })}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-between items-center">
+          <label className="flex items-center text-sm">
+            <input
+              type="checkbox"
+              checked={form.allowEmergencies}
+              onChange={(e) => setForm({ ...form, allowEmergencies: e.target.checked })}
+              className="mr-2"
+            />
+            Let emergencies through during quiet hours
+          </label>
+          <button
+            type="submit"
+            disabled={saving || !form.recipient.trim()}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            Save
+          </button>
+        </div>
+      </form>
+
+      {schedules.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-48 text-center">
+          <Moon className="h-12 w-12 text-gray-400 mb-4" />
+          <p className="text-gray-400">No quiet hours set. Recipients are alerted around the clock.</p>
+        </div>
+      ) : (
+        <div className="bg-gray-800 rounded-lg shadow-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-700">
+            <thead className="bg-gray-700">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Recipient</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Quiet Hours</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Emergencies</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {schedules.map((schedule) => (
+                <tr key={schedule.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                    <span className="text-gray-500 mr-2">{CHANNEL_LABELS[schedule.type]}</span>
+                    {schedule.recipient}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                    {schedule.quietStart}-{schedule.quietEnd} ({schedule.timeZone})
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                    {schedule.allowEmergencies ? 'Go through' : 'Held'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right">
+                    <div className="flex justify-end space-x-2">
+                      <button
+                        onClick={() => setForm({
+                          type: schedule.type,
+                          recipient: schedule.recipient,
+                          timeZone: schedule.timeZone,
+                          quietStart: schedule.quietStart,
+                          quietEnd: schedule.quietEnd,
+                          allowEmergencies: schedule.allowEmergencies,
+                        })}
+                        className="p-2 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+                        title="Edit quiet hours"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => deleteSchedule(schedule.id)}
+                        className="p-2 bg-gray-700 rounded-lg hover:bg-red-900 transition-colors"
+                        title="Remove quiet hours"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuietHours;
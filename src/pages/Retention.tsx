@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle, Lock, Save } from 'lucide-react';
+import toast from 'react-hot-toast';
+import axios from 'axios';
+import { API_URL } from '../config';
+
+interface RetentionSettings {
+  rawRetentionDays: number;
+  hourlyRetentionDays: number;
+  rolledUpUntil: string | null;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastError: string | null;
+  lastDeletedRaw: number | null;
+  lastDeletedHourly: number | null;
+  updatedAt: string | null;
+  canEdit: boolean;
+}
+
+// Same minimum as the server: anomaly baselines and weekly digests read up to
+// a week of raw samples
+const MIN_RAW_RETENTION_DAYS = 7;
+
+const Retention = () => {
+  const [settings, setSettings] = useState<RetentionSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    axios.get(`${API_URL}/retention-settings`)
+      .then(response => setSettings(response.data))
+      .catch(error => {
+        console.error('Error fetching retention settings:', error);
+        toast.error('Failed to load retention settings');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const saveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!settings) return;
+
+    try {
+      setSaving(true);
+      const response = await axios.put(`${API_URL}/retention-settings`, {
+        rawRetentionDays: settings.rawRetentionDays,
+        hourlyRetentionDays: settings.hourlyRetentionDays,
+      });
+      setSettings(response.data);
+      toast.success('Retention settings saved');
+    } catch (error) {
+      console.error('Error saving retention settings:', error);
+      const message = axios.isAxiosError(error) && error.response?.data?.error;
+      toast.error(message || 'Failed to save retention settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || !settings) {
+    return (
+      <div className="flex justify-center items-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div>
+        <h3 className="text-xl font-semibold">Data Retention</h3>
+        <p className="text-sm text-gray-400 mt-1">
+          View counts are sampled every polling interval. Once an hour, samples are rolled up into
+          hourly and daily totals and old samples are deleted. Charts of older ranges read the
+          rollups, so they show hours or days instead of single samples. Daily totals are kept
+          forever. Applies to every user.
+        </p>
+      </div>
+
+      {!settings.canEdit && (
+        <p className="flex items-center text-sm text-gray-400">
+          <Lock className="h-4 w-4 mr-2 flex-shrink-0" />
+          Only admins can change retention settings.
+        </p>
+      )}
+
+      <form onSubmit={saveSettings} className="bg-gray-800 rounded-lg p-6 shadow-lg space-y-4">
+        <fieldset disabled={!settings.canEdit} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="rawRetentionDays" className="block text-sm font-medium mb-1">
+              Keep samples for (days)
+            </label>
+            <input
+              id="rawRetentionDays"
+              type="number"
+              min={MIN_RAW_RETENTION_DAYS}
+              value={settings.rawRetentionDays}
+              onChange={(e) => setSettings({ ...settings, rawRetentionDays: Number(e.target.value) })}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
+            />
+            <p className="mt-1 text-xs text-gray-400">At least {MIN_RAW_RETENTION_DAYS} days.</p>
+          </div>
+          <div>
+            <label htmlFor="hourlyRetentionDays" className="block text-sm font-medium mb-1">
+              Keep hourly totals for (days)
+            </label>
+            <input
+              id="hourlyRetentionDays"
+              type="number"
+              min={settings.rawRetentionDays}
+              value={settings.hourlyRetentionDays}
+              onChange={(e) => setSettings({ ...settings, hourlyRetentionDays: Number(e.target.value) })}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
+            />
+            <p className="mt-1 text-xs text-gray-400">At least as long as samples.</p>
+          </div>
+        </fieldset>
+
+        <div className="text-sm text-gray-400 space-y-1">
+          {settings.rolledUpUntil && (
+            <p>Rolled up until: {new Date(settings.rolledUpUntil).toLocaleString()}</p>
+          )}
+          {settings.lastRunAt && (
+            <p>
+              Last run: {new Date(settings.lastRunAt).toLocaleString()}
+              {settings.lastDeletedRaw !== null &&
+                ` (deleted ${settings.lastDeletedRaw.toLocaleString()} samples and ${(settings.lastDeletedHourly || 0).toLocaleString()} hourly totals)`}
+            </p>
+          )}
+          {settings.nextRunAt && (
+            <p>Next run: {new Date(settings.nextRunAt).toLocaleString()}</p>
+          )}
+          {settings.lastError && (
+            <p className="flex items-center text-red-400">
+              <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+              {settings.lastError}
+            </p>
+          )}
+        </div>
+
+        {settings.canEdit && (
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Save
+            </button>
+          </div>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default Retention;
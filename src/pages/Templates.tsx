@@ -0,0 +1,355 @@
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle, Eye, RotateCcw, Save } from 'lucide-react';
+import toast from 'react-hot-toast';
+import axios from 'axios';
+import { API_URL } from '../config';
+
+type TemplateLanguage = 'en' | 'vi';
+type TemplateChannel = 'email_subject' | 'email_body' | 'sms' | 'zalo' | 'chat';
+type PreviewLevel = 'warning' | 'emergency' | 'recovery';
+
+interface NotificationTemplate {
+  language: TemplateLanguage;
+  channel: TemplateChannel;
+  body: string;
+  isDefault: boolean;
+  defaultBody: string;
+}
+
+interface NotificationPreferences {
+  language: TemplateLanguage;
+  timeZone: string;
+}
+
+interface SmsCheck {
+  encoding: 'GSM-7' | 'UCS-2';
+  length: number;
+  singleLimit: number;
+  segments: number;
+  warning: string | null;
+}
+
+interface TemplatePreview {
+  rendered: string;
+  sms: SmsCheck | null;
+}
+
+const LANGUAGE_LABELS: Record<TemplateLanguage, string> = {
+  en: 'English',
+  vi: 'Tiếng Việt',
+};
+
+const TEMPLATE_CHANNEL_LABELS: Record<TemplateChannel, string> = {
+  email_subject: 'Email subject',
+  email_body: 'Email body',
+  sms: 'SMS',
+  zalo: 'Zalo',
+  chat: 'Slack, Discord & Telegram',
+};
+
+const TEMPLATE_CHANNELS = Object.keys(TEMPLATE_CHANNEL_LABELS) as TemplateChannel[];
+
+const Templates = () => {
+  const [templates, setTemplates] = useState<NotificationTemplate[]>([]);
+  const [variables, setVariables] = useState<string[]>([]);
+  const [preferences, setPreferences] = useState<NotificationPreferences>({
+    language: 'en',
+    timeZone: 'Asia/Ho_Chi_Minh',
+  });
+  const [language, setLanguage] = useState<TemplateLanguage>('en');
+  const [channel, setChannel] = useState<TemplateChannel>('email_subject');
+  const [body, setBody] = useState('');
+  const [previewLevel, setPreviewLevel] = useState<PreviewLevel>('warning');
+  const [preview, setPreview] = useState<TemplatePreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const template = templates.find(
+    (item) => item.language === language && item.channel === channel
+  );
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  useEffect(() => {
+    setBody(template?.body || '');
+    setPreview(null);
+  }, [template]);
+
+  const fetchTemplates = async () => {
+    try {
+      setLoading(true);
+      const [templatesResponse, preferencesResponse] = await Promise.all([
+        axios.get(`${API_URL}/notification-templates`),
+        axios.get(`${API_URL}/notification-preferences`),
+      ]);
+      setTemplates(templatesResponse.data.templates);
+      setVariables(templatesResponse.data.variables);
+      setPreferences(preferencesResponse.data);
+      setLanguage(preferencesResponse.data.language);
+    } catch (error) {
+      console.error('Error fetching notification templates:', error);
+      toast.error('Failed to load templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const replaceTemplate = (updated: NotificationTemplate) => {
+    setTemplates(templates.map((item) =>
+      item.language === updated.language && item.channel === updated.channel ? updated : item
+    ));
+  };
+
+  const savePreferences = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const response = await axios.put(`${API_URL}/notification-preferences`, preferences);
+      setPreferences(response.data);
+      toast.success('Alert language saved');
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      const message = axios.isAxiosError(error) && error.response?.data?.error;
+      toast.error(message || 'Failed to save alert language');
+    }
+  };
+
+  const previewTemplate = async () => {
+    try {
+      const response = await axios.post(`${API_URL}/notification-templates/preview`, {
+        language,
+        channel,
+        body,
+        alertLevel: previewLevel,
+      });
+      setPreview(response.data);
+    } catch (error) {
+      console.error('Error previewing notification template:', error);
+      const message = axios.isAxiosError(error) && error.response?.data?.error;
+      toast.error(message || 'Failed to preview template');
+    }
+  };
+
+  const saveTemplate = async () => {
+    try {
+      setSaving(true);
+      const response = await axios.put(
+        `${API_URL}/notification-templates/${language}/${channel}`,
+        { body }
+      );
+      const { sms, ...saved } = response.data;
+      replaceTemplate(saved);
+      toast.success('Template saved');
+
+      if (sms?.warning) {
+        toast(sms.warning, { icon: '⚠️' });
+      }
+    } catch (error) {
+      console.error('Error saving notification template:', error);
+      const message = axios.isAxiosError(error) && error.response?.data?.error;
+      toast.error(message || 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resetTemplate = async () => {
+    try {
+      const response = await axios.delete(
+        `${API_URL}/notification-templates/${language}/${channel}`
+      );
+      replaceTemplate(response.data);
+      toast.success('Template reset to default');
+    } catch (error) {
+      console.error('Error resetting notification template:', error);
+      toast.error('Failed to reset template');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div>
+        <h3 className="text-xl font-semibold">Notification Templates</h3>
+        <p className="text-sm text-gray-400 mt-1">
+          Alerts are written with these templates in your alert language. Channels you haven't
+          customized use the built-in template.
+        </p>
+      </div>
+
+      <form onSubmit={savePreferences} className="bg-gray-800 rounded-lg p-6 shadow-lg">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <label htmlFor="alertLanguage" className="block text-sm font-medium mb-1">Alert Language</label>
+            <select
+              id="alertLanguage"
+              value={preferences.language}
+              onChange={(e) => setPreferences({ ...preferences, language: e.target.value as TemplateLanguage })}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+            >
+              {(Object.keys(LANGUAGE_LABELS) as TemplateLanguage[]).map((value) => (
+                <option key={value} value={value}>{LANGUAGE_LABELS[value]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="alertTimeZone" className="block text-sm font-medium mb-1">Time Zone</label>
+            <input
+              id="alertTimeZone"
+              type="text"
+              value={preferences.timeZone}
+              onChange={(e) => setPreferences({ ...preferences, timeZone: e.target.value })}
+              placeholder="Asia/Ho_Chi_Minh"
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Save
+            </button>
+          </div>
+        </div>
+      </form>
+
+      <div className="bg-gray-800 rounded-lg p-6 shadow-lg space-y-4">
+        <div className="flex flex-wrap gap-4">
+          <div>
+            <label htmlFor="templateLanguage" className="block text-sm font-medium mb-1">Language</label>
+            <select
+              id="templateLanguage"
+              value={language}
+              onChange={(e) => setLanguage(e.target.value as TemplateLanguage)}
+              className="px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+            >
+              {(Object.keys(LANGUAGE_LABELS) as TemplateLanguage[]).map((value) => (
+                <option key={value} value={value}>{LANGUAGE_LABELS[value]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="templateChannel" className="block text-sm font-medium mb-1">Template</label>
+            <select
+              id="templateChannel"
+              value={channel}
+              onChange={(e) => setChannel(e.target.value as TemplateChannel)}
+              className="px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+            >
+              {TEMPLATE_CHANNELS.map((value) => (
+                <option key={value} value={value}>{TEMPLATE_CHANNEL_LABELS[value]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="previewLevel" className="block text-sm font-medium mb-1">Preview As</label>
+            <select
+              id="previewLevel"
+              value={previewLevel}
+              onChange={(e) => setPreviewLevel(e.target.value as PreviewLevel)}
+              className="px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="warning">Warning</option>
+              <option value="emergency">Emergency</option>
+              <option value="recovery">Recovery</option>
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <label htmlFor="templateBody" className="block text-sm font-medium">Body</label>
+            <span className="text-xs text-gray-400">
+              {template?.isDefault ? 'Built-in template' : 'Customized'}
+            </span>
+          </div>
+          <textarea
+            id="templateBody"
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={channel === 'email_subject' ? 2 : 8}
+            className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg font-mono text-sm focus:ring-blue-500 focus:border-blue-500"
+          />
+          <p className="text-xs text-gray-400 mt-1">
+            Variables: {variables.map((name) => `{{${name}}}`).join(' ')}. Wrap text in{' '}
+            {'{{#name}}...{{/name}}'} to show it only when the variable is set.
+          </p>
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          {!template?.isDefault && (
+            <button
+              type="button"
+              onClick={resetTemplate}
+              className="flex items-center px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset to Default
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={previewTemplate}
+            disabled={!body.trim()}
+            className="flex items-center px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Eye className="h-4 w-4 mr-2" />
+            Preview
+          </button>
+          <button
+            type="button"
+            onClick={saveTemplate}
+            disabled={saving || !body.trim() || body === template?.body}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            Save
+          </button>
+        </div>
+
+        {preview && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-gray-300">Preview</h4>
+            {channel === 'email_body' ? (
+              <iframe
+                title="Email preview"
+                sandbox=""
+                srcDoc={preview.rendered}
+                className="w-full h-64 bg-white rounded-lg"
+              />
+            ) : (
+              <pre className="whitespace-pre-wrap break-words p-4 bg-gray-900 rounded-lg text-sm text-gray-200">
+                {preview.rendered}
+              </pre>
+            )}
+            {preview.sms && (
+              <p className="text-xs text-gray-400">
+                {preview.sms.length} characters ({preview.sms.encoding}), {preview.sms.segments}{' '}
+                {preview.sms.segments === 1 ? 'segment' : 'segments'}
+              </p>
+            )}
+            {preview.sms?.warning && (
+              <p className="flex items-center text-sm text-yellow-400">
+                <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+                {preview.sms.warning}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Templates;
@@ -1,11 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
-import { AlertTriangle, ExternalLink, Play, Pause, Trash2 } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, ReferenceArea } from 'recharts';
+import { AlertTriangle, ExternalLink, Play, Pause, Pencil, Trash2 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import axios from 'axios';
-import { API_URL } from '../config';
+import { API_URL, POLL_INTERVAL_OPTIONS } from '../config';
 import VideoStatusBadge from '../components/VideoStatusBadge';
+import RecipientStatusList from '../components/RecipientStatusList';
+import HistoryRangePicker from '../components/HistoryRangePicker';
+import ExportButtons from '../components/ExportButtons';
+import { AlertRule, describeRule } from '../alertRules';
+import { EscalationPolicy } from '../escalationPolicies';
+import { Contact, ContactGroup, VideoRecipients } from '../contacts';
+import { HistoryRange, ViewHistory, formatBucketTime, getRangeTimes, getThresholdsAt } from '../viewHistory';
 
 interface VideoDetails {
   id: string;
@@ -17,23 +24,37 @@ interface VideoDetails {
   viewsPerMinute: number;
   warningThreshold: number;
   emergencyThreshold: number;
-  viewHistory: {
-    timestamp: string;
-    views: number;
-    viewsPerMinute: number;
-  }[];
-  notifications: {
-    emails: string[];
-    zaloIds: string[];
-    phoneNumbers: string[];
-  };
+  pollIntervalSeconds: number;
+  alertMode: 'threshold' | 'anomaly' | 'rules';
+  anomalyWindowHours: number;
+  anomalyWarningSigma: number;
+  anomalyEmergencySigma: number;
+  alertRules: AlertRule[];
+  escalationPolicyId: string | null;
+  alertCooldownMinutes: number;
+  renotifyMode: 'none' | 'interval' | 'rate_increase';
+  renotifyIntervalMinutes: number;
+  renotifyRateIncreasePercent: number;
+  baseline: {
+    mean: number;
+    stddev: number;
+    samples: number;
+    warning: number | null;
+    emergency: number | null;
+  } | null;
+  notifications: VideoRecipients;
 }
 
 const VideoDetails = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const [video, setVideo] = useState<VideoDetails | null>(null);
+  const [policies, setPolicies] = useState<EscalationPolicy[]>([]);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [groups, setGroups] = useState<ContactGroup[]>([]);
   const [loading, setLoading] = useState(true);
+  const [range, setRange] = useState<HistoryRange>({ preset: '1h', from: '', to: '', bucket: '1m' });
+  const [history, setHistory] = useState<ViewHistory | null>(null);
   
   useEffect(() => {
     if (id) {
@@ -41,6 +62,33 @@ const VideoDetails = () => {
     }
   }, [id]);
   
+  useEffect(() => {
+    if (!id) return;
+    
+    const { from, to } = getRangeTimes(range);
+    axios.get(`${API_URL}/videos/${id}/history`, {
+      params: { from: from.toISOString(), to: to.toISOString(), bucket: range.bucket }
+    })
+      .then(response => setHistory(response.data))
+      .catch(error => {
+        console.error('Error fetching view history:', error);
+        toast.error(axios.isAxiosError(error) && error.response?.data?.error || 'Failed to load view history');
+      });
+  }, [id, range]);
+  
+  useEffect(() => {
+    axios.get(`${API_URL}/escalation-policies`)
+      .then(response => setPolicies(response.data))
+      .catch(error => console.error('Error fetching escalation policies:', error));
+
+    Promise.all([axios.get(`${API_URL}/contacts`), axios.get(`${API_URL}/contact-groups`)])
+      .then(([contactsResponse, groupsResponse]) => {
+        setContacts(contactsResponse.data);
+        setGroups(groupsResponse.data);
+      })
+      .catch(error => console.error('Error fetching contacts:', error));
+  }, []);
+  
   const fetchVideoDetails = async (videoId: string) => {
     try {
       setLoading(true);
@@ -72,6 +120,38 @@ const VideoDetails = () => {
     }
   };
   
+  const updatePollInterval = async (pollIntervalSeconds: number) => {
+    if (!video) return;
+    
+    try {
+      await axios.patch(`${API_URL}/videos/${video.id}/interval`, { pollIntervalSeconds });
+      
+      // Update local state
+      setVideo(prev => prev ? { ...prev, pollIntervalSeconds } : null);
+      
+      toast.success('Polling interval updated successfully');
+    } catch (error) {
+      console.error('Error updating polling interval:', error);
+      toast.error('Failed to update polling interval');
+    }
+  };
+  
+  const updateEscalationPolicy = async (escalationPolicyId: string | null) => {
+    if (!video) return;
+    
+    try {
+      await axios.patch(`${API_URL}/videos/${video.id}/escalation-policy`, { escalationPolicyId });
+      
+      // Update local state
+      setVideo(prev => prev ? { ...prev, escalationPolicyId } : null);
+      
+      toast.success('Escalation policy updated successfully');
+    } catch (error) {
+      console.error('Error updating escalation policy:', error);
+      toast.error('Failed to update escalation policy');
+    }
+  };
+  
   const deleteVideo = async () => {
     if (!video || !confirm('Are you sure you want to delete this video tracking?')) {
       return;
@@ -114,12 +194,60 @@ const VideoDetails = () => {
     );
   }
   
-  // Process chart data
-  const chartData = video.viewHistory.map(entry => ({
-    time: new Date(entry.timestamp).toLocaleTimeString(),
-    viewsPerMinute: entry.viewsPerMinute,
-    totalViews: entry.views
-  }));
+  const buckets = history?.buckets || [];
+  const thresholdChanges = history?.thresholdChanges || [];
+  const hasData = buckets.some(bucket => bucket.samples > 0);
+  
+  // Process chart data. Cumulative views count from the start of the range,
+  // carried across buckets without samples.
+  let cumulativeViews = 0;
+  const chartData = buckets.map(bucket => {
+    const thresholds = getThresholdsAt(bucket.start, thresholdChanges, {
+      warning: video.warningThreshold,
+      emergency: video.emergencyThreshold
+    });
+    cumulativeViews += bucket.viewsGained || 0;
+    
+    return {
+      time: formatBucketTime(bucket.start, history?.bucket || range.bucket),
+      viewsPerMinute: bucket.avgViewsPerMinute,
+      peakViewsPerMinute: bucket.peakViewsPerMinute,
+      cumulativeViews: bucket.samples > 0 ? cumulativeViews : null,
+      warningThreshold: thresholds.warning,
+      emergencyThreshold: thresholds.emergency
+    };
+  });
+  
+  // In anomaly mode the levels move with the baseline, otherwise they are fixed
+  const isAnomalyMode = video.alertMode === 'anomaly';
+  const hasThresholdChanges = video.alertMode === 'threshold' && thresholdChanges.length > 0;
+  
+  // The bucket holding each edit within the range
+  const thresholdChangeTimes = hasThresholdChanges && history
+    ? [...new Set(thresholdChanges
+        .filter(change => new Date(change.changedAt) < new Date(history.to))
+        .map(change => buckets.filter(bucket => new Date(bucket.start) <= new Date(change.changedAt)).length - 1)
+        .filter(index => index >= 0)
+        .map(index => chartData[index].time))]
+    : [];
+  
+  const renotifyLabel =
+    video.renotifyMode === 'none'
+      ? 'Never'
+      : video.renotifyMode === 'rate_increase'
+        ? `When rate rises ${video.renotifyRateIncreasePercent}%`
+        : `Every ${video.renotifyIntervalMinutes} min`;
+  const isRulesMode = video.alertMode === 'rules';
+  const referencedGroups = groups.filter(group => video.notifications.groupIds?.includes(group.id));
+  const referencedContacts = contacts.filter(contact =>
+    video.notifications.contactIds?.includes(contact.id)
+  );
+  const warningLevel = isAnomalyMode
+    ? video.baseline?.warning ?? null
+    : isRulesMode ? null : video.warningThreshold;
+  const emergencyLevel = isAnomalyMode
+    ? video.baseline?.emergency ?? null
+    : isRulesMode ? null : video.emergencyThreshold;
   
   return (
     <div className="space-y-8">
@@ -130,6 +258,14 @@ const VideoDetails = () => {
         </div>
         
         <div className="flex space-x-2">
+          <button
+            onClick={() => navigate(`/video/${video.id}/edit`)}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors flex items-center"
+          >
+            <Pencil className="h-4 w-4 mr-2" />
+            Edit Settings
+          </button>
+          
           <button
             onClick={toggleVideoStatus}
             className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors flex items-center"
@@ -197,13 +333,86 @@ const VideoDetails = () => {
                     {video.viewsPerMinute}/min
                   </span>
                 </div>
+                {isAnomalyMode && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-400">Baseline ({video.anomalyWindowHours}h):</span>
+                    <span className="font-medium">
+                      {video.baseline && warningLevel !== null
+                        ? `${video.baseline.mean} ± ${video.baseline.stddev}/min`
+                        : 'Collecting data...'}
+                    </span>
+                  </div>
+                )}
+                {video.alertMode === 'rules' ? (
+                  <div className="text-sm">
+                    <span className="text-gray-400">Alert rules:</span>
+                    <ul className="mt-1 space-y-1">
+                      {video.alertRules.map((rule, index) => (
+                        <li key={index}>
+                          <span className={`capitalize font-medium ${
+                            rule.level === 'emergency' ? 'text-red-500' : 'text-yellow-500'
+                          }`}>
+                            {rule.level}
+                          </span>
+                          <span className="text-gray-300">: {describeRule(rule)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-400">
+                        Warning at{isAnomalyMode ? ` (+${video.anomalyWarningSigma}σ)` : ''}:
+                      </span>
+                      <span className="font-medium text-yellow-500">
+                        {warningLevel !== null ? `${warningLevel}/min` : '-'}
+                      </span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-400">
+                        Emergency at{isAnomalyMode ? ` (+${video.anomalyEmergencySigma}σ)` : ''}:
+                      </span>
+                      <span className="font-medium text-red-500">
+                        {emergencyLevel !== null ? `${emergencyLevel}/min` : '-'}
+                      </span>
+                    </div>
+                  </>
+                )}
+                <div className="flex justify-between items-center text-sm">
+                  <label htmlFor="pollIntervalSeconds" className="text-gray-400">Polling:</label>
+                  <select
+                    id="pollIntervalSeconds"
+                    value={video.pollIntervalSeconds}
+                    onChange={e => updatePollInterval(Number(e.target.value))}
+                    className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-sm focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {POLL_INTERVAL_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex justify-between items-center text-sm">
+                  <label htmlFor="escalationPolicyId" className="text-gray-400">Escalation:</label>
+                  <select
+                    id="escalationPolicyId"
+                    value={video.escalationPolicyId || ''}
+                    onChange={e => updateEscalationPolicy(e.target.value || null)}
+                    className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-sm focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Everyone at once</option>
+                    {policies.map(policy => (
+                      <option key={policy.id} value={policy.id}>{policy.name}</option>
+                    ))}
+                  </select>
+                </div>
                 <div className="flex justify-between text-sm">
-                  <span className="text-gray-400">Warning at:</span>
-                  <span className="font-medium text-yellow-500">{video.warningThreshold}/min</span>
+                  <span className="text-gray-400">Cooldown:</span>
+                  <span className="font-medium">{video.alertCooldownMinutes} min</span>
                 </div>
                 <div className="flex justify-between text-sm">
-                  <span className="text-gray-400">Emergency at:</span>
-                  <span className="font-medium text-red-500">{video.emergencyThreshold}/min</span>
+                  <span className="text-gray-400">Re-notify:</span>
+                  <span className="font-medium">{renotifyLabel}</span>
                 </div>
               </div>
             </div>
@@ -213,57 +422,66 @@ const VideoDetails = () => {
             <h3 className="font-semibold text-lg mb-4">Notification Recipients</h3>
             
             <div className="space-y-4">
-              <div>
-                <h4 className="text-sm font-medium text-gray-400 mb-2">Email Notifications</h4>
-                {video.notifications.emails.length > 0 ? (
-                  <ul className="space-y-1">
-                    {video.notifications.emails.map((email, index) => (
-                      <li key={index} className="text-sm">{email}</li>
-                    ))}
-                  </ul>
-                ) : (
-                  <p className="text-sm text-gray-500">No email recipients configured</p>
-                )}
-              </div>
-              
-              <div>
-                <h4 className="text-sm font-medium text-gray-400 mb-2">Zalo Notifications</h4>
-                {video.notifications.zaloIds.length > 0 ? (
+              {referencedGroups.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-400 mb-2">Groups</h4>
                   <ul className="space-y-1">
-                    {video.notifications.zaloIds.map((zaloId, index) => (
-                      <li key={index} className="text-sm">{zaloId}</li>
+                    {referencedGroups.map(group => (
+                      <li key={group.id} className="text-sm">
+                        {group.name}{' '}
+                        <span className="text-gray-500">
+                          ({group.contactIds.length} {group.contactIds.length === 1 ? 'contact' : 'contacts'})
+                        </span>
+                      </li>
                     ))}
                   </ul>
-                ) : (
-                  <p className="text-sm text-gray-500">No Zalo recipients configured</p>
-                )}
-              </div>
-              
-              <div>
-                <h4 className="text-sm font-medium text-gray-400 mb-2">SMS Notifications</h4>
-                {video.notifications.phoneNumbers.length > 0 ? (
+                </div>
+              )}
+
+              {referencedContacts.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-400 mb-2">Contacts</h4>
                   <ul className="space-y-1">
-                    {video.notifications.phoneNumbers.map((phone, index) => (
-                      <li key={index} className="text-sm">{phone}</li>
+                    {referencedContacts.map(contact => (
+                      <li key={contact.id} className="text-sm">{contact.name}</li>
                     ))}
                   </ul>
-                ) : (
-                  <p className="text-sm text-gray-500">No SMS recipients configured</p>
-                )}
-              </div>
+                </div>
+              )}
+
+              <RecipientStatusList videoId={video.id} contacts={contacts} />
             </div>
           </div>
         </div>
         
         <div className="lg:col-span-2">
           <div className="bg-gray-800 rounded-lg p-4 shadow-lg h-full">
-            <h3 className="font-semibold text-lg mb-6">Views per Minute History</h3>
+            <HistoryRangePicker value={range} onChange={setRange} />
+            
+            {history && history.bucket !== range.bucket && (
+              <p className="text-xs text-gray-400 -mt-4 mb-4">
+                {history.bucket === '1d'
+                  ? 'Older samples are only kept as daily totals, so this range is shown per day.'
+                  : 'Older samples are only kept as hourly totals, so this range is shown per hour.'}
+              </p>
+            )}
+            
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-6">
+              <h3 className="font-semibold text-lg">Views per Minute History</h3>
+              {history && (
+                <ExportButtons
+                  path={`/videos/${video.id}/views/export`}
+                  params={{ from: history.from, to: history.to }}
+                  filename={`${video.id}-views`}
+                />
+              )}
+            </div>
             
-            {chartData.length === 0 ? (
+            {!hasData ? (
               <div className="flex flex-col items-center justify-center h-64 text-center">
                 <AlertTriangle className="h-12 w-12 text-gray-400 mb-4" />
                 <p className="text-gray-400">
-                  No historical data available yet. Data will appear after tracking for a few minutes.
+                  No data in this range. Data will appear after tracking for a few minutes.
                 </p>
               </div>
             ) : (
@@ -295,32 +513,103 @@ const VideoDetails = () => {
                         color: 'white'
                       }} 
                     />
-                    <ReferenceLine 
-                      y={video.warningThreshold} 
-                      stroke="#eab308" 
-                      strokeDasharray="3 3" 
-                      label={{ 
-                        value: 'Warning', 
-                        position: 'right', 
-                        fill: '#eab308'
-                      }} 
-                    />
-                    <ReferenceLine 
-                      y={video.emergencyThreshold} 
-                      stroke="#ef4444" 
-                      strokeDasharray="3 3" 
-                      label={{ 
-                        value: 'Emergency', 
-                        position: 'right', 
-                        fill: '#ef4444'
-                      }} 
+                    {isAnomalyMode && video.baseline && warningLevel !== null && (
+                      <ReferenceArea 
+                        y1={Math.max(0, 2 * video.baseline.mean - warningLevel)} 
+                        y2={warningLevel} 
+                        fill="#3b82f6" 
+                        fillOpacity={0.1} 
+                        stroke="none"
+                      />
+                    )}
+                    {isAnomalyMode && video.baseline && (
+                      <ReferenceLine 
+                        y={video.baseline.mean} 
+                        stroke="#60a5fa" 
+                        strokeDasharray="6 3" 
+                        label={{ 
+                          value: 'Baseline', 
+                          position: 'right', 
+                          fill: '#60a5fa'
+                        }} 
+                      />
+                    )}
+                    {warningLevel !== null && !hasThresholdChanges && (
+                      <ReferenceLine 
+                        y={warningLevel} 
+                        stroke="#eab308" 
+                        strokeDasharray="3 3" 
+                        label={{ 
+                          value: 'Warning', 
+                          position: 'right', 
+                          fill: '#eab308'
+                        }} 
+                      />
+                    )}
+                    {emergencyLevel !== null && !hasThresholdChanges && (
+                      <ReferenceLine 
+                        y={emergencyLevel} 
+                        stroke="#ef4444" 
+                        strokeDasharray="3 3" 
+                        label={{ 
+                          value: 'Emergency', 
+                          position: 'right', 
+                          fill: '#ef4444'
+                        }} 
+                      />
+                    )}
+                    {hasThresholdChanges && (
+                      <Line 
+                        type="stepAfter" 
+                        dataKey="warningThreshold" 
+                        name="Warning" 
+                        stroke="#eab308" 
+                        strokeDasharray="3 3" 
+                        dot={false} 
+                        activeDot={false}
+                      />
+                    )}
+                    {hasThresholdChanges && (
+                      <Line 
+                        type="stepAfter" 
+                        dataKey="emergencyThreshold" 
+                        name="Emergency" 
+                        stroke="#ef4444" 
+                        strokeDasharray="3 3" 
+                        dot={false} 
+                        activeDot={false}
+                      />
+                    )}
+                    {thresholdChangeTimes.map(time => (
+                      <ReferenceLine 
+                        key={`threshold-${time}`}
+                        x={time} 
+                        stroke="#a855f7" 
+                        strokeDasharray="4 2" 
+                        label={{ 
+                          value: 'Thresholds changed', 
+                          position: 'insideTopLeft', 
+                          fill: '#c084fc'
+                        }} 
+                      />
+                    ))}
+                    <Line 
+                      type="monotone" 
+                      dataKey="peakViewsPerMinute" 
+                      name="Peak" 
+                      stroke="#93c5fd" 
+                      strokeOpacity={0.5}
+                      strokeWidth={1}
+                      dot={false}
                     />
+                    {/* Buckets without samples are null, so gaps show as breaks in the line */}
                     <Line 
                       type="monotone" 
                       dataKey="viewsPerMinute" 
+                      name="Average" 
                       stroke="#3b82f6" 
                       strokeWidth={2}
-                      dot={{ r: 4, fill: '#3b82f6' }}
+                      dot={chartData.length <= 60 ? { r: 4, fill: '#3b82f6' } : false}
                       activeDot={{ r: 6, fill: '#60a5fa' }}
                     />
                   </LineChart>
@@ -329,13 +618,13 @@ const VideoDetails = () => {
             )}
             
             <div className="mt-8">
-              <h3 className="font-semibold text-lg mb-6">Total Views History</h3>
+              <h3 className="font-semibold text-lg mb-6">Cumulative Views</h3>
               
-              {chartData.length === 0 ? (
+              {!hasData ? (
                 <div className="flex flex-col items-center justify-center h-64 text-center">
                   <AlertTriangle className="h-12 w-12 text-gray-400 mb-4" />
                   <p className="text-gray-400">
-                    No historical data available yet. Data will appear after tracking for a few minutes.
+                    No data in this range. Data will appear after tracking for a few minutes.
                   </p>
                 </div>
               ) : (
@@ -354,7 +643,7 @@ const VideoDetails = () => {
                         tick={{ fill: '#ccc' }}
                         tickMargin={10}
                         label={{ 
-                          value: 'Total Views', 
+                          value: 'Views Gained', 
                           angle: -90, 
                           position: 'insideLeft',
                           style: { fill: '#ccc' }
@@ -369,12 +658,14 @@ const VideoDetails = () => {
                       />
                       <Line 
                         type="monotone" 
-                        dataKey="totalViews" 
+                        dataKey="cumulativeViews" 
+                        name="Views gained" 
                         stroke="#10b981" 
                         strokeWidth={2}
-                        dot={{ r: 4, fill: '#10b981' }}
+                        dot={chartData.length <= 60 ? { r: 4, fill: '#10b981' } : false}
                         activeDot={{ r: 6, fill: '#34d399' }}
                       />
+
                     </LineChart>
                   </ResponsiveContainer>
                 </div>
@@ -0,0 +1,108 @@
+// View history model shared by the range picker and the video details page.
+// Mirrors the history endpoint on the server.
+
+export type HistoryBucket = '1m' | '5m' | '1h' | '1d';
+export type HistoryPreset = '1h' | '24h' | '7d' | '30d' | 'custom';
+
+export interface HistoryRange {
+  preset: HistoryPreset;
+  // Only used by the custom preset, as datetime-local input values
+  from: string;
+  to: string;
+  bucket: HistoryBucket;
+}
+
+export interface HistoryPoint {
+  start: string;
+  views: number | null;
+  viewsGained: number | null;
+  avgViewsPerMinute: number | null;
+  peakViewsPerMinute: number | null;
+  samples: number;
+}
+
+export interface ThresholdChange {
+  changedAt: string;
+  previousWarningThreshold: number;
+  previousEmergencyThreshold: number;
+  warningThreshold: number;
+  emergencyThreshold: number;
+}
+
+export interface ViewHistory {
+  from: string;
+  to: string;
+  bucket: HistoryBucket;
+  buckets: HistoryPoint[];
+  thresholdChanges: ThresholdChange[];
+}
+
+export const HISTORY_BUCKET_MS: Record<HistoryBucket, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+export const HISTORY_BUCKET_LABELS: Record<HistoryBucket, string> = {
+  '1m': '1 minute',
+  '5m': '5 minutes',
+  '1h': '1 hour',
+  '1d': '1 day',
+};
+
+export const HISTORY_PRESET_MS: Record<Exclude<HistoryPreset, 'custom'>, number> = {
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+};
+
+// Same limit as the server
+export const MAX_HISTORY_BUCKETS = 1000;
+
+export const HISTORY_BUCKETS = Object.keys(HISTORY_BUCKET_MS) as HistoryBucket[];
+
+// The start and end of a range, presets ending now
+export const getRangeTimes = (range: HistoryRange): { from: Date; to: Date } => {
+  if (range.preset === 'custom') {
+    return { from: new Date(range.from), to: new Date(range.to) };
+  }
+
+  const to = new Date();
+  return { from: new Date(to.getTime() - HISTORY_PRESET_MS[range.preset]), to };
+};
+
+// Buckets that keep the range within the server's limit
+export const getAllowedBuckets = (rangeMs: number): HistoryBucket[] =>
+  HISTORY_BUCKETS.filter((bucket) => rangeMs / HISTORY_BUCKET_MS[bucket] <= MAX_HISTORY_BUCKETS);
+
+// Aim for a few hundred points at most, so the chart stays readable
+export const getDefaultBucket = (rangeMs: number): HistoryBucket =>
+  HISTORY_BUCKETS.find((bucket) => rangeMs / HISTORY_BUCKET_MS[bucket] <= 300) || '1d';
+
+// A bucket was judged against the thresholds in place before the first
+// change made after it started
+export const getThresholdsAt = (
+  timestamp: string,
+  changes: ThresholdChange[],
+  current: { warning: number; emergency: number }
+) => {
+  const change = changes.find((item) => new Date(item.changedAt) > new Date(timestamp));
+  return change
+    ? { warning: change.previousWarningThreshold, emergency: change.previousEmergencyThreshold }
+    : current;
+};
+
+export const formatBucketTime = (timestamp: string, bucket: HistoryBucket): string => {
+  const date = new Date(timestamp);
+
+  switch (bucket) {
+    case '1d':
+      return date.toLocaleDateString();
+    case '1h':
+      return date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+    default:
+      return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+};
@@ -0,0 +1,23 @@
+/*
+  # Batched view polling
+
+  1. Functions
+    - `latest_video_views(video_ids)` - Returns the most recent `video_views`
+      row for each of the given videos, so the scheduler can load the previous
+      sample for a whole batch in one call
+*/
+
+CREATE OR REPLACE FUNCTION latest_video_views(video_ids text[])
+RETURNS SETOF video_views
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT DISTINCT ON (video_id) *
+  FROM video_views
+  WHERE video_id = ANY(video_ids)
+  ORDER BY video_id, timestamp DESC;
+$$;
+
+-- Composite index so DISTINCT ON can walk the newest row per video
+CREATE INDEX IF NOT EXISTS idx_video_views_video_id_timestamp
+  ON video_views(video_id, timestamp DESC);
@@ -0,0 +1,30 @@
+/*
+  # YouTube API quota ledger
+
+  1. New Tables
+    - `youtube_quota_usage` - One row per YouTube Data API call (or per user
+      share of a batched scheduler call), keyed by the Pacific-time quota day
+
+  2. Security
+    - Enable RLS
+    - Add policy for authenticated users to access their data
+*/
+
+CREATE TABLE IF NOT EXISTS youtube_quota_usage (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  day date NOT NULL, -- Quota day in America/Los_Angeles
+  endpoint text NOT NULL, -- 'scheduler', 'videos.preview', 'videos.create'
+  user_id uuid REFERENCES auth.users(id),
+  units numeric(10, 4) NOT NULL,
+  timestamp timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_youtube_quota_usage_day ON youtube_quota_usage(day);
+CREATE INDEX IF NOT EXISTS idx_youtube_quota_usage_user_id ON youtube_quota_usage(user_id);
+
+ALTER TABLE youtube_quota_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON youtube_quota_usage
+  FOR ALL
+  TO authenticated
+  USING (true);
@@ -0,0 +1,9 @@
+/*
+  # Track when a video was last resumed
+
+  1. Changes
+    - `videos.resumed_at` - Set whenever tracking is resumed, so samples taken
+      before the pause are not used to compute views per minute
+*/
+
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS resumed_at timestamptz;
@@ -0,0 +1,11 @@
+/*
+  # Per-video polling interval
+
+  1. Changes
+    - `videos.poll_interval_seconds` - How often the scheduler samples the
+      video's view count. Thresholds remain expressed per minute.
+*/
+
+ALTER TABLE videos
+  ADD COLUMN IF NOT EXISTS poll_interval_seconds integer NOT NULL DEFAULT 60
+  CHECK (poll_interval_seconds IN (30, 60, 300, 900));
@@ -0,0 +1,89 @@
+/*
+  # Multi-instance scheduler coordination
+
+  1. New Tables
+    - `video_poll_leases` - Which instance is polling a video, and until when
+    - `alert_dispatch_locks` - Last alert dispatch per video and level, used
+      as the cooldown window
+
+  2. Functions
+    - `claim_poll_leases(holder, video_ids, lease_seconds)` - Atomically
+      claims every given video whose lease is free or expired and returns the
+      claimed ids
+    - `claim_alert_dispatch(video_id, alert_level, holder, cooldown_seconds)`
+      - Returns true for exactly one caller per cooldown window
+
+  3. Security
+    - Enable RLS on both tables
+    - Add policy for authenticated users to access their data
+*/
+
+CREATE TABLE IF NOT EXISTS video_poll_leases (
+  video_id text PRIMARY KEY REFERENCES videos(id) ON DELETE CASCADE,
+  holder text NOT NULL,
+  expires_at timestamptz NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS alert_dispatch_locks (
+  video_id text REFERENCES videos(id) ON DELETE CASCADE,
+  alert_level text NOT NULL, -- 'warning', 'emergency'
+  holder text NOT NULL,
+  locked_until timestamptz NOT NULL,
+  PRIMARY KEY (video_id, alert_level)
+);
+
+CREATE OR REPLACE FUNCTION claim_poll_leases(
+  p_holder text,
+  p_video_ids text[],
+  p_lease_seconds integer
+)
+RETURNS TABLE (video_id text)
+LANGUAGE sql
+AS $$
+  INSERT INTO video_poll_leases AS lease (video_id, holder, expires_at)
+  SELECT id, p_holder, now() + make_interval(secs => p_lease_seconds)
+  FROM unnest(p_video_ids) AS id
+  ON CONFLICT (video_id) DO UPDATE
+    SET holder = excluded.holder, expires_at = excluded.expires_at
+    WHERE lease.expires_at < now()
+  RETURNING lease.video_id;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_alert_dispatch(
+  p_video_id text,
+  p_alert_level text,
+  p_holder text,
+  p_cooldown_seconds integer
+)
+RETURNS boolean
+LANGUAGE sql
+AS $$
+  WITH claimed AS (
+    INSERT INTO alert_dispatch_locks AS lock
+      (video_id, alert_level, holder, locked_until)
+    VALUES (
+      p_video_id,
+      p_alert_level,
+      p_holder,
+      now() + make_interval(secs => p_cooldown_seconds)
+    )
+    ON CONFLICT (video_id, alert_level) DO UPDATE
+      SET holder = excluded.holder, locked_until = excluded.locked_until
+      WHERE lock.locked_until < now()
+    RETURNING 1
+  )
+  SELECT EXISTS (SELECT 1 FROM claimed);
+$$;
+
+ALTER TABLE video_poll_leases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alert_dispatch_locks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON video_poll_leases
+  FOR ALL
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Allow all access for authenticated users" ON alert_dispatch_locks
+  FOR ALL
+  TO authenticated
+  USING (true);
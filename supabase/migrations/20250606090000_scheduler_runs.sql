@@ -0,0 +1,30 @@
+/*
+  # Scheduler run metrics
+
+  1. New Tables
+    - `scheduler_runs` - One row per polling cycle with its duration, the
+      number of videos polled and failed, and ticks skipped while it ran
+
+  2. Security
+    - Enable RLS
+    - Add policy for authenticated users to access their data
+*/
+
+CREATE TABLE IF NOT EXISTS scheduler_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  instance_id text NOT NULL,
+  started_at timestamptz NOT NULL,
+  duration_ms integer NOT NULL,
+  videos_polled integer NOT NULL DEFAULT 0,
+  failures integer NOT NULL DEFAULT 0,
+  skipped_ticks integer NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduler_runs_started_at ON scheduler_runs(started_at);
+
+ALTER TABLE scheduler_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON scheduler_runs
+  FOR ALL
+  TO authenticated
+  USING (true);
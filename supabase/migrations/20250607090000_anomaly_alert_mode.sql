@@ -0,0 +1,55 @@
+/*
+  # Statistical anomaly alert mode
+
+  1. Changes
+    - `videos.alert_mode` - 'threshold' (fixed warning/emergency rates) or
+      'anomaly' (deviation from a rolling baseline)
+    - `videos.anomaly_window_hours` - How much history forms the baseline
+    - `videos.anomaly_warning_sigma` / `videos.anomaly_emergency_sigma` -
+      Standard deviations above the baseline mean for each level
+
+  2. Functions
+    - `video_rate_baseline(video_id, since, until, max_gap_seconds)` - Mean,
+      standard deviation and count of the views-per-minute rates between two
+      times, skipping pairs of samples further apart than max_gap_seconds
+*/
+
+ALTER TABLE videos
+  ADD COLUMN IF NOT EXISTS alert_mode text NOT NULL DEFAULT 'threshold'
+  CHECK (alert_mode IN ('threshold', 'anomaly'));
+ALTER TABLE videos
+  ADD COLUMN IF NOT EXISTS anomaly_window_hours integer NOT NULL DEFAULT 6
+  CHECK (anomaly_window_hours BETWEEN 1 AND 168);
+ALTER TABLE videos
+  ADD COLUMN IF NOT EXISTS anomaly_warning_sigma numeric NOT NULL DEFAULT 3;
+ALTER TABLE videos
+  ADD COLUMN IF NOT EXISTS anomaly_emergency_sigma numeric NOT NULL DEFAULT 5;
+
+CREATE OR REPLACE FUNCTION video_rate_baseline(
+  p_video_id text,
+  p_since timestamptz,
+  p_until timestamptz,
+  p_max_gap_seconds integer
+)
+RETURNS TABLE (mean double precision, stddev double precision, count bigint)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    coalesce(avg(rate), 0),
+    coalesce(stddev_samp(rate), 0),
+    count(rate)
+  FROM (
+    SELECT
+      (views - lag(views) OVER w)
+        / nullif(extract(epoch FROM timestamp - lag(timestamp) OVER w) / 60, 0)
+        AS rate,
+      extract(epoch FROM timestamp - lag(timestamp) OVER w) AS gap_seconds
+    FROM video_views
+    WHERE video_id = p_video_id
+      AND timestamp >= p_since
+      AND timestamp < p_until
+    WINDOW w AS (ORDER BY timestamp)
+  ) rates
+  WHERE gap_seconds <= p_max_gap_seconds;
+$$;
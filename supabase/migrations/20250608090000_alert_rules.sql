@@ -0,0 +1,16 @@
+/*
+  # Alert rule engine
+
+  1. Changes
+    - `videos.alert_mode` - Adds 'rules', for videos alerting on custom rules
+    - `videos.alert_rules` - Rules evaluated in 'rules' mode. Each rule maps a
+      group of conditions (rate sustained for N samples, growth over a period,
+      deviation from the baseline, nested all/any groups) to an alert level
+*/
+
+ALTER TABLE videos DROP CONSTRAINT IF EXISTS videos_alert_mode_check;
+ALTER TABLE videos
+  ADD CONSTRAINT videos_alert_mode_check
+  CHECK (alert_mode IN ('threshold', 'anomaly', 'rules'));
+
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS alert_rules jsonb;
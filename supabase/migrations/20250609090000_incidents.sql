@@ -0,0 +1,51 @@
+/*
+  # Incident lifecycle
+
+  1. New Tables
+    - `incidents` - An ongoing alert for a video. Opens when the video
+      crosses a level, escalates from warning to emergency, can be
+      acknowledged, and resolves when the rate is back to normal
+
+  2. Changes
+    - `notifications_log.incident_id` - Incident the notification was sent for
+    - `notifications_log.alert_level` may now also be 'recovery'
+
+  3. Security
+    - Enable RLS
+    - Add policy for authenticated users to access their data
+*/
+
+CREATE TABLE IF NOT EXISTS incidents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  video_id text REFERENCES videos(id) ON DELETE CASCADE,
+  video_title text NOT NULL,
+  user_id uuid REFERENCES auth.users(id),
+  level text NOT NULL, -- 'warning', 'emergency'
+  status text NOT NULL DEFAULT 'open', -- 'open', 'acknowledged', 'resolved'
+  threshold integer,
+  peak_views_per_minute integer NOT NULL,
+  last_views_per_minute integer NOT NULL,
+  ack_token text NOT NULL, -- Secret for the acknowledge link in alerts
+  opened_at timestamptz DEFAULT now() NOT NULL,
+  escalated_at timestamptz,
+  acknowledged_at timestamptz,
+  acknowledged_by text,
+  resolved_at timestamptz
+);
+
+-- At most one unresolved incident per video, even with several instances
+CREATE UNIQUE INDEX IF NOT EXISTS idx_incidents_active_video
+  ON incidents(video_id)
+  WHERE status <> 'resolved';
+CREATE INDEX IF NOT EXISTS idx_incidents_user_id ON incidents(user_id);
+CREATE INDEX IF NOT EXISTS idx_incidents_opened_at ON incidents(opened_at);
+
+ALTER TABLE notifications_log
+  ADD COLUMN IF NOT EXISTS incident_id uuid REFERENCES incidents(id) ON DELETE SET NULL;
+
+ALTER TABLE incidents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON incidents
+  FOR ALL
+  TO authenticated
+  USING (true);
@@ -0,0 +1,50 @@
+/*
+  # Escalation policies
+
+  1. New Tables
+    - `escalation_policies` - Named, ordered steps for alerting on an
+      incident. Each step has `delayMinutes` (since the incident opened or
+      escalated), the `channels` of the video's recipients to notify and
+      optional `extraRecipients` such as an on-call contact
+
+  2. Changes
+    - `videos.escalation_policy_id` - Policy used for the video's incidents.
+      Without one, every recipient is alerted at once
+    - `incidents.escalation_step` - Number of policy steps already sent
+    - `incidents.escalation_started_at` - When the policy (re)started
+    - `notifications_log.escalation_step` - Policy step a notification was
+      sent for
+
+  3. Security
+    - Enable RLS
+    - Add policy for authenticated users to access their data
+*/
+
+CREATE TABLE IF NOT EXISTS escalation_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id),
+  name text NOT NULL,
+  steps jsonb NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_escalation_policies_user_id
+  ON escalation_policies(user_id);
+
+ALTER TABLE videos
+  ADD COLUMN IF NOT EXISTS escalation_policy_id uuid
+    REFERENCES escalation_policies(id) ON DELETE SET NULL;
+
+ALTER TABLE incidents
+  ADD COLUMN IF NOT EXISTS escalation_step integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS escalation_started_at timestamptz NOT NULL DEFAULT now();
+
+ALTER TABLE notifications_log
+  ADD COLUMN IF NOT EXISTS escalation_step integer;
+
+ALTER TABLE escalation_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON escalation_policies
+  FOR ALL
+  TO authenticated
+  USING (true);
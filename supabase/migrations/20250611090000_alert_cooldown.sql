@@ -0,0 +1,28 @@
+/*
+  # Configurable alert cooldown and re-notification
+
+  1. Changes
+    - `videos.alert_cooldown_minutes` - Minimum time between alerts of the
+      same level; alerts inside it are logged as suppressed
+    - `videos.renotify_mode` - 'none', 'interval' or 'rate_increase'
+    - `videos.renotify_interval_minutes` - Re-notify period for 'interval'
+    - `videos.renotify_rate_increase_percent` - Rate rise since the last alert
+      that re-notifies for 'rate_increase'
+    - `incidents.last_notified_at` / `incidents.last_notified_views_per_minute`
+      - When, and at what rate, recipients last heard about the incident
+    - `notifications_log.status` may now also be 'suppressed'
+*/
+
+ALTER TABLE videos
+  ADD COLUMN IF NOT EXISTS alert_cooldown_minutes integer NOT NULL DEFAULT 5
+    CHECK (alert_cooldown_minutes BETWEEN 0 AND 1440),
+  ADD COLUMN IF NOT EXISTS renotify_mode text NOT NULL DEFAULT 'interval'
+    CHECK (renotify_mode IN ('none', 'interval', 'rate_increase')),
+  ADD COLUMN IF NOT EXISTS renotify_interval_minutes integer NOT NULL DEFAULT 5
+    CHECK (renotify_interval_minutes BETWEEN 1 AND 1440),
+  ADD COLUMN IF NOT EXISTS renotify_rate_increase_percent numeric NOT NULL DEFAULT 50
+    CHECK (renotify_rate_increase_percent > 0);
+
+ALTER TABLE incidents
+  ADD COLUMN IF NOT EXISTS last_notified_at timestamptz,
+  ADD COLUMN IF NOT EXISTS last_notified_views_per_minute integer;
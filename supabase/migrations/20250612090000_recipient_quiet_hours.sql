@@ -0,0 +1,46 @@
+/*
+  # Recipient quiet hours
+
+  1. New Tables
+    - `recipient_schedules` - Time zone and quiet hours of one recipient on
+      one channel. Warnings and recovery notices inside the quiet hours are
+      held and sent as a batch afterwards; emergencies go through when
+      `allow_emergencies` is set
+
+  2. Changes
+    - `notifications_log.status` may now also be 'held' (waiting for quiet
+      hours to end) or 'releasing' (being sent as part of a batch)
+    - `notifications_log.delivery_note` - Why a notification was held, or
+      that it went out during quiet hours
+
+  3. Security
+    - Enable RLS
+    - Add policy for authenticated users to access their data
+*/
+
+CREATE TABLE IF NOT EXISTS recipient_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id),
+  type text NOT NULL, -- 'email', 'zalo', 'sms'
+  recipient text NOT NULL,
+  time_zone text NOT NULL DEFAULT 'Asia/Ho_Chi_Minh',
+  quiet_start time NOT NULL,
+  quiet_end time NOT NULL,
+  allow_emergencies boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, type, recipient)
+);
+
+ALTER TABLE notifications_log
+  ADD COLUMN IF NOT EXISTS delivery_note text;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_log_held
+  ON notifications_log(timestamp)
+  WHERE status = 'held';
+
+ALTER TABLE recipient_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON recipient_schedules
+  FOR ALL
+  TO authenticated
+  USING (true);
@@ -0,0 +1,13 @@
+/*
+  # Notification provider message ids
+
+  1. Changes
+    - `notifications_log.provider_message_id` - Id the provider (SMTP server,
+      Zalo OA, Twilio, eSMS) gave the message when it accepted it
+    - `notifications_log.status` is 'delivered' only when the provider
+      accepted the message; `delivery_note` holds the provider's reason for
+      a refusal
+*/
+
+ALTER TABLE notifications_log
+  ADD COLUMN IF NOT EXISTS provider_message_id text;
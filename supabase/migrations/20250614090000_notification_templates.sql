@@ -0,0 +1,47 @@
+/*
+  # Notification templates
+
+  1. New Tables
+    - `notification_templates` - A user's own template for one channel
+      ('email_subject', 'email_body', 'sms', 'zalo' or 'chat') in one
+      language ('en' or 'vi'). Channels without a row use the built-in
+      default for the language
+    - `notification_preferences` - The language alerts are written in and
+      the time zone times in alerts are shown in, per user
+
+  2. Security
+    - Enable RLS on both tables
+    - Add policy for authenticated users to access their data
+*/
+
+CREATE TABLE IF NOT EXISTS notification_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id),
+  language text NOT NULL CHECK (language IN ('en', 'vi')),
+  channel text NOT NULL CHECK (
+    channel IN ('email_subject', 'email_body', 'sms', 'zalo', 'chat')
+  ),
+  body text NOT NULL,
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, language, channel)
+);
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id),
+  language text NOT NULL DEFAULT 'en' CHECK (language IN ('en', 'vi')),
+  time_zone text NOT NULL DEFAULT 'Asia/Ho_Chi_Minh',
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE notification_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON notification_templates
+  FOR ALL
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Allow all access for authenticated users" ON notification_preferences
+  FOR ALL
+  TO authenticated
+  USING (true);
@@ -0,0 +1,94 @@
+/*
+  # Notification outbox
+
+  1. New Tables
+    - `notification_outbox` - Deliveries waiting to be sent or retried. Alerts
+      are queued here instead of being sent from the scheduler, and a
+      dispatcher sends them, retrying failures with exponential backoff. A
+      delivery that failed `max_attempts` times stays as 'dead' until it is
+      retried by hand. A delivery covers one `notifications_log` row, or every
+      row of a batch of alerts held for quiet hours
+
+  2. Changes
+    - `notifications_log.attempts` - Delivery attempts made so far
+    - `notifications_log.is_test` - Sent with the Test button, so a retry is
+      sent as a test too
+    - `notifications_log.status` may now also be 'pending' (queued),
+      'retrying' (failed, another attempt is scheduled) or 'dead' (gave up).
+      Held alerts being released are 'pending' rather than 'releasing'
+
+  3. Functions
+    - `claim_notification_outbox(holder, limit, lease_seconds)` - Atomically
+      claims deliveries that are due, or whose previous sender's lease
+      expired, and returns them
+
+  4. Security
+    - Enable RLS
+    - Add policy for authenticated users to access their data
+*/
+
+CREATE TABLE IF NOT EXISTS notification_outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_ids uuid[] NOT NULL,
+  video_id text REFERENCES videos(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id),
+  type text NOT NULL,
+  recipient text NOT NULL,
+  alert_level text NOT NULL,
+  video_info jsonb NOT NULL,
+  held_batch boolean NOT NULL DEFAULT false,
+  is_test boolean NOT NULL DEFAULT false,
+  status text NOT NULL DEFAULT 'pending', -- 'pending', 'sending', 'dead'
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  locked_by text,
+  locked_until timestamptz,
+  last_error text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_due
+  ON notification_outbox(next_attempt_at)
+  WHERE status IN ('pending', 'sending');
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_notification_ids
+  ON notification_outbox USING gin(notification_ids);
+
+ALTER TABLE notifications_log
+  ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS is_test boolean NOT NULL DEFAULT false;
+
+UPDATE notifications_log SET status = 'held' WHERE status = 'releasing';
+
+CREATE OR REPLACE FUNCTION claim_notification_outbox(
+  p_holder text,
+  p_limit integer,
+  p_lease_seconds integer
+)
+RETURNS SETOF notification_outbox
+LANGUAGE sql
+AS $$
+  UPDATE notification_outbox
+  SET
+    status = 'sending',
+    locked_by = p_holder,
+    locked_until = now() + make_interval(secs => p_lease_seconds)
+  WHERE id IN (
+    SELECT id
+    FROM notification_outbox
+    WHERE (status = 'pending' AND next_attempt_at <= now())
+      OR (status = 'sending' AND locked_until < now())
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+ALTER TABLE notification_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON notification_outbox
+  FOR ALL
+  TO authenticated
+  USING (true);
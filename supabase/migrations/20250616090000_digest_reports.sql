@@ -0,0 +1,99 @@
+/*
+  # Digest reports
+
+  1. New Tables
+    - `digest_settings` - How often a user's digest email goes out ('off',
+      'daily' or 'weekly'), to whom, and at which local hour (and weekday).
+      `next_send_at` is claimed by the instance that sends the digest
+
+  2. Functions
+    - `video_digest_buckets(video_id, since, until, buckets)` - Splits the
+      period into equal buckets and returns, per bucket with samples, the
+      views gained and the peak views-per-minute rate with its time. Pairs of
+      samples further apart than twice the video's polling interval count
+      towards views gained but not towards the peak
+
+  3. Security
+    - Enable RLS
+    - Add policy for authenticated users to access their data
+*/
+
+CREATE TABLE IF NOT EXISTS digest_settings (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id),
+  frequency text NOT NULL DEFAULT 'off'
+    CHECK (frequency IN ('off', 'daily', 'weekly')),
+  recipients text[] NOT NULL DEFAULT '{}',
+  send_hour integer NOT NULL DEFAULT 8 CHECK (send_hour BETWEEN 0 AND 23),
+  weekly_day integer NOT NULL DEFAULT 1 CHECK (weekly_day BETWEEN 0 AND 6), -- 0 is Sunday
+  time_zone text NOT NULL DEFAULT 'Asia/Ho_Chi_Minh',
+  next_send_at timestamptz,
+  last_sent_at timestamptz,
+  last_error text,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_digest_settings_next_send_at
+  ON digest_settings(next_send_at)
+  WHERE next_send_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION video_digest_buckets(
+  p_video_id text,
+  p_since timestamptz,
+  p_until timestamptz,
+  p_buckets integer
+)
+RETURNS TABLE (
+  bucket integer,
+  views_gained bigint,
+  peak_views_per_minute double precision,
+  peak_at timestamptz
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH samples AS (
+    SELECT
+      vv.timestamp,
+      vv.views - lag(vv.views) OVER w AS delta,
+      extract(epoch FROM vv.timestamp - lag(vv.timestamp) OVER w) AS gap_seconds,
+      coalesce(v.poll_interval_seconds, 60) * 2 AS max_gap_seconds
+    FROM video_views vv
+    JOIN videos v ON v.id = vv.video_id
+    WHERE vv.video_id = p_video_id
+      AND vv.timestamp >= p_since
+      AND vv.timestamp < p_until
+    WINDOW w AS (ORDER BY vv.timestamp)
+  ),
+  rates AS (
+    SELECT
+      timestamp,
+      delta,
+      CASE
+        WHEN gap_seconds > 0 AND gap_seconds <= max_gap_seconds
+        THEN delta / (gap_seconds / 60)
+      END AS rate,
+      least(
+        p_buckets - 1,
+        floor(
+          extract(epoch FROM timestamp - p_since)
+            / extract(epoch FROM p_until - p_since) * p_buckets
+        )
+      )::integer AS bucket
+    FROM samples
+    WHERE delta IS NOT NULL
+  )
+  SELECT DISTINCT ON (bucket)
+    bucket,
+    (sum(delta) OVER (PARTITION BY bucket))::bigint,
+    rate,
+    timestamp
+  FROM rates
+  ORDER BY bucket, rate DESC NULLS LAST;
+$$;
+
+ALTER TABLE digest_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON digest_settings
+  FOR ALL
+  TO authenticated
+  USING (true);
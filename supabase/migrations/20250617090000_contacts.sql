@@ -0,0 +1,72 @@
+/*
+  # Contacts and recipient groups
+
+  1. New Tables
+    - `contacts` - People (or shared inboxes and channels) alerts can go to,
+      with a handle per channel. Any handle may be empty
+    - `contact_groups` - Named groups of contacts, e.g. "Marketing on-call"
+    - `contact_group_members` - Contacts in each group
+
+  2. Changes
+    - `videos.notifications` may reference contacts and groups with
+      `contactIds` and `groupIds` alongside the literal recipient lists. They
+      are resolved when an alert is sent, so editing a contact or a group
+      applies to every video that references it. Ids of deleted contacts and
+      groups are ignored
+
+  3. Security
+    - Enable RLS on all new tables
+    - Add policy for authenticated users to access their data
+*/
+
+CREATE TABLE IF NOT EXISTS contacts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id),
+  name text NOT NULL,
+  email text,
+  phone text,
+  zalo_id text,
+  slack_webhook text,
+  discord_webhook text,
+  telegram_chat_id text,
+  webhook_url text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contacts_user_id ON contacts(user_id);
+
+CREATE TABLE IF NOT EXISTS contact_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id),
+  name text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS contact_group_members (
+  group_id uuid REFERENCES contact_groups(id) ON DELETE CASCADE,
+  contact_id uuid REFERENCES contacts(id) ON DELETE CASCADE,
+  PRIMARY KEY (group_id, contact_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_group_members_contact_id
+  ON contact_group_members(contact_id);
+
+ALTER TABLE contacts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE contact_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE contact_group_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON contacts
+  FOR ALL
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Allow all access for authenticated users" ON contact_groups
+  FOR ALL
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Allow all access for authenticated users" ON contact_group_members
+  FOR ALL
+  TO authenticated
+  USING (true);
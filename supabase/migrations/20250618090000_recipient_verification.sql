@@ -0,0 +1,95 @@
+/*
+  # Recipient verification and opt-outs
+
+  1. New Tables
+    - `recipient_verifications` - Whether an email, SMS or Zalo recipient
+      confirmed they want alerts from a user. Email recipients confirm with
+      the link in `token`; SMS and Zalo recipients are sent a code, stored
+      hashed, for the dashboard user to enter. Alerts only go to confirmed
+      recipients
+    - `recipient_opt_outs` - Recipients who unsubscribed from one video's
+      alerts, or from all of a user's alerts when `video_id` is null
+
+  2. Changes
+    - Recipients of existing videos, contacts and escalation steps are
+      recorded as confirmed, so their alerts keep going out
+
+  3. Security
+    - Enable RLS on all new tables
+    - Add policy for authenticated users to access their data
+*/
+
+CREATE TABLE IF NOT EXISTS recipient_verifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id),
+  type text NOT NULL, -- 'email', 'sms', 'zalo'
+  recipient text NOT NULL,
+  status text NOT NULL DEFAULT 'pending', -- 'pending', 'verified'
+  token text UNIQUE,
+  code_hash text,
+  code_expires_at timestamptz,
+  code_attempts integer NOT NULL DEFAULT 0,
+  requested_at timestamptz,
+  verified_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, type, recipient)
+);
+
+CREATE TABLE IF NOT EXISTS recipient_opt_outs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id),
+  type text NOT NULL,
+  recipient text NOT NULL,
+  video_id text REFERENCES videos(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_recipient_opt_outs_unique
+  ON recipient_opt_outs(user_id, type, recipient, COALESCE(video_id, ''));
+
+INSERT INTO recipient_verifications (user_id, type, recipient, status, verified_at)
+SELECT DISTINCT v.user_id, c.type, r.recipient, 'verified', now()
+FROM videos v
+CROSS JOIN (
+  VALUES ('email', 'emails'), ('sms', 'phoneNumbers'), ('zalo', 'zaloIds')
+) AS c(type, key)
+CROSS JOIN LATERAL jsonb_array_elements_text(
+  COALESCE(v.notifications -> c.key, '[]'::jsonb)
+) AS r(recipient)
+WHERE v.user_id IS NOT NULL
+ON CONFLICT (user_id, type, recipient) DO NOTHING;
+
+INSERT INTO recipient_verifications (user_id, type, recipient, status, verified_at)
+SELECT DISTINCT p.user_id, c.type, r.recipient, 'verified', now()
+FROM escalation_policies p
+CROSS JOIN LATERAL jsonb_array_elements(p.steps) AS s(step)
+CROSS JOIN (
+  VALUES ('email', 'emails'), ('sms', 'phoneNumbers'), ('zalo', 'zaloIds')
+) AS c(type, key)
+CROSS JOIN LATERAL jsonb_array_elements_text(
+  COALESCE(s.step -> 'extraRecipients' -> c.key, '[]'::jsonb)
+) AS r(recipient)
+WHERE p.user_id IS NOT NULL
+ON CONFLICT (user_id, type, recipient) DO NOTHING;
+
+INSERT INTO recipient_verifications (user_id, type, recipient, status, verified_at)
+SELECT DISTINCT user_id, c.type, c.recipient, 'verified', now()
+FROM contacts
+CROSS JOIN LATERAL (
+  VALUES ('email', email), ('sms', phone), ('zalo', zalo_id)
+) AS c(type, recipient)
+WHERE user_id IS NOT NULL AND c.recipient IS NOT NULL
+ON CONFLICT (user_id, type, recipient) DO NOTHING;
+
+ALTER TABLE recipient_verifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recipient_opt_outs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON recipient_verifications
+  FOR ALL
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Allow all access for authenticated users" ON recipient_opt_outs
+  FOR ALL
+  TO authenticated
+  USING (true);
@@ -0,0 +1,33 @@
+/*
+  # Threshold change history
+
+  1. New Tables
+    - `threshold_changes` - Each time a video's warning or emergency
+      threshold was edited, with the values before and after, so the view
+      chart can draw the thresholds that applied to older samples
+
+  2. Security
+    - Enable RLS on the new table
+    - Add policy for authenticated users to access their data
+*/
+
+CREATE TABLE IF NOT EXISTS threshold_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  video_id text REFERENCES videos(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id),
+  previous_warning_threshold integer NOT NULL,
+  previous_emergency_threshold integer NOT NULL,
+  warning_threshold integer NOT NULL,
+  emergency_threshold integer NOT NULL,
+  changed_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_threshold_changes_video_id_changed_at
+  ON threshold_changes(video_id, changed_at);
+
+ALTER TABLE threshold_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON threshold_changes
+  FOR ALL
+  TO authenticated
+  USING (true);
@@ -0,0 +1,84 @@
+/*
+  # View history by time bucket
+
+  1. Functions
+    - `video_view_history(video_id, from, to, bucket_seconds)` - Splits the
+      range into buckets of the given length, aligned to `from`, and returns
+      per bucket with samples the latest view count, the views gained, and
+      the average and peak views-per-minute rates. The sample just before
+      `from` is read too, so the first bucket gets a rate. Pairs of samples
+      further apart than twice the video's polling interval count towards
+      views gained but not towards the rates. Pairs spanning the last time
+      tracking was resumed count towards neither
+*/
+
+CREATE OR REPLACE FUNCTION video_view_history(
+  p_video_id text,
+  p_from timestamptz,
+  p_to timestamptz,
+  p_bucket_seconds integer
+)
+RETURNS TABLE (
+  bucket_start timestamptz,
+  views bigint,
+  views_gained bigint,
+  avg_views_per_minute double precision,
+  peak_views_per_minute double precision,
+  samples bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH video AS (
+    SELECT
+      coalesce(poll_interval_seconds, 60) * 2 AS max_gap_seconds,
+      resumed_at
+    FROM videos
+    WHERE id = p_video_id
+  ),
+  samples AS (
+    SELECT
+      vv.timestamp,
+      vv.views,
+      vv.views - lag(vv.views) OVER w AS delta,
+      extract(epoch FROM vv.timestamp - lag(vv.timestamp) OVER w) AS gap_seconds,
+      lag(vv.timestamp) OVER w < video.resumed_at
+        AND vv.timestamp >= video.resumed_at AS spans_resume,
+      video.max_gap_seconds
+    FROM video_views vv
+    CROSS JOIN video
+    WHERE vv.video_id = p_video_id
+      AND vv.timestamp >= p_from - make_interval(secs => video.max_gap_seconds)
+      AND vv.timestamp < p_to
+    WINDOW w AS (ORDER BY vv.timestamp)
+  ),
+  rates AS (
+    SELECT
+      date_bin(make_interval(secs => p_bucket_seconds), timestamp, p_from)
+        AS bucket_start,
+      views,
+      delta,
+      spans_resume,
+      CASE
+        WHEN gap_seconds > 0
+          AND gap_seconds <= max_gap_seconds
+          AND spans_resume IS NOT TRUE
+        THEN gap_seconds
+      END AS rate_seconds
+    FROM samples
+    WHERE timestamp >= p_from
+  )
+  SELECT
+    bucket_start,
+    max(views)::bigint,
+    coalesce(sum(delta) FILTER (WHERE spans_resume IS NOT TRUE), 0)::bigint,
+    (
+      sum(delta) FILTER (WHERE rate_seconds IS NOT NULL)
+        / nullif(sum(rate_seconds) / 60, 0)
+    )::double precision,
+    max(delta / (rate_seconds / 60))::double precision,
+    count(*)
+  FROM rates
+  GROUP BY bucket_start
+  ORDER BY bucket_start;
+$$;
@@ -0,0 +1,332 @@
+/*
+  # View sample retention and rollups
+
+  1. New Tables
+    - `video_views_hourly` / `video_views_daily` - Raw `video_views` samples
+      rolled up per video and UTC hour or day: the latest view count, views
+      gained, the views gained and seconds covered by pairs of samples close
+      enough for a rate (so averages can be re-aggregated exactly), the peak
+      views-per-minute rate and the number of samples
+    - `retention_settings` - A single row with how many days raw samples and
+      hourly rollups are kept; daily rollups are kept forever.
+      `rolled_up_until` is where the next rollup starts and `next_run_at` is
+      claimed by the instance that runs the retention job
+
+  2. Functions
+    - `rollup_video_views(since, until)` - Rolls the raw samples between two
+      hour boundaries up into hourly buckets, and the days they touch into
+      daily buckets. Buckets already rolled up are recomputed
+    - `prune_video_views(raw_before, hourly_before)` - Deletes raw samples
+      and hourly rollups older than the cutoffs and returns how many rows
+      each lost
+    - `video_view_history(video_id, from, to, bucket_seconds, raw_since,
+      hourly_since)` - Replaces the raw-only version: reads raw samples from
+      `raw_since`, hourly rollups from `hourly_since` up to `raw_since` and
+      daily rollups before that, and aggregates them into the same buckets
+
+  3. Security
+    - Enable RLS on all new tables
+    - Add policy for authenticated users to access their data
+*/
+
+CREATE TABLE IF NOT EXISTS video_views_hourly (
+  video_id text REFERENCES videos(id) ON DELETE CASCADE,
+  bucket_start timestamptz NOT NULL,
+  views bigint NOT NULL,
+  views_gained bigint NOT NULL DEFAULT 0,
+  rate_views bigint NOT NULL DEFAULT 0,
+  rate_seconds double precision NOT NULL DEFAULT 0,
+  peak_views_per_minute double precision,
+  samples integer NOT NULL,
+  PRIMARY KEY (video_id, bucket_start)
+);
+
+CREATE TABLE IF NOT EXISTS video_views_daily (
+  video_id text REFERENCES videos(id) ON DELETE CASCADE,
+  bucket_start timestamptz NOT NULL,
+  views bigint NOT NULL,
+  views_gained bigint NOT NULL DEFAULT 0,
+  rate_views bigint NOT NULL DEFAULT 0,
+  rate_seconds double precision NOT NULL DEFAULT 0,
+  peak_views_per_minute double precision,
+  samples integer NOT NULL,
+  PRIMARY KEY (video_id, bucket_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_video_views_hourly_bucket_start
+  ON video_views_hourly(bucket_start);
+
+-- Raw samples back anomaly baselines (up to 168 hours) and weekly digests,
+-- so they are kept at least 7 days
+CREATE TABLE IF NOT EXISTS retention_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  raw_retention_days integer NOT NULL DEFAULT 14
+    CHECK (raw_retention_days >= 7),
+  hourly_retention_days integer NOT NULL DEFAULT 365,
+  rolled_up_until timestamptz,
+  next_run_at timestamptz NOT NULL DEFAULT now(),
+  last_run_at timestamptz,
+  last_error text,
+  last_deleted_raw bigint,
+  last_deleted_hourly bigint,
+  updated_at timestamptz DEFAULT now(),
+  updated_by uuid REFERENCES auth.users(id),
+  CHECK (hourly_retention_days >= raw_retention_days)
+);
+
+INSERT INTO retention_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION rollup_video_views(
+  p_since timestamptz,
+  p_until timestamptz
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  hours_written integer;
+BEGIN
+  -- Samples up to 30 minutes (twice the longest polling interval) before
+  -- p_since give the first samples of the period their rate
+  WITH samples AS (
+    SELECT
+      vv.video_id,
+      vv.timestamp,
+      vv.views,
+      vv.views - lag(vv.views) OVER w AS delta,
+      extract(epoch FROM vv.timestamp - lag(vv.timestamp) OVER w) AS gap_seconds,
+      lag(vv.timestamp) OVER w < v.resumed_at
+        AND vv.timestamp >= v.resumed_at AS spans_resume,
+      coalesce(v.poll_interval_seconds, 60) * 2 AS max_gap_seconds
+    FROM video_views vv
+    JOIN videos v ON v.id = vv.video_id
+    WHERE vv.timestamp >= p_since - interval '30 minutes'
+      AND vv.timestamp < p_until
+    WINDOW w AS (PARTITION BY vv.video_id ORDER BY vv.timestamp)
+  ),
+  rates AS (
+    SELECT
+      video_id,
+      date_trunc('hour', timestamp) AS bucket_start,
+      views,
+      CASE WHEN spans_resume IS NOT TRUE THEN delta END AS delta,
+      CASE
+        WHEN gap_seconds > 0
+          AND gap_seconds <= max_gap_seconds
+          AND spans_resume IS NOT TRUE
+        THEN gap_seconds
+      END AS rate_seconds
+    FROM samples
+    WHERE timestamp >= p_since
+  )
+  INSERT INTO video_views_hourly (
+    video_id,
+    bucket_start,
+    views,
+    views_gained,
+    rate_views,
+    rate_seconds,
+    peak_views_per_minute,
+    samples
+  )
+  SELECT
+    video_id,
+    bucket_start,
+    max(views),
+    coalesce(sum(delta), 0),
+    coalesce(sum(delta) FILTER (WHERE rate_seconds IS NOT NULL), 0),
+    coalesce(sum(rate_seconds), 0),
+    max(delta / (rate_seconds / 60)),
+    count(*)
+  FROM rates
+  GROUP BY video_id, bucket_start
+  ON CONFLICT (video_id, bucket_start) DO UPDATE SET
+    views = excluded.views,
+    views_gained = excluded.views_gained,
+    rate_views = excluded.rate_views,
+    rate_seconds = excluded.rate_seconds,
+    peak_views_per_minute = excluded.peak_views_per_minute,
+    samples = excluded.samples;
+
+  GET DIAGNOSTICS hours_written = ROW_COUNT;
+
+  INSERT INTO video_views_daily (
+    video_id,
+    bucket_start,
+    views,
+    views_gained,
+    rate_views,
+    rate_seconds,
+    peak_views_per_minute,
+    samples
+  )
+  SELECT
+    video_id,
+    date_trunc('day', bucket_start),
+    max(views),
+    sum(views_gained),
+    sum(rate_views),
+    sum(rate_seconds),
+    max(peak_views_per_minute),
+    sum(samples)
+  FROM video_views_hourly
+  WHERE bucket_start >= date_trunc('day', p_since)
+    AND bucket_start < p_until
+  GROUP BY video_id, date_trunc('day', bucket_start)
+  ON CONFLICT (video_id, bucket_start) DO UPDATE SET
+    views = excluded.views,
+    views_gained = excluded.views_gained,
+    rate_views = excluded.rate_views,
+    rate_seconds = excluded.rate_seconds,
+    peak_views_per_minute = excluded.peak_views_per_minute,
+    samples = excluded.samples;
+
+  RETURN hours_written;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION prune_video_views(
+  p_raw_before timestamptz,
+  p_hourly_before timestamptz
+)
+RETURNS TABLE (raw_deleted bigint, hourly_deleted bigint)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM video_views WHERE timestamp < p_raw_before;
+  GET DIAGNOSTICS raw_deleted = ROW_COUNT;
+
+  DELETE FROM video_views_hourly WHERE bucket_start < p_hourly_before;
+  GET DIAGNOSTICS hourly_deleted = ROW_COUNT;
+
+  RETURN NEXT;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS video_view_history(text, timestamptz, timestamptz, integer);
+
+CREATE OR REPLACE FUNCTION video_view_history(
+  p_video_id text,
+  p_from timestamptz,
+  p_to timestamptz,
+  p_bucket_seconds integer,
+  p_raw_since timestamptz,
+  p_hourly_since timestamptz
+)
+RETURNS TABLE (
+  bucket_start timestamptz,
+  views bigint,
+  views_gained bigint,
+  avg_views_per_minute double precision,
+  peak_views_per_minute double precision,
+  samples bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH video AS (
+    SELECT
+      coalesce(poll_interval_seconds, 60) * 2 AS max_gap_seconds,
+      resumed_at
+    FROM videos
+    WHERE id = p_video_id
+  ),
+  raw_samples AS (
+    SELECT
+      vv.timestamp,
+      vv.views,
+      vv.views - lag(vv.views) OVER w AS delta,
+      extract(epoch FROM vv.timestamp - lag(vv.timestamp) OVER w) AS gap_seconds,
+      lag(vv.timestamp) OVER w < video.resumed_at
+        AND vv.timestamp >= video.resumed_at AS spans_resume,
+      video.max_gap_seconds
+    FROM video_views vv
+    CROSS JOIN video
+    WHERE vv.video_id = p_video_id
+      AND vv.timestamp >= greatest(p_from, p_raw_since)
+        - make_interval(secs => video.max_gap_seconds)
+      AND vv.timestamp < p_to
+    WINDOW w AS (ORDER BY vv.timestamp)
+  ),
+  raw_rates AS (
+    SELECT
+      timestamp,
+      views,
+      CASE WHEN spans_resume IS NOT TRUE THEN delta END AS delta,
+      CASE
+        WHEN gap_seconds > 0
+          AND gap_seconds <= max_gap_seconds
+          AND spans_resume IS NOT TRUE
+        THEN gap_seconds
+      END AS rate_seconds
+    FROM raw_samples
+    WHERE timestamp >= greatest(p_from, p_raw_since)
+  ),
+  tiers AS (
+    SELECT
+      timestamp,
+      views,
+      delta AS views_gained,
+      CASE WHEN rate_seconds IS NOT NULL THEN delta END AS rate_views,
+      rate_seconds,
+      delta / (rate_seconds / 60) AS peak_views_per_minute,
+      1 AS samples
+    FROM raw_rates
+    UNION ALL
+    SELECT
+      bucket_start,
+      views,
+      views_gained,
+      rate_views,
+      rate_seconds,
+      peak_views_per_minute,
+      samples
+    FROM video_views_hourly
+    WHERE video_id = p_video_id
+      AND bucket_start >= greatest(p_from, p_hourly_since)
+      AND bucket_start < least(p_to, p_raw_since)
+    UNION ALL
+    SELECT
+      bucket_start,
+      views,
+      views_gained,
+      rate_views,
+      rate_seconds,
+      peak_views_per_minute,
+      samples
+    FROM video_views_daily
+    WHERE video_id = p_video_id
+      AND bucket_start >= p_from
+      AND bucket_start < least(p_to, p_hourly_since)
+  )
+  SELECT
+    date_bin(make_interval(secs => p_bucket_seconds), timestamp, p_from)
+      AS bucket_start,
+    max(views)::bigint,
+    coalesce(sum(views_gained), 0)::bigint,
+    (sum(rate_views) / nullif(sum(rate_seconds) / 60, 0))::double precision,
+    max(peak_views_per_minute)::double precision,
+    sum(samples)::bigint
+  FROM tiers
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+ALTER TABLE video_views_hourly ENABLE ROW LEVEL SECURITY;
+ALTER TABLE video_views_daily ENABLE ROW LEVEL SECURITY;
+ALTER TABLE retention_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access for authenticated users" ON video_views_hourly
+  FOR ALL
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Allow all access for authenticated users" ON video_views_daily
+  FOR ALL
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Allow all access for authenticated users" ON retention_settings
+  FOR ALL
+  TO authenticated
+  USING (true);
@@ -0,0 +1,10 @@
+/*
+  # Notification history pagination
+
+  1. Changes
+    - Index `notifications_log` on (timestamp, id) descending, the order the
+      notification history is paged through with a cursor
+*/
+
+CREATE INDEX IF NOT EXISTS idx_notifications_log_timestamp_id
+  ON notifications_log(timestamp DESC, id DESC);
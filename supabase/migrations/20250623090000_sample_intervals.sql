@@ -0,0 +1,351 @@
+/*
+  # Record the polling interval of each view sample
+
+  1. Changes
+    - `video_views.interval_seconds` - The interval the sample was polled on:
+      the video's polling interval, stretched by any quota slowdown. A pair
+      of samples is a gap when it is more than twice the newer sample's
+      interval apart, so samples taken further apart while quota is tight
+      still give a rate. Older samples fall back to the video's polling
+      interval
+
+  2. Functions
+    - `video_rate_baseline`, `video_digest_buckets`, `rollup_video_views` and
+      `video_view_history` - Use the per-sample gap rule. The rollup and the
+      raw tier of the history compare their first sample with the video's
+      previous sample, however long ago it was taken, rather than with
+      samples of a fixed lookback
+*/
+
+ALTER TABLE video_views ADD COLUMN IF NOT EXISTS interval_seconds integer;
+
+CREATE OR REPLACE FUNCTION video_rate_baseline(
+  p_video_id text,
+  p_since timestamptz,
+  p_until timestamptz,
+  p_max_gap_seconds integer
+)
+RETURNS TABLE (mean double precision, stddev double precision, count bigint)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    coalesce(avg(rate), 0),
+    coalesce(stddev_samp(rate), 0),
+    count(rate)
+  FROM (
+    SELECT
+      (views - lag(views) OVER w)
+        / nullif(extract(epoch FROM timestamp - lag(timestamp) OVER w) / 60, 0)
+        AS rate,
+      extract(epoch FROM timestamp - lag(timestamp) OVER w) AS gap_seconds,
+      coalesce(interval_seconds * 2, p_max_gap_seconds) AS max_gap_seconds
+    FROM video_views
+    WHERE video_id = p_video_id
+      AND timestamp >= p_since
+      AND timestamp < p_until
+    WINDOW w AS (ORDER BY timestamp)
+  ) rates
+  WHERE gap_seconds <= max_gap_seconds;
+$$;
+
+CREATE OR REPLACE FUNCTION video_digest_buckets(
+  p_video_id text,
+  p_since timestamptz,
+  p_until timestamptz,
+  p_buckets integer
+)
+RETURNS TABLE (
+  bucket integer,
+  views_gained bigint,
+  peak_views_per_minute double precision,
+  peak_at timestamptz
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH samples AS (
+    SELECT
+      vv.timestamp,
+      vv.views - lag(vv.views) OVER w AS delta,
+      extract(epoch FROM vv.timestamp - lag(vv.timestamp) OVER w) AS gap_seconds,
+      coalesce(vv.interval_seconds, v.poll_interval_seconds, 60) * 2
+        AS max_gap_seconds
+    FROM video_views vv
+    JOIN videos v ON v.id = vv.video_id
+    WHERE vv.video_id = p_video_id
+      AND vv.timestamp >= p_since
+      AND vv.timestamp < p_until
+    WINDOW w AS (ORDER BY vv.timestamp)
+  ),
+  rates AS (
+    SELECT
+      timestamp,
+      delta,
+      CASE
+        WHEN gap_seconds > 0 AND gap_seconds <= max_gap_seconds
+        THEN delta / (gap_seconds / 60)
+      END AS rate,
+      least(
+        p_buckets - 1,
+        floor(
+          extract(epoch FROM timestamp - p_since)
+            / extract(epoch FROM p_until - p_since) * p_buckets
+        )
+      )::integer AS bucket
+    FROM samples
+    WHERE delta IS NOT NULL
+  )
+  SELECT DISTINCT ON (bucket)
+    bucket,
+    (sum(delta) OVER (PARTITION BY bucket))::bigint,
+    rate,
+    timestamp
+  FROM rates
+  ORDER BY bucket, rate DESC NULLS LAST;
+$$;
+
+CREATE OR REPLACE FUNCTION rollup_video_views(
+  p_since timestamptz,
+  p_until timestamptz
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  hours_written integer;
+BEGIN
+  -- Each video's last sample before p_since gives the first sample of the
+  -- period its rate
+  WITH period_samples AS (
+    SELECT video_id, timestamp, views, interval_seconds
+    FROM video_views
+    WHERE timestamp >= p_since
+      AND timestamp < p_until
+    UNION ALL
+    SELECT previous.*
+    FROM videos v
+    CROSS JOIN LATERAL (
+      SELECT video_id, timestamp, views, interval_seconds
+      FROM video_views
+      WHERE video_id = v.id
+        AND timestamp < p_since
+      ORDER BY timestamp DESC
+      LIMIT 1
+    ) previous
+  ),
+  samples AS (
+    SELECT
+      s.video_id,
+      s.timestamp,
+      s.views,
+      s.views - lag(s.views) OVER w AS delta,
+      extract(epoch FROM s.timestamp - lag(s.timestamp) OVER w) AS gap_seconds,
+      lag(s.timestamp) OVER w < v.resumed_at
+        AND s.timestamp >= v.resumed_at AS spans_resume,
+      coalesce(s.interval_seconds, v.poll_interval_seconds, 60) * 2
+        AS max_gap_seconds
+    FROM period_samples s
+    JOIN videos v ON v.id = s.video_id
+    WINDOW w AS (PARTITION BY s.video_id ORDER BY s.timestamp)
+  ),
+  rates AS (
+    SELECT
+      video_id,
+      date_trunc('hour', timestamp) AS bucket_start,
+      views,
+      CASE WHEN spans_resume IS NOT TRUE THEN delta END AS delta,
+      CASE
+        WHEN gap_seconds > 0
+          AND gap_seconds <= max_gap_seconds
+          AND spans_resume IS NOT TRUE
+        THEN gap_seconds
+      END AS rate_seconds
+    FROM samples
+    WHERE timestamp >= p_since
+  )
+  INSERT INTO video_views_hourly (
+    video_id,
+    bucket_start,
+    views,
+    views_gained,
+    rate_views,
+    rate_seconds,
+    peak_views_per_minute,
+    samples
+  )
+  SELECT
+    video_id,
+    bucket_start,
+    max(views),
+    coalesce(sum(delta), 0),
+    coalesce(sum(delta) FILTER (WHERE rate_seconds IS NOT NULL), 0),
+    coalesce(sum(rate_seconds), 0),
+    max(delta / (rate_seconds / 60)),
+    count(*)
+  FROM rates
+  GROUP BY video_id, bucket_start
+  ON CONFLICT (video_id, bucket_start) DO UPDATE SET
+    views = excluded.views,
+    views_gained = excluded.views_gained,
+    rate_views = excluded.rate_views,
+    rate_seconds = excluded.rate_seconds,
+    peak_views_per_minute = excluded.peak_views_per_minute,
+    samples = excluded.samples;
+
+  GET DIAGNOSTICS hours_written = ROW_COUNT;
+
+  INSERT INTO video_views_daily (
+    video_id,
+    bucket_start,
+    views,
+    views_gained,
+    rate_views,
+    rate_seconds,
+    peak_views_per_minute,
+    samples
+  )
+  SELECT
+    video_id,
+    date_trunc('day', bucket_start),
+    max(views),
+    sum(views_gained),
+    sum(rate_views),
+    sum(rate_seconds),
+    max(peak_views_per_minute),
+    sum(samples)
+  FROM video_views_hourly
+  WHERE bucket_start >= date_trunc('day', p_since)
+    AND bucket_start < p_until
+  GROUP BY video_id, date_trunc('day', bucket_start)
+  ON CONFLICT (video_id, bucket_start) DO UPDATE SET
+    views = excluded.views,
+    views_gained = excluded.views_gained,
+    rate_views = excluded.rate_views,
+    rate_seconds = excluded.rate_seconds,
+    peak_views_per_minute = excluded.peak_views_per_minute,
+    samples = excluded.samples;
+
+  RETURN hours_written;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION video_view_history(
+  p_video_id text,
+  p_from timestamptz,
+  p_to timestamptz,
+  p_bucket_seconds integer,
+  p_raw_since timestamptz,
+  p_hourly_since timestamptz
+)
+RETURNS TABLE (
+  bucket_start timestamptz,
+  views bigint,
+  views_gained bigint,
+  avg_views_per_minute double precision,
+  peak_views_per_minute double precision,
+  samples bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH video AS (
+    SELECT coalesce(poll_interval_seconds, 60) AS poll_interval_seconds,
+      resumed_at
+    FROM videos
+    WHERE id = p_video_id
+  ),
+  -- The last sample before the raw range gives its first sample a rate
+  raw_window AS (
+    SELECT timestamp, views, interval_seconds
+    FROM video_views
+    WHERE video_id = p_video_id
+      AND timestamp >= greatest(p_from, p_raw_since)
+      AND timestamp < p_to
+    UNION ALL
+    (
+      SELECT timestamp, views, interval_seconds
+      FROM video_views
+      WHERE video_id = p_video_id
+        AND timestamp < greatest(p_from, p_raw_since)
+      ORDER BY timestamp DESC
+      LIMIT 1
+    )
+  ),
+  raw_samples AS (
+    SELECT
+      rw.timestamp,
+      rw.views,
+      rw.views - lag(rw.views) OVER w AS delta,
+      extract(epoch FROM rw.timestamp - lag(rw.timestamp) OVER w) AS gap_seconds,
+      lag(rw.timestamp) OVER w < video.resumed_at
+        AND rw.timestamp >= video.resumed_at AS spans_resume,
+      coalesce(rw.interval_seconds, video.poll_interval_seconds) * 2
+        AS max_gap_seconds
+    FROM raw_window rw
+    CROSS JOIN video
+    WINDOW w AS (ORDER BY rw.timestamp)
+  ),
+  raw_rates AS (
+    SELECT
+      timestamp,
+      views,
+      CASE WHEN spans_resume IS NOT TRUE THEN delta END AS delta,
+      CASE
+        WHEN gap_seconds > 0
+          AND gap_seconds <= max_gap_seconds
+          AND spans_resume IS NOT TRUE
+        THEN gap_seconds
+      END AS rate_seconds
+    FROM raw_samples
+    WHERE timestamp >= greatest(p_from, p_raw_since)
+  ),
+  tiers AS (
+    SELECT
+      timestamp,
+      views,
+      delta AS views_gained,
+      CASE WHEN rate_seconds IS NOT NULL THEN delta END AS rate_views,
+      rate_seconds,
+      delta / (rate_seconds / 60) AS peak_views_per_minute,
+      1 AS samples
+    FROM raw_rates
+    UNION ALL
+    SELECT
+      bucket_start,
+      views,
+      views_gained,
+      rate_views,
+      rate_seconds,
+      peak_views_per_minute,
+      samples
+    FROM video_views_hourly
+    WHERE video_id = p_video_id
+      AND bucket_start >= greatest(p_from, p_hourly_since)
+      AND bucket_start < least(p_to, p_raw_since)
+    UNION ALL
+    SELECT
+      bucket_start,
+      views,
+      views_gained,
+      rate_views,
+      rate_seconds,
+      peak_views_per_minute,
+      samples
+    FROM video_views_daily
+    WHERE video_id = p_video_id
+      AND bucket_start >= p_from
+      AND bucket_start < least(p_to, p_hourly_since)
+  )
+  SELECT
+    date_bin(make_interval(secs => p_bucket_seconds), timestamp, p_from)
+      AS bucket_start,
+    max(views)::bigint,
+    coalesce(sum(views_gained), 0)::bigint,
+    (sum(rate_views) / nullif(sum(rate_seconds) / 60, 0))::double precision,
+    max(peak_views_per_minute)::double precision,
+    sum(samples)::bigint
+  FROM tiers
+  GROUP BY 1
+  ORDER BY 1;
+$$;
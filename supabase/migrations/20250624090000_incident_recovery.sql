@@ -0,0 +1,11 @@
+/*
+  # Incident recovery hysteresis
+
+  1. Changes
+    - `incidents.normal_evaluations` - How many evaluations in a row found
+      the video's rate back to normal. The incident resolves once enough
+      have, and any evaluation above normal resets the count
+*/
+
+ALTER TABLE incidents
+  ADD COLUMN IF NOT EXISTS normal_evaluations integer NOT NULL DEFAULT 0;
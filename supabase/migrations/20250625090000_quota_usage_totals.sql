@@ -0,0 +1,22 @@
+/*
+  # YouTube quota totals
+
+  1. Functions
+    - `youtube_quota_usage_totals` - The units spent on a quota day, one row
+      per endpoint and user. The ledger gets a row per YouTube call, so a
+      day's rows are added up in the database rather than read one by one
+*/
+
+CREATE INDEX IF NOT EXISTS idx_youtube_quota_usage_day_endpoint_user
+  ON youtube_quota_usage(day, endpoint, user_id);
+
+CREATE OR REPLACE FUNCTION youtube_quota_usage_totals(p_day date)
+RETURNS TABLE (endpoint text, user_id uuid, units numeric)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT endpoint, user_id, sum(units)
+  FROM youtube_quota_usage
+  WHERE day = p_day
+  GROUP BY endpoint, user_id;
+$$;
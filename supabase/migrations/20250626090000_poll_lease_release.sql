@@ -0,0 +1,38 @@
+/*
+  # Renew and release poll leases
+
+  1. Functions
+    - `renew_poll_leases(holder, video_ids, lease_seconds)` - Extends the
+      leases the holder still has on the given videos and returns their ids
+    - `release_poll_leases(holder, video_ids)` - Gives up the holder's leases
+      on the given videos once they are polled. A lease only runs out by
+      itself when the instance holding it died
+*/
+
+CREATE OR REPLACE FUNCTION renew_poll_leases(
+  p_holder text,
+  p_video_ids text[],
+  p_lease_seconds integer
+)
+RETURNS TABLE (video_id text)
+LANGUAGE sql
+AS $$
+  UPDATE video_poll_leases AS lease
+  SET expires_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE lease.video_id = ANY (p_video_ids)
+    AND lease.holder = p_holder
+    AND lease.expires_at >= now()
+  RETURNING lease.video_id;
+$$;
+
+CREATE OR REPLACE FUNCTION release_poll_leases(
+  p_holder text,
+  p_video_ids text[]
+)
+RETURNS void
+LANGUAGE sql
+AS $$
+  DELETE FROM video_poll_leases
+  WHERE video_id = ANY (p_video_ids)
+    AND holder = p_holder;
+$$;
@@ -0,0 +1,10 @@
+/*
+  # Signed acknowledge links
+
+  1. Changes
+    - Drop `incidents.ack_token`. Acknowledge links are now signed with a
+      server-side secret instead, as any signed-in user can read the
+      incidents table. Links sent before this stop working
+*/
+
+ALTER TABLE incidents DROP COLUMN IF EXISTS ack_token;
@@ -0,0 +1,21 @@
+/*
+  # Hash recipient confirmation tokens
+
+  1. Changes
+    - `recipient_verifications.token` becomes `token_hash`, the SHA-256 of
+      the link token, as any signed-in user can read the table. Links
+      already sent keep working
+    - Pending confirmation codes are cleared: codes are now hashed with a
+      server-side secret, so the stored hashes no longer match. A new code
+      can be sent from the video's page
+*/
+
+ALTER TABLE recipient_verifications RENAME COLUMN token TO token_hash;
+
+UPDATE recipient_verifications
+SET token_hash = encode(sha256(convert_to(token_hash, 'UTF8')), 'hex')
+WHERE token_hash IS NOT NULL;
+
+UPDATE recipient_verifications
+SET code_hash = NULL, code_expires_at = NULL
+WHERE code_hash IS NOT NULL;